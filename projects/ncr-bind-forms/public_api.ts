@@ -16,16 +16,32 @@ export {
     BindFormGroupDirective,
     BindFormArrayName,
     BindFormGroupName,
+    BindFormRecordName,
+    BindAutosaveDirective,
+    BindVisibleDirective,
     BindFormBuilder,
     BindFormArray,
     BindFormControl,
     BindFormGroup,
+    BindFormRecord,
+    BindFormRecordOptions,
+    BindRecordControlFactory,
+    BindVisibilityRule,
+    visibleWhen,
     BindFormControlType,
+    BindFormState,
+    BindControlsOf,
+    BindControlsArrayOf,
+    BindPartialValue,
+    BindTransformerPair,
+    BindTransformers,
+    NG_BIND_TRANSFORMERS,
 } from './src/forms';
 
 export {
     AsyncBindValidator,
     AsyncBindValidatorFn,
+    AsyncBindValidatorOptions,
     CheckboxRequiredValidator,
     EmailValidator,
     MaxLengthValidator,
@@ -33,7 +49,29 @@ export {
     PatternValidator,
     RequiredValidator,
     ValidationBindErrors,
+    ValidationBindErrorItem,
     ErrorItemType,
     BindValidator,
     BindValidatorFn,
 } from './src/directives/validators';
+
+export { BindTransformer } from './src/directives/transformers';
+
+export { AsyncBindValidatorFailure, AsyncBindValidatorFailurePolicy, setAsyncValidatorFailureHandler } from './src/async_validation';
+export { BindFormHistory, BindFormHistoryOptions } from './src/history';
+export { BIND_DRAFT_STORAGE, BindDraft, BindDraftStorage, BindIndexedDbDraftStorage, BindWebDraftStorage } from './src/draft_storage';
+export {
+    BIND_DYNAMIC_FIELDS,
+    BindDynamicField,
+    BindDynamicFieldComponent,
+    BindDynamicFieldLayout,
+    BindDynamicFieldOption,
+    BindDynamicFieldRegistry,
+    BindDynamicFieldType,
+    createDynamicControl,
+} from './src/dynamic_form/dynamic_field';
+export { BindDynamicFormComponent } from './src/dynamic_form/dynamic_form';
+export { BindControlFactory, BindJsonPatchOperation } from './src/json_patch';
+export { BindJsonSchema, BindJsonSchemaType, BindSchemaIssue, BindSchemaOptions } from './src/json_schema';
+export { BindServerError, BindServerErrorMapper } from './src/server_errors';
+export { BindControlSnapshot, BindControlState, BindStateMismatch } from './src/snapshot';
@@ -0,0 +1,119 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { Observable, of, throwError, timer } from 'rxjs';
+import { catchError, mergeMap, retryWhen } from 'rxjs/operators';
+
+import { ErrorItemType, ValidationBindErrors } from './directives/validators';
+import { AbstractBindControl } from './model';
+
+/**
+ * @description
+ * Defines what happens when the async validators of a control fail, i.e. when the observable
+ * or promise they return errors instead of emitting a result.
+ *
+ * @publicApi
+ */
+export interface AsyncBindValidatorFailurePolicy {
+    /**
+     * @description
+     * How many times the validators run again before giving up, `0` by default.
+     */
+    retries?: number;
+    /**
+     * @description
+     * Milliseconds before the first retry, `500` by default. The delay doubles with each retry.
+     */
+    retryDelay?: number;
+    /**
+     * @description
+     * The outcome once the retries are exhausted:
+     *
+     * * `'error'` (the default): reports an `asyncValidatorFailed` entry.
+     * * `'valid'`: treats the control as valid.
+     */
+    action?: 'error' | 'valid';
+    /**
+     * @description
+     * The severity of the `asyncValidatorFailed` entry, `ErrorItemType.error` by default. Use
+     * `ErrorItemType.alert` to let the form be submitted when a check is unavailable.
+     */
+    errorType?: ErrorItemType;
+}
+
+/**
+ * @description
+ * Describes a failed async validation, see `setAsyncValidatorFailureHandler`.
+ *
+ * @publicApi
+ */
+export interface AsyncBindValidatorFailure {
+    /**
+     * @description
+     * The control whose async validators failed.
+     */
+    control: AbstractBindControl;
+    /**
+     * @description
+     * The error raised by the last attempt.
+     */
+    error: any;
+    /**
+     * @description
+     * The number of attempts, retries included.
+     */
+    attempts: number;
+}
+
+let _failureHandler: ((failure: AsyncBindValidatorFailure) => void) | null = null;
+
+/**
+ * @description
+ * Registers a function called each time the async validators of a control fail after their
+ * retries, e.g. to send the error to a logging service. Pass `null` to remove the handler.
+ *
+ * @usageNotes
+ *
+ * ```typescript
+ * setAsyncValidatorFailureHandler(({ control, error }) => logger.warn('Async validation failed', error));
+ * ```
+ *
+ * @publicApi
+ */
+export function setAsyncValidatorFailureHandler(handler: ((failure: AsyncBindValidatorFailure) => void) | null): void {
+    _failureHandler = handler;
+}
+
+/**
+ * Applies a failure policy to the result of the async validators of a control. `validation`
+ * runs the validators again on each subscription, which is what retries rely on.
+ */
+export function applyAsyncFailurePolicy(
+    validation: Observable<ValidationBindErrors | null>,
+    control: AbstractBindControl,
+    policy: AsyncBindValidatorFailurePolicy
+): Observable<ValidationBindErrors | null> {
+    const retries = policy.retries || 0;
+    const retryDelay = policy.retryDelay != null ? policy.retryDelay : 500;
+    let attempts = 1;
+    return validation.pipe(
+        retryWhen((errors: Observable<any>) =>
+            errors.pipe(mergeMap((error: any) => (attempts > retries ? throwError(error) : timer(retryDelay * Math.pow(2, attempts++ - 1)))))
+        ),
+        catchError((error: any) => {
+            if (_failureHandler) {
+                _failureHandler({ control, error, attempts });
+            }
+            if (policy.action === 'valid') {
+                return of(null);
+            }
+            const message = error && error.message ? error.message : String(error);
+            return of({ asyncValidatorFailed: policy.errorType != null ? { message, type: policy.errorType } : { message } });
+        })
+    );
+}
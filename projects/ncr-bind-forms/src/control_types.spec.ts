@@ -0,0 +1,97 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { BindFormControlType, formatControlValue, formatIsoDate, parseControlValue, parseIsoDate, parseNumberString } from './control_types';
+
+describe('parseIsoDate', () => {
+    it('should parse ISO dates as local dates', () => {
+        expect(parseIsoDate('2021-03-04')).toEqual(new Date(2021, 2, 4));
+        expect(parseIsoDate(' 2021-03-04 ')).toEqual(new Date(2021, 2, 4));
+    });
+
+    it('should keep the years before 100', () => {
+        expect(parseIsoDate('0099-01-01')!.getFullYear()).toBe(99);
+    });
+
+    it('should parse ISO date-times', () => {
+        expect(parseIsoDate('2021-03-04T10:20:30Z')).toEqual(new Date(Date.UTC(2021, 2, 4, 10, 20, 30)));
+        expect(parseIsoDate('2021-03-04T10:20+02:00')).toEqual(new Date(Date.UTC(2021, 2, 4, 8, 20)));
+    });
+
+    it('should reject overflowing and malformed dates', () => {
+        expect(parseIsoDate('2021-02-30')).toBeNull();
+        expect(parseIsoDate('2021-13-01')).toBeNull();
+        expect(parseIsoDate('2021-3-4')).toBeNull();
+        expect(parseIsoDate('04/03/2021')).toBeNull();
+        expect(parseIsoDate('')).toBeNull();
+    });
+});
+
+describe('formatIsoDate', () => {
+    it('should format local dates as yyyy-MM-dd', () => {
+        expect(formatIsoDate(new Date(2021, 2, 4, 23, 59))).toBe('2021-03-04');
+    });
+
+    it('should pad the years', () => {
+        const date = new Date(2000, 0, 1);
+        date.setFullYear(99);
+        expect(formatIsoDate(date)).toBe('0099-01-01');
+    });
+
+    it('should round-trip with parseIsoDate', () => {
+        expect(formatIsoDate(parseIsoDate('1999-12-31')!)).toBe('1999-12-31');
+    });
+});
+
+describe('parseNumberString', () => {
+    it('should parse plain decimal numbers', () => {
+        expect(parseNumberString('42')).toBe(42);
+        expect(parseNumberString(' -1.5 ')).toBe(-1.5);
+        expect(parseNumberString('+.5')).toBe(0.5);
+        expect(parseNumberString('3.')).toBe(3);
+        expect(parseNumberString('1e3')).toBe(1000);
+    });
+
+    it('should reject other strings', () => {
+        expect(parseNumberString('12a')).toBeNull();
+        expect(parseNumberString('1,5')).toBeNull();
+        expect(parseNumberString('1 000')).toBeNull();
+        expect(parseNumberString('0x10')).toBeNull();
+        expect(parseNumberString('')).toBeNull();
+    });
+});
+
+describe('parseControlValue', () => {
+    it('should keep the values of default controls', () => {
+        expect(parseControlValue(BindFormControlType.default, '2021-03-04')).toBe('2021-03-04');
+        expect(parseControlValue(null, '')).toBe('');
+    });
+
+    it('should coerce the values of typed controls', () => {
+        expect(parseControlValue(BindFormControlType.date, '2021-03-04')).toEqual(new Date(2021, 2, 4));
+        expect(parseControlValue(BindFormControlType.year, '2021')).toBe(2021);
+        expect(parseControlValue(BindFormControlType.year, new Date(2021, 2, 4))).toBe(2021);
+        expect(parseControlValue(BindFormControlType.number, '1.5')).toBe(1.5);
+    });
+
+    it('should turn empty values into null and keep the invalid ones', () => {
+        expect(parseControlValue(BindFormControlType.date, ' ')).toBeNull();
+        expect(parseControlValue(BindFormControlType.date, '2021-02-30')).toBe('2021-02-30');
+        expect(parseControlValue(BindFormControlType.year, '21')).toBe('21');
+        expect(parseControlValue(BindFormControlType.number, '12a')).toBe('12a');
+    });
+});
+
+describe('formatControlValue', () => {
+    it('should format the dates of date controls only', () => {
+        const date = new Date(2021, 2, 4);
+        expect(formatControlValue(BindFormControlType.date, date)).toBe('2021-03-04');
+        expect(formatControlValue(BindFormControlType.default, date)).toBe(date);
+        expect(formatControlValue(BindFormControlType.date, 'not a date')).toBe('not a date');
+    });
+});
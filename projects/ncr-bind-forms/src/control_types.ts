@@ -0,0 +1,141 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+/**
+ * The kind of value held by a `BindFormControl`.
+ *
+ * The type drives how the control stores its value and which built-in validator it runs:
+ *
+ * * `default`: values are stored as is.
+ * * `date`: ISO 8601 strings are parsed to `Date` values, and written back to the view as
+ * `yyyy-MM-dd`. Runs `BindValidators.date`.
+ * * `year`: four-digit years are stored as numbers. Runs `BindValidators.year`.
+ * * `number`: numeric strings are coerced to numbers. Runs `BindValidators.number`.
+ *
+ * Values that cannot be coerced are kept as is and reported by the matching validator.
+ *
+ * @publicApi
+ */
+export enum BindFormControlType {
+    'default' = 'default',
+    'date' = 'date',
+    'year' = 'year',
+    'number' = 'number',
+}
+
+const ISO_DATE_REGEXP = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+const ISO_DATE_TIME_REGEXP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+
+const YEAR_REGEXP = /^\d{4}$/;
+
+const NUMBER_REGEXP = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/;
+
+function _isEmpty(value: any): boolean {
+    return value == null || (typeof value === 'string' && value.trim().length === 0);
+}
+
+function _pad(value: number, length: number): string {
+    let res = String(value);
+    while (res.length < length) {
+        res = '0' + res;
+    }
+    return res;
+}
+
+/**
+ * Parses an ISO 8601 date (`yyyy-MM-dd`, read as a local date) or date-time string.
+ * Returns `null` when the string is not a valid ISO date.
+ */
+export function parseIsoDate(value: string): Date | null {
+    const text = value.trim();
+    const match = ISO_DATE_REGEXP.exec(text);
+    if (match) {
+        const year = +match[1];
+        const month = +match[2] - 1;
+        const day = +match[3];
+        const date = new Date(year, month, day);
+        date.setFullYear(year);
+        // Rejects overflowing dates such as 2021-02-30, which `Date` silently rolls over
+        return date.getFullYear() === year && date.getMonth() === month && date.getDate() === day ? date : null;
+    }
+    if (ISO_DATE_TIME_REGEXP.test(text)) {
+        const date = new Date(text);
+        return isNaN(date.getTime()) ? null : date;
+    }
+    return null;
+}
+
+/**
+ * Formats a date as an ISO 8601 local date (`yyyy-MM-dd`), the format used by `input[type=date]`.
+ */
+export function formatIsoDate(date: Date): string {
+    return `${_pad(date.getFullYear(), 4)}-${_pad(date.getMonth() + 1, 2)}-${_pad(date.getDate(), 2)}`;
+}
+
+/**
+ * Parses a plain decimal number string (`.` as decimal separator, no grouping).
+ * Returns `null` when the string is not a number.
+ */
+export function parseNumberString(value: string): number | null {
+    const text = value.trim();
+    return NUMBER_REGEXP.test(text) ? +text : null;
+}
+
+/**
+ * Coerces a view or programmatic value to the model value stored by a control of the given type.
+ *
+ * * `date`: ISO strings become `Date` instances.
+ * * `year`: four-digit strings and dates become numbers.
+ * * `number`: numeric strings become numbers.
+ *
+ * Empty values become `null`. Values that cannot be coerced are kept as is, so that the
+ * matching type validator reports them.
+ */
+export function parseControlValue(type: BindFormControlType | null | undefined, value: any): any {
+    if (!type || type === BindFormControlType.default) {
+        return value;
+    }
+    if (_isEmpty(value)) {
+        return null;
+    }
+    switch (type) {
+        case BindFormControlType.date:
+            if (typeof value === 'string') {
+                return parseIsoDate(value) || value;
+            }
+            return value;
+        case BindFormControlType.year:
+            if (typeof value === 'string' && YEAR_REGEXP.test(value.trim())) {
+                return +value;
+            }
+            if (value instanceof Date && !isNaN(value.getTime())) {
+                return value.getFullYear();
+            }
+            return value;
+        case BindFormControlType.number:
+            if (typeof value === 'string') {
+                const parsed = parseNumberString(value);
+                return parsed != null ? parsed : value;
+            }
+            return value;
+        default:
+            return value;
+    }
+}
+
+/**
+ * Converts the model value of a control of the given type to the value written to the view.
+ * `date` values are written as ISO local dates, all other values are written as is.
+ */
+export function formatControlValue(type: BindFormControlType | null | undefined, value: any): any {
+    if (type === BindFormControlType.date && value instanceof Date && !isNaN(value.getTime())) {
+        return formatIsoDate(value);
+    }
+    return value;
+}
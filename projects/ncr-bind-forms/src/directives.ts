@@ -8,8 +8,11 @@
 
 import { NgModule, Type } from '@angular/core';
 
+import { BindAutosaveDirective } from './directives/autosave';
 import { CheckboxControlBindValueAccessor } from './directives/checkbox_value_accessor';
+import { DateBindValueAccessor } from './directives/date_value_accessor';
 import { DefaultBindValueAccessor } from './directives/default_value_accessor';
+import { MaskBindValueAccessor } from './directives/mask_value_accessor';
 import { NgControlStatus, NgBindControlStatusGroup } from './directives/ng_control_status';
 import { NgBindFormDirective } from './directives/ng_form';
 import { NgBindModel } from './directives/ng_model';
@@ -21,14 +24,30 @@ import { RangeBindValueAccessor } from './directives/range_value_accessor';
 import { BindFormControlDirective } from './directives/reactive_directives/form_control_directive';
 import { BindFormControlName } from './directives/reactive_directives/form_control_name';
 import { BindFormGroupDirective } from './directives/reactive_directives/form_group_directive';
-import { BindFormArrayName, BindFormGroupName } from './directives/reactive_directives/form_group_name';
+import { BindFormArrayName, BindFormGroupName, BindFormRecordName } from './directives/reactive_directives/form_group_name';
 import { NgSelectOption, SelectControlBindValueAccessor } from './directives/select_control_value_accessor';
 import { NgSelectMultipleOption, SelectMultipleControlBindValueAccessor } from './directives/select_multiple_control_value_accessor';
+import { BindVisibleDirective } from './directives/visible';
+import {
+    CollapseWhitespaceTransformer,
+    CurrencyTransformer,
+    DecimalTransformer,
+    EmptyToNullTransformer,
+    LowercaseTransformer,
+    MaskTransformer,
+    PhoneTransformer,
+    StripNonDigitsTransformer,
+    TrimTransformer,
+    UppercaseTransformer,
+} from './directives/transformers';
 import { CheckboxRequiredValidator, EmailValidator, MaxLengthValidator, MinLengthValidator, PatternValidator, RequiredValidator } from './directives/validators';
 
+export { BindAutosaveDirective } from './directives/autosave';
 export { CheckboxControlBindValueAccessor } from './directives/checkbox_value_accessor';
 export { ControlBindValueAccessor } from './directives/control_value_accessor';
+export { DateBindValueAccessor } from './directives/date_value_accessor';
 export { DefaultBindValueAccessor } from './directives/default_value_accessor';
+export { MaskBindValueAccessor } from './directives/mask_value_accessor';
 export { NgBindControl } from './directives/ng_control';
 export { NgControlStatus, NgBindControlStatusGroup } from './directives/ng_control_status';
 export { NgBindFormDirective } from './directives/ng_form';
@@ -40,9 +59,10 @@ export { RangeBindValueAccessor } from './directives/range_value_accessor';
 export { BindFormControlDirective, NG_MODEL_WITH_FORM_CONTROL_WARNING } from './directives/reactive_directives/form_control_directive';
 export { BindFormControlName } from './directives/reactive_directives/form_control_name';
 export { BindFormGroupDirective } from './directives/reactive_directives/form_group_directive';
-export { BindFormArrayName, BindFormGroupName } from './directives/reactive_directives/form_group_name';
+export { BindFormArrayName, BindFormGroupName, BindFormRecordName } from './directives/reactive_directives/form_group_name';
 export { NgSelectOption, SelectControlBindValueAccessor } from './directives/select_control_value_accessor';
 export { NgSelectMultipleOption, SelectMultipleControlBindValueAccessor } from './directives/select_multiple_control_value_accessor';
+export { BindVisibleDirective } from './directives/visible';
 
 export const BIND_SHARED_FORM_DIRECTIVES: Type<any>[] = [
     NgNoValidate,
@@ -50,6 +70,8 @@ export const BIND_SHARED_FORM_DIRECTIVES: Type<any>[] = [
     NgSelectMultipleOption,
     DefaultBindValueAccessor,
     NumberBindValueAccessor,
+    DateBindValueAccessor,
+    MaskBindValueAccessor,
     RangeBindValueAccessor,
     CheckboxControlBindValueAccessor,
     SelectControlBindValueAccessor,
@@ -63,11 +85,30 @@ export const BIND_SHARED_FORM_DIRECTIVES: Type<any>[] = [
     PatternValidator,
     CheckboxRequiredValidator,
     EmailValidator,
+    TrimTransformer,
+    CollapseWhitespaceTransformer,
+    UppercaseTransformer,
+    LowercaseTransformer,
+    StripNonDigitsTransformer,
+    EmptyToNullTransformer,
+    DecimalTransformer,
+    CurrencyTransformer,
+    PhoneTransformer,
+    MaskTransformer,
+    BindAutosaveDirective,
+    BindVisibleDirective,
 ];
 
 export const BIND_TEMPLATE_DRIVEN_DIRECTIVES: Type<any>[] = [NgBindModel, NgBindModelGroup, NgBindFormDirective];
 
-export const BIND_REACTIVE_DRIVEN_DIRECTIVES: Type<any>[] = [BindFormControlDirective, BindFormGroupDirective, BindFormControlName, BindFormGroupName, BindFormArrayName];
+export const BIND_REACTIVE_DRIVEN_DIRECTIVES: Type<any>[] = [
+    BindFormControlDirective,
+    BindFormGroupDirective,
+    BindFormControlName,
+    BindFormGroupName,
+    BindFormRecordName,
+    BindFormArrayName,
+];
 
 /**
  * Internal module used for sharing directives between BindFormsModule and BindReactiveFormsModule
@@ -7,7 +7,7 @@
  */
 import { Observable } from 'rxjs';
 import { AbstractBindControl } from '../model';
-import { ValidationBindErrors } from './validators';
+import { ErrorItemType, ValidationBindErrors } from './validators';
 
 /**
  * @description
@@ -54,6 +54,15 @@ export abstract class AbstractBindControlDirective {
         return this.control ? this.control.invalid : null;
     }
 
+    /**
+     * @description
+     * Reports whether the control is warned, meaning that it or one of its descendants
+     * reports a non-blocking alert. If the control is not present, null is returned.
+     */
+    get warned(): boolean | null {
+        return this.control ? this.control.warned : null;
+    }
+
     /**
      * @description
      * Reports whether a control is pending, meaning that that async validation is occurring and
@@ -83,6 +92,25 @@ export abstract class AbstractBindControlDirective {
         return this.control ? this.control.enabled : null;
     }
 
+    /**
+     * @description
+     * Reports whether the control is readonly, meaning that its value is shown but cannot be
+     * edited in the UI, while still validated and submitted. If the control is not present,
+     * null is returned.
+     */
+    get readonly(): boolean | null {
+        return this.control ? this.control.readonly : null;
+    }
+
+    /**
+     * @description
+     * Reports whether the control is visible, hidden controls being exempt from validation
+     * checks. If the control is not present, null is returned.
+     */
+    get visible(): boolean | null {
+        return this.control ? this.control.visible : null;
+    }
+
     /**
      * @description
      * Reports the control's validation errors. If the control is not present, null is returned.
@@ -91,6 +119,40 @@ export abstract class AbstractBindControlDirective {
         return this.control ? this.control.errors : null;
     }
 
+    /**
+     * @description
+     * Reports the control's blocking errors. If the control is not present, null is returned.
+     */
+    get blockingErrors(): ValidationBindErrors | null {
+        return this.control ? this.control.blockingErrors : null;
+    }
+
+    /**
+     * @description
+     * Reports the control's non-blocking warnings. If the control is not present, null is returned.
+     */
+    get warnings(): ValidationBindErrors | null {
+        return this.control ? this.control.warnings : null;
+    }
+
+    /**
+     * @description
+     * Reports the control's informational entries (help, info and ok).
+     * If the control is not present, null is returned.
+     */
+    get infos(): ValidationBindErrors | null {
+        return this.control ? this.control.infos : null;
+    }
+
+    /**
+     * @description
+     * Reports the most severe `ErrorItemType` of the control and its descendants.
+     * If the control is not present or has no errors, null is returned.
+     */
+    get severity(): ErrorItemType | null {
+        return this.control ? this.control.severity : null;
+    }
+
     /**
      * @description
      * Reports whether the control is pristine, meaning that the user has not yet changed
@@ -121,7 +183,7 @@ export abstract class AbstractBindControlDirective {
     /**
      * @description
      * Reports the validation status of the control. Possible values include:
-     * 'VALID', 'INVALID', 'DISABLED', and 'PENDING'.
+     * 'VALID', 'INVALID', 'WARNED', 'DISABLED', and 'PENDING'.
      * If the control is not present, null is returned.
      */
     get status(): string | null {
@@ -0,0 +1,183 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { BindDraft, BindDraftStorage } from '../draft_storage';
+import { BindFormControl, BindFormGroup } from '../model';
+
+import { BindAutosaveDirective } from './autosave';
+import { BindControlContainer } from './control_container';
+
+class FakeDraftStorage implements BindDraftStorage {
+    drafts: { [key: string]: BindDraft } = {};
+    failure: any = null;
+
+    load(key: string): Promise<BindDraft | null> {
+        return Promise.resolve(this.drafts[key] || null);
+    }
+
+    save(key: string, draft: BindDraft): Promise<void> {
+        if (this.failure) return Promise.reject(this.failure);
+        this.drafts[key] = JSON.parse(JSON.stringify(draft));
+        return Promise.resolve();
+    }
+
+    remove(key: string): void {
+        delete this.drafts[key];
+    }
+}
+
+async function flush(): Promise<void> {
+    for (let i = 0; i < 10; i++) {
+        await Promise.resolve();
+    }
+}
+
+describe('BindAutosaveDirective', () => {
+    let form: BindFormGroup;
+    let storage: FakeDraftStorage;
+    let directive: BindAutosaveDirective;
+
+    function createDirective(): BindAutosaveDirective {
+        const dir = new BindAutosaveDirective({ control: form } as any as BindControlContainer, storage);
+        dir.key = 'order';
+        dir.autosaveVersion = 2;
+        return dir;
+    }
+
+    beforeEach(() => {
+        jasmine.clock().install();
+        form = new BindFormGroup({
+            reference: new BindFormControl('A-1'),
+            password: new BindFormControl('secret', undefined, undefined, { sensitive: true }),
+        });
+        storage = new FakeDraftStorage();
+        directive = createDirective();
+    });
+
+    afterEach(() => {
+        directive.ngOnDestroy();
+        jasmine.clock().uninstall();
+    });
+
+    it('should save a draft once the values stop changing', async () => {
+        directive.ngAfterViewInit();
+        await flush();
+
+        form.get('reference')!.setValue('A-2');
+        form.markAsDirty();
+        jasmine.clock().tick(500);
+        form.get('reference')!.setValue('A-3');
+        jasmine.clock().tick(999);
+        expect(storage.drafts.order).toBeUndefined();
+
+        jasmine.clock().tick(1);
+        expect(directive.saving).toBe(true);
+        await flush();
+        expect(directive.saving).toBe(false);
+        expect(directive.saved).toBe(true);
+        expect(storage.drafts.order.version).toEqual(2);
+        expect((storage.drafts.order.snapshot.state.controls as any).reference.value).toEqual('A-3');
+    });
+
+    it('should not save pristine forms', async () => {
+        directive.ngAfterViewInit();
+        await flush();
+
+        form.get('reference')!.setValue('A-2');
+        jasmine.clock().tick(1000);
+        await flush();
+        expect(storage.drafts.order).toBeUndefined();
+    });
+
+    it('should remove the draft once the form is back to pristine', async () => {
+        directive.ngAfterViewInit();
+        await flush();
+
+        form.get('reference')!.markAsDirty();
+        form.get('reference')!.setValue('A-2');
+        jasmine.clock().tick(1000);
+        await flush();
+        expect(storage.drafts.order).toBeDefined();
+
+        form.get('reference')!.setValue('A-1');
+        expect(form.pristine).toBe(true);
+        jasmine.clock().tick(1000);
+        await flush();
+        expect(storage.drafts.order).toBeUndefined();
+    });
+
+    it('should never save the values of sensitive controls', async () => {
+        await directive.saveDraft();
+
+        const controls = storage.drafts.order.snapshot.state.controls as any;
+        expect(controls.reference.hasOwnProperty('value')).toBe(true);
+        expect(controls.password.hasOwnProperty('value')).toBe(false);
+    });
+
+    it('should record the errors of the storage', async () => {
+        storage.failure = new Error('Quota exceeded');
+        await directive.saveDraft();
+
+        expect(directive.error).toBe(storage.failure);
+        expect(directive.saved).toBe(false);
+    });
+
+    it('should offer to restore a draft of the same version', async () => {
+        form.get('reference')!.setValue('A-9');
+        form.get('password')!.setValue('changed');
+        await directive.saveDraft();
+        form.reset({ reference: 'A-1', password: 'typed' });
+
+        const next = createDirective();
+        const found: BindDraft[] = [];
+        next.draftFound.subscribe((draft: BindDraft) => found.push(draft));
+        next.ngAfterViewInit();
+        await flush();
+        expect(found.length).toEqual(1);
+        expect(form.value.reference).toEqual('A-1');
+
+        expect(next.restoreDraft()).toEqual([]);
+        expect(form.value).toEqual({ reference: 'A-9', password: 'typed' });
+        next.ngOnDestroy();
+    });
+
+    it('should restore drafts right away with autosaveRestore', async () => {
+        form.get('reference')!.setValue('A-9');
+        await directive.saveDraft();
+        form.reset();
+
+        const next = createDirective();
+        next.autosaveRestore = true;
+        next.ngAfterViewInit();
+        await flush();
+        expect(form.value.reference).toEqual('A-9');
+        next.ngOnDestroy();
+    });
+
+    it('should remove drafts of another version', async () => {
+        await directive.saveDraft();
+
+        const next = createDirective();
+        next.autosaveVersion = 3;
+        const spy = jasmine.createSpy('draftFound');
+        next.draftFound.subscribe(spy);
+        next.ngAfterViewInit();
+        await flush();
+        expect(spy).not.toHaveBeenCalled();
+        expect(next.draft).toBeNull();
+        expect(storage.drafts.order).toBeUndefined();
+        next.ngOnDestroy();
+    });
+
+    it('should clear the draft', async () => {
+        await directive.saveDraft();
+        await directive.clearDraft();
+
+        expect(storage.drafts.order).toBeUndefined();
+    });
+});
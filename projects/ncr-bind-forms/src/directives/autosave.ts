@@ -0,0 +1,250 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { AfterViewInit, Directive, EventEmitter, Inject, Input, OnDestroy, Optional, Output, Self } from '@angular/core';
+import { from, Subscription } from 'rxjs';
+import { concatMap, debounceTime, filter, tap } from 'rxjs/operators';
+
+import { BIND_DRAFT_STORAGE, BindDraft, BindDraftStorage, BindWebDraftStorage } from '../draft_storage';
+import { AbstractBindControl } from '../model';
+import { BindStateMismatch } from '../snapshot';
+
+import { BindControlContainer } from './control_container';
+
+/**
+ * @description
+ * Saves drafts of a form while it's edited, and offers to restore them when the form is
+ * displayed again.
+ *
+ * The directive applies to `bindFormGroup` and `ngBindForm` forms. Once the values stop changing
+ * for `autosaveDebounce` milliseconds, the state of a dirty form is written to the storage under
+ * the `bindAutosave` key, see `AbstractBindControl.serializeState`. The values of the `sensitive`
+ * controls are never written. The draft is removed once the form is back to pristine.
+ *
+ * The drafts are written to `localStorage` unless a `BindDraftStorage` is bound to
+ * `autosaveStorage` or provided with `BIND_DRAFT_STORAGE`, such as a `BindWebDraftStorage` of
+ * `sessionStorage`, a `BindIndexedDbDraftStorage` or an adapter saving them to a server.
+ *
+ * @usageNotes
+ *
+ * ### Restore a draft
+ *
+ * A draft found when the form is displayed is emitted by `draftFound`, unless it was written
+ * for another `autosaveVersion` in which case it's removed. Set `autosaveRestore` to restore
+ * drafts right away.
+ *
+ * ```
+ * <form [bindFormGroup]="form" bindAutosave="order" autosaveVersion="2" #autosave="bindAutosave"
+ *       (draftFound)="showRestoreBanner = true">
+ *   <p *ngIf="showRestoreBanner">
+ *     <button type="button" (click)="autosave.restoreDraft()">Restore your draft</button>
+ *   </p>
+ *   <span *ngIf="autosave.saving">Saving…</span>
+ *   <span *ngIf="autosave.saved">Draft saved</span>
+ *   <span *ngIf="autosave.error">The draft could not be saved</span>
+ * </form>
+ * ```
+ *
+ * Call `clearDraft()` once the form is submitted.
+ *
+ * @ngModule BindReactiveFormsModule
+ * @ngModule BindFormsModule
+ * @publicApi
+ */
+@Directive({
+    // tslint:disable-next-line: directive-selector
+    selector: '[bindAutosave][bindFormGroup],[bindAutosave][ngBindForm],form[bindAutosave]:not([ngNoBindForm]):not([bindFormGroup]),ng-bind-form[bindAutosave]',
+    exportAs: 'bindAutosave',
+})
+export class BindAutosaveDirective implements AfterViewInit, OnDestroy {
+    /**
+     * @description
+     * The key of the drafts of the form.
+     */
+    // TODO(issue/24571): remove '!'.
+    @Input('bindAutosave') key!: string;
+
+    /**
+     * @description
+     * The storage of the drafts, overriding the one provided with `BIND_DRAFT_STORAGE`.
+     */
+    @Input() autosaveStorage: BindDraftStorage | null = null;
+
+    /**
+     * @description
+     * The delay, in milliseconds, without changes after which a draft is written. Defaults to 1000.
+     */
+    @Input() autosaveDebounce = 1000;
+
+    /**
+     * @description
+     * The version of the form, written with the drafts. Drafts written for another version are
+     * removed rather than restored. Defaults to 0.
+     */
+    @Input() autosaveVersion: string | number = 0;
+
+    /**
+     * @description
+     * Whether a draft found when the form is displayed is restored right away. Defaults to false.
+     */
+    @Input() autosaveRestore = false;
+
+    /**
+     * @description
+     * Emits the draft found when the form is displayed.
+     */
+    @Output() draftFound = new EventEmitter<BindDraft>();
+
+    /**
+     * @description
+     * Whether a draft is being written.
+     */
+    public readonly saving: boolean = false;
+
+    /**
+     * @description
+     * Whether the last changes of the form are written to a draft.
+     */
+    public readonly saved: boolean = false;
+
+    /**
+     * @description
+     * The error raised by the storage when the draft was last read or written, null if it succeeded.
+     */
+    public readonly error: any = null;
+
+    /**
+     * @description
+     * The draft found when the form was displayed, until it's cleared.
+     */
+    public readonly draft: BindDraft | null = null;
+
+    private _restoring = false;
+    private _destroyed = false;
+    private _subscription: Subscription | null = null;
+
+    constructor(@Self() private _container: BindControlContainer, @Optional() @Inject(BIND_DRAFT_STORAGE) private _storage: BindDraftStorage | null) {}
+
+    /**
+     * @description
+     * The storage the drafts are written to, null if none is available.
+     */
+    get storage(): BindDraftStorage | null {
+        if (this.autosaveStorage) return this.autosaveStorage;
+        if (this._storage) return this._storage;
+        return typeof localStorage !== 'undefined' ? new BindWebDraftStorage(localStorage) : null;
+    }
+
+    /**
+     * @description
+     * Lifecycle method called after the view is initialized, once the controls of template-driven
+     * forms are registered. For internal use only.
+     */
+    ngAfterViewInit(): void {
+        this._run(() => this.storage!.load(this.key)).then((draft) => {
+            if (this._destroyed) {
+                return;
+            }
+            if (draft && draft.version !== this.autosaveVersion) {
+                this._run(() => this.storage!.remove(this.key));
+            } else if (draft) {
+                (this as { draft: BindDraft | null }).draft = draft;
+                this.draftFound.emit(draft);
+                if (this.autosaveRestore) {
+                    this.restoreDraft();
+                }
+            }
+            this._subscription = this._control.valueChanges
+                .pipe(
+                    filter(() => !this._restoring),
+                    tap(() => ((this as { saved: boolean }).saved = false)),
+                    debounceTime(this.autosaveDebounce),
+                    concatMap(() => from(this._control.dirty ? this.saveDraft() : this._run(() => this.storage!.remove(this.key))))
+                )
+                .subscribe();
+        });
+    }
+
+    /**
+     * @description
+     * Lifecycle method called before the directive's instance is destroyed. For internal use only.
+     */
+    ngOnDestroy(): void {
+        this._destroyed = true;
+        if (this._subscription) {
+            this._subscription.unsubscribe();
+        }
+    }
+
+    /**
+     * @description
+     * Writes a draft of the form right away.
+     */
+    saveDraft(): Promise<void> {
+        const draft: BindDraft = { version: this.autosaveVersion, savedAt: Date.now(), snapshot: this._control.serializeState({ omitSensitive: true }) };
+        (this as { saving: boolean }).saving = true;
+        return this._run(() => this.storage!.save(this.key, draft)).then(() => {
+            (this as { saving: boolean }).saving = false;
+            (this as { saved: boolean }).saved = this.error == null;
+        });
+    }
+
+    /**
+     * @description
+     * Restores the form from the draft found when it was displayed.
+     *
+     * @returns The differences between the draft and the form, see `AbstractBindControl.restoreState`.
+     */
+    restoreDraft(): BindStateMismatch[] {
+        if (!this.draft) {
+            return [];
+        }
+        this._restoring = true;
+        try {
+            return this._control.restoreState(this.draft.snapshot);
+        } finally {
+            this._restoring = false;
+        }
+    }
+
+    /**
+     * @description
+     * Removes the draft of the form, e.g. once the form is submitted or the draft is discarded.
+     */
+    clearDraft(): Promise<void> {
+        (this as { draft: BindDraft | null }).draft = null;
+        (this as { saved: boolean }).saved = false;
+        return this._run(() => this.storage!.remove(this.key));
+    }
+
+    private get _control(): AbstractBindControl {
+        return this._container.control!;
+    }
+
+    /**
+     * Runs an operation of the storage, recording its error rather than rejecting. The
+     * operation is skipped when no storage is available.
+     */
+    private _run<T>(operation: () => T | Promise<T>): Promise<T | null> {
+        if (!this.storage) {
+            return Promise.resolve(null);
+        }
+        return Promise.resolve()
+            .then(operation)
+            .then(
+                (result) => {
+                    (this as { error: any }).error = null;
+                    return result;
+                },
+                (error) => {
+                    (this as { error: any }).error = error;
+                    return null;
+                }
+            );
+    }
+}
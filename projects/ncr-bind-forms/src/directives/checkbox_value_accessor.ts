@@ -8,7 +8,7 @@
 
 import { Directive, ElementRef, Renderer2, forwardRef, HostListener } from '@angular/core';
 
-import { ControlBindValueAccessor, NG_BIND_VALUE_ACCESSOR } from './control_value_accessor';
+import { ControlBindValueAccessor, NG_BIND_VALUE_ACCESSOR, setAriaReadonly } from './control_value_accessor';
 
 export const CHECKBOX_VALUE_ACCESSOR: any = {
     provide: NG_BIND_VALUE_ACCESSOR,
@@ -45,6 +45,9 @@ export const CHECKBOX_VALUE_ACCESSOR: any = {
     providers: [CHECKBOX_VALUE_ACCESSOR],
 })
 export class CheckboxControlBindValueAccessor implements ControlBindValueAccessor {
+    /** @internal */
+    _readonly = false;
+
     /**
      * @description
      * The registered callback function called when a change event occurs on the input element.
@@ -61,6 +64,18 @@ export class CheckboxControlBindValueAccessor implements ControlBindValueAccesso
 
     constructor(private _renderer: Renderer2, private _elementRef: ElementRef) {}
 
+    /**
+     * @description
+     * Keeps the input element from being checked by the user while readonly, as the "readonly"
+     * attribute doesn't apply to checkboxes and radio buttons. For internal use only.
+     */
+    @HostListener('click', ['$event'])
+    onClick(event: Event): void {
+        if (this._readonly) {
+            event.preventDefault();
+        }
+    }
+
     /**
      * Sets the "checked" property on the input element.
      *
@@ -98,4 +113,15 @@ export class CheckboxControlBindValueAccessor implements ControlBindValueAccesso
     setDisabledState(isDisabled: boolean): void {
         this._renderer.setProperty(this._elementRef.nativeElement, 'disabled', isDisabled);
     }
+
+    /**
+     * Ignores the clicks on the input element while readonly and sets its "aria-readonly"
+     * attribute.
+     *
+     * @param isReadonly The readonly value
+     */
+    setReadonlyState(isReadonly: boolean): void {
+        this._readonly = isReadonly;
+        setAriaReadonly(this._renderer, this._elementRef.nativeElement, isReadonly);
+    }
 }
@@ -6,7 +6,7 @@
  * found in the LICENSE file at https://angular.io/license
  */
 
-import { InjectionToken } from '@angular/core';
+import { InjectionToken, Renderer2 } from '@angular/core';
 
 /**
  * @description
@@ -129,6 +129,25 @@ export interface ControlBindValueAccessor {
      * @param isDisabled The disabled status to set on the element
      */
     setDisabledState?(isDisabled: boolean): void;
+
+    /**
+     * @description
+     * Function that is called by the forms API when the control becomes readonly or editable
+     * again. A readonly element shows its value but ignores the edits of the user, the control
+     * being still validated and submitted.
+     *
+     * @usageNotes
+     * The following is an example of writing the readonly property to a native DOM element:
+     *
+     * ```ts
+     * setReadonlyState(isReadonly: boolean): void {
+     *   this._renderer.setProperty(this._elementRef.nativeElement, 'readOnly', isReadonly);
+     * }
+     * ```
+     *
+     * @param isReadonly The readonly state to set on the element
+     */
+    setReadonlyState?(isReadonly: boolean): void;
 }
 
 /**
@@ -139,3 +158,15 @@ export interface ControlBindValueAccessor {
  * @publicApi
  */
 export const NG_BIND_VALUE_ACCESSOR = new InjectionToken<ControlBindValueAccessor>('NgValueAccessor');
+
+/**
+ * Sets the "aria-readonly" attribute of the elements the "readonly" attribute doesn't apply to,
+ * such as checkboxes and selects. For internal use only.
+ */
+export function setAriaReadonly(renderer: Renderer2, element: any, isReadonly: boolean): void {
+    if (isReadonly) {
+        renderer.setAttribute(element, 'aria-readonly', 'true');
+    } else {
+        renderer.removeAttribute(element, 'aria-readonly');
+    }
+}
@@ -0,0 +1,75 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { Component } from '@angular/core';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { BindFormControlType } from '../control_types';
+import { BindReactiveFormsModule } from '../form_providers';
+import { BindFormControl } from '../model';
+
+@Component({
+    template: '<input type="date" [formBindControl]="control">',
+})
+class DateInputComponent {
+    control = new BindFormControl<any>(null);
+}
+
+describe('DateBindValueAccessor', () => {
+    let fixture: ComponentFixture<DateInputComponent>;
+    let input: HTMLInputElement;
+
+    function setUp(control: BindFormControl<any>): void {
+        fixture.componentInstance.control = control;
+        fixture.detectChanges();
+        input = fixture.nativeElement.querySelector('input');
+    }
+
+    function type(value: string): void {
+        input.value = value;
+        input.dispatchEvent(new Event('input'));
+    }
+
+    beforeEach(() => {
+        TestBed.configureTestingModule({ imports: [BindReactiveFormsModule], declarations: [DateInputComponent] });
+        fixture = TestBed.createComponent(DateInputComponent);
+    });
+
+    it('should report strings to default controls', () => {
+        const control = new BindFormControl<any>('2021-03-04');
+        setUp(control);
+        expect(input.value).toBe('2021-03-04');
+
+        type('2021-05-06');
+        expect(control.value).toBe('2021-05-06');
+
+        type('');
+        expect(control.value).toBe('');
+    });
+
+    it('should report dates to date controls', () => {
+        const control = new BindFormControl<Date | null>(new Date(2021, 2, 4), BindFormControlType.date);
+        setUp(control);
+        expect(input.value).toBe('2021-03-04');
+
+        type('2021-05-06');
+        expect(control.value).toEqual(new Date(2021, 4, 6));
+
+        type('');
+        expect(control.value).toBeNull();
+    });
+
+    it('should write dates to the input', () => {
+        const control = new BindFormControl<any>(null, BindFormControlType.date);
+        setUp(control);
+        expect(input.value).toBe('');
+
+        control.setValue(new Date(1999, 11, 31));
+        expect(input.value).toBe('1999-12-31');
+    });
+});
@@ -0,0 +1,124 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { Directive, ElementRef, Renderer2, forwardRef, HostListener } from '@angular/core';
+
+import { formatIsoDate } from '../control_types';
+import { ControlBindValueAccessor, NG_BIND_VALUE_ACCESSOR } from './control_value_accessor';
+
+export const DATE_VALUE_ACCESSOR: any = {
+    provide: NG_BIND_VALUE_ACCESSOR,
+    useExisting: forwardRef(() => DateBindValueAccessor),
+    multi: true,
+};
+
+/**
+ * @description
+ * The `ControlBindValueAccessor` for writing a `Date` value and listening to date input changes.
+ * The value accessor is used by the `BindFormControlDirective`, `BindFormControlName`, and  `NgBindModel`
+ * directives.
+ *
+ * The input shows the date as `yyyy-MM-dd` and reports it as typed. Controls of type
+ * `BindFormControlType.date` parse it into a `Date` (or `null` when cleared), the other
+ * controls store the string as is.
+ *
+ * @usageNotes
+ *
+ * ### Using a date input with a reactive form.
+ *
+ * The following example shows how to use a date input with a reactive form.
+ *
+ * ```ts
+ * const birthDateControl = new BindFormControl(null, BindFormControlType.date);
+ * ```
+ *
+ * ```
+ * <input type="date" [formBindControl]="birthDateControl">
+ * ```
+ *
+ * @ngModule BindReactiveFormsModule
+ * @ngModule BindFormsModule
+ * @publicApi
+ */
+@Directive({
+    // tslint:disable-next-line: directive-selector
+    selector: 'input[type=date][formBindControlName],input[type=date][formBindControl],input[type=date][ngBindModel]',
+    providers: [DATE_VALUE_ACCESSOR],
+})
+export class DateBindValueAccessor implements ControlBindValueAccessor {
+    /**
+     * @description
+     * The registered callback function called when a change or input event occurs on the input
+     * element.
+     */
+    @HostListener('change', ['$event.target.value'])
+    @HostListener('input', ['$event.target.value'])
+    onChange = (_: any) => {};
+
+    /**
+     * @description
+     * The registered callback function called when a blur event occurs on the input element.
+     */
+    @HostListener('blur')
+    onTouched = () => {};
+
+    constructor(private _renderer: Renderer2, private _elementRef: ElementRef) {}
+
+    /**
+     * Sets the "value" property on the input element.
+     *
+     * @param value The date, or its ISO representation
+     */
+    writeValue(value: Date | string | null): void {
+        let normalizedValue: string;
+        if (value instanceof Date) {
+            normalizedValue = isNaN(value.getTime()) ? '' : formatIsoDate(value);
+        } else {
+            normalizedValue = value == null ? '' : value;
+        }
+        this._renderer.setProperty(this._elementRef.nativeElement, 'value', normalizedValue);
+    }
+
+    /**
+     * @description
+     * Registers a function called when the control value changes.
+     *
+     * @param fn The callback function
+     */
+    registerOnChange(fn: (_: string) => void): void {
+        this.onChange = fn;
+    }
+
+    /**
+     * @description
+     * Registers a function called when the control is touched.
+     *
+     * @param fn The callback function
+     */
+    registerOnTouched(fn: () => void): void {
+        this.onTouched = fn;
+    }
+
+    /**
+     * Sets the "disabled" property on the input element.
+     *
+     * @param isDisabled The disabled value
+     */
+    setDisabledState(isDisabled: boolean): void {
+        this._renderer.setProperty(this._elementRef.nativeElement, 'disabled', isDisabled);
+    }
+
+    /**
+     * Sets the "readOnly" property on the input element.
+     *
+     * @param isReadonly The readonly value
+     */
+    setReadonlyState(isReadonly: boolean): void {
+        this._renderer.setProperty(this._elementRef.nativeElement, 'readOnly', isReadonly);
+    }
+}
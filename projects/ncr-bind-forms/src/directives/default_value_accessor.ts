@@ -131,6 +131,15 @@ export class DefaultBindValueAccessor implements ControlBindValueAccessor {
         this._renderer.setProperty(this._elementRef.nativeElement, 'disabled', isDisabled);
     }
 
+    /**
+     * Sets the "readOnly" property on the input element.
+     *
+     * @param isReadonly The readonly value
+     */
+    setReadonlyState(isReadonly: boolean): void {
+        this._renderer.setProperty(this._elementRef.nativeElement, 'readOnly', isReadonly);
+    }
+
     /** @internal */
     @HostListener('input', ['$event.target.value'])
     _handleInput(value: any): void {
@@ -0,0 +1,136 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { BindFormControl } from '../model';
+import { BindValidators } from '../validators';
+import { DefaultBindValueAccessor } from './default_value_accessor';
+import { MaskBindValueAccessor } from './mask_value_accessor';
+import { selectValueAccessor } from './shared';
+
+class FakeInput {
+    value = '';
+    disabled = false;
+    selectionStart: number | null = null;
+    ownerDocument = { activeElement: this as any };
+
+    setSelectionRange(start: number, end: number): void {
+        this.selectionStart = start;
+    }
+
+    /** Simulates the user typing so that the input shows `value` with the caret at `caret`. */
+    type(value: string, caret: number = value.length): void {
+        this.value = value;
+        this.selectionStart = caret;
+    }
+}
+
+const renderer: any = {
+    setProperty: (element: any, name: string, value: any) => (element[name] = value),
+};
+
+describe('MaskBindValueAccessor', () => {
+    let input: FakeInput;
+    let accessor: MaskBindValueAccessor;
+    let values: any[];
+
+    beforeEach(() => {
+        input = new FakeInput();
+        accessor = new MaskBindValueAccessor(renderer, { nativeElement: input }, true);
+        accessor.bindMask = '99/99/9999';
+        values = [];
+        accessor.registerOnChange((value) => values.push(value));
+    });
+
+    it('should write model values through the mask', () => {
+        accessor.writeValue('31122020');
+        expect(input.value).toEqual('31/12/2020');
+
+        accessor.writeValue(null);
+        expect(input.value).toEqual('');
+    });
+
+    it('should write model values through masks with digit literals', () => {
+        accessor.bindMask = '+1 (999) 999-9999';
+
+        accessor.writeValue('1234567890');
+
+        expect(input.value).toEqual('+1 (123) 456-7890');
+    });
+
+    it('should format as the user types and emit the unmasked value', () => {
+        input.type('311');
+        accessor._handleInput(input.value);
+
+        expect(input.value).toEqual('31/1');
+        expect(input.selectionStart).toEqual(4);
+        expect(values).toEqual(['311']);
+    });
+
+    it('should keep the caret next to the character typed in the middle', () => {
+        accessor.writeValue('3112');
+        input.type('31/812', 4);
+        accessor._handleInput(input.value);
+
+        expect(input.value).toEqual('31/81/2');
+        expect(input.selectionStart).toEqual(4);
+        expect(values).toEqual(['31812']);
+    });
+
+    it('should drop characters that do not fit the mask', () => {
+        input.type('3a1');
+        accessor._handleInput(input.value);
+
+        expect(input.value).toEqual('31');
+        expect(values).toEqual(['31']);
+    });
+
+    it('should buffer composition input', () => {
+        accessor._compositionStart();
+        accessor._handleInput('3');
+        expect(values).toEqual([]);
+
+        input.type('31');
+        accessor._compositionEnd(input.value);
+        expect(values).toEqual(['31']);
+    });
+
+    it('should report incomplete values', () => {
+        const control = new BindFormControl('3112');
+        expect(accessor.validate(control)).toEqual({ maskIncomplete: { requiredLength: 8, actualLength: 4 } });
+
+        control.setValue('31122020');
+        expect(accessor.validate(control)).toBeNull();
+
+        control.setValue('');
+        expect(accessor.validate(control)).toBeNull();
+    });
+
+    it('should notify validator changes when the mask changes', () => {
+        const spy = jasmine.createSpy('onValidatorChange');
+        accessor.registerOnValidatorChange(spy);
+
+        accessor.bindMask = '99/99';
+
+        expect(spy).toHaveBeenCalled();
+        expect(accessor.validate(new BindFormControl('3112'))).toBeNull();
+    });
+
+    it('should be selected over the default value accessor', () => {
+        const defaultAccessor = new DefaultBindValueAccessor(renderer, { nativeElement: input }, true);
+        expect(selectValueAccessor({} as any, [defaultAccessor, accessor])).toBe(accessor);
+    });
+});
+
+describe('BindValidators.mask', () => {
+    it('should accept masked and unmasked values', () => {
+        const validator = BindValidators.mask('(999) 999');
+        expect(validator(new BindFormControl('(555) 123'))).toBeNull();
+        expect(validator(new BindFormControl('555123'))).toBeNull();
+        expect(validator(new BindFormControl('(555) 1'))).toEqual({ maskIncomplete: { requiredLength: 6, actualLength: 4 } });
+    });
+});
@@ -0,0 +1,258 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { ɵgetDOM as getDOM } from '@angular/platform-browser';
+import { Directive, ElementRef, HostListener, Inject, Input, Optional, Renderer2, StaticProvider, forwardRef } from '@angular/core';
+
+import { applyMask, maskCaretPosition, unmaskValue } from '../mask';
+import { AbstractBindControl } from '../model';
+import { BindValidators, NG_BIND_VALIDATORS } from '../validators';
+import { ControlBindValueAccessor, NG_BIND_VALUE_ACCESSOR } from './control_value_accessor';
+import { COMPOSITION_BUFFER_MODE } from './default_value_accessor';
+import { BindValidator, ValidationBindErrors } from './validators';
+
+export const MASK_VALUE_ACCESSOR: any = {
+    provide: NG_BIND_VALUE_ACCESSOR,
+    useExisting: forwardRef(() => MaskBindValueAccessor),
+    multi: true,
+};
+
+/**
+ * @description
+ * Provider which adds `MaskBindValueAccessor` to the `NG_BIND_VALIDATORS` multi-provider list.
+ */
+export const MASK_VALIDATOR: StaticProvider = {
+    provide: NG_BIND_VALIDATORS,
+    useExisting: forwardRef(() => MaskBindValueAccessor),
+    multi: true,
+};
+
+/**
+ * We must check whether the agent is Android because composition events
+ * behave differently between iOS and Android.
+ */
+function _isAndroid(): boolean {
+    const userAgent = getDOM() ? getDOM().getUserAgent() : '';
+    return /android (\d+)/.test(userAgent.toLowerCase());
+}
+
+/**
+ * @description
+ * The `ControlBindValueAccessor` for writing a value through a mask and listening to changes on
+ * input elements marked with the `bindMask` attribute. The accessor is used by the
+ * `BindFormControlDirective`, `BindFormControlName`, and `NgBindModel` directives.
+ *
+ * In the mask, `9` stands for a digit, `a` for a letter, `*` for a letter or a digit, and any
+ * other character is a literal. The input is formatted as the user types, keeping the caret
+ * next to the last typed character, while the control receives the unmasked value.
+ *
+ * The accessor also validates that the value fills the mask, see `BindValidators.mask`, and
+ * buffers IME input as configured by `COMPOSITION_BUFFER_MODE`.
+ *
+ * Unlike the `mask` transformer, which formats the view on blur only, this accessor takes over
+ * the input element.
+ *
+ * @usageNotes
+ *
+ * ### Using a mask with a reactive form.
+ *
+ * ```ts
+ * const birthDateControl = new BindFormControl('');
+ * ```
+ *
+ * ```
+ * <input bindMask="99/99/9999" [formBindControl]="birthDateControl">
+ * ```
+ *
+ * Typing `31122020` shows `31/12/2020` and stores `'31122020'`.
+ *
+ * @ngModule BindReactiveFormsModule
+ * @ngModule BindFormsModule
+ * @publicApi
+ */
+@Directive({
+    // tslint:disable-next-line: directive-selector
+    selector: 'input[bindMask][formBindControlName],input[bindMask][formBindControl],input[bindMask][ngBindModel]',
+    providers: [MASK_VALUE_ACCESSOR, MASK_VALIDATOR],
+})
+export class MaskBindValueAccessor implements ControlBindValueAccessor, BindValidator {
+    /** Whether the user is creating a composition string (IME events). */
+    private _composing = false;
+
+    private _mask = '';
+
+    /** The characters filling the placeholders of the mask. */
+    private _raw = '';
+
+    private _onValidatorChange: () => void;
+
+    private _validator = BindValidators.nullValidator;
+
+    /**
+     * @description
+     * The registered callback function called when an input event occurs on the input element.
+     */
+    onChange = (_: any) => {};
+
+    /**
+     * @description
+     * The registered callback function called when a blur event occurs on the input element.
+     */
+    @HostListener('blur')
+    onTouched = () => {};
+
+    constructor(private _renderer: Renderer2, private _elementRef: ElementRef, @Optional() @Inject(COMPOSITION_BUFFER_MODE) private _compositionMode: boolean) {
+        if (this._compositionMode == null) {
+            this._compositionMode = !_isAndroid();
+        }
+    }
+
+    /**
+     * @description
+     * Tracks changes to the mask bound to this directive.
+     */
+    @Input()
+    set bindMask(value: string) {
+        this._mask = value || '';
+        this._validator = BindValidators.mask(this._mask);
+        this._setElementValue(this._display());
+        if (this._onValidatorChange) this._onValidatorChange();
+    }
+
+    get bindMask(): string {
+        return this._mask;
+    }
+
+    /**
+     * Sets the "value" property on the input element, written through the mask.
+     *
+     * @param value The unmasked value
+     */
+    writeValue(value: any): void {
+        // the model value is already unmasked: unmasking it again would drop the characters
+        // matching the literals of the mask, such as the `1` of `+1 (999) 999-9999`
+        this._raw = value == null ? '' : String(value);
+        this._setElementValue(this._display());
+    }
+
+    /**
+     * @description
+     * Registers a function called when the control value changes.
+     *
+     * @param fn The callback function
+     */
+    registerOnChange(fn: (_: any) => void): void {
+        this.onChange = fn;
+    }
+
+    /**
+     * @description
+     * Registers a function called when the control is touched.
+     *
+     * @param fn The callback function
+     */
+    registerOnTouched(fn: () => void): void {
+        this.onTouched = fn;
+    }
+
+    /**
+     * Sets the "disabled" property on the input element.
+     *
+     * @param isDisabled The disabled value
+     */
+    setDisabledState(isDisabled: boolean): void {
+        this._renderer.setProperty(this._elementRef.nativeElement, 'disabled', isDisabled);
+    }
+
+    /**
+     * Sets the "readOnly" property on the input element.
+     *
+     * @param isReadonly The readonly value
+     */
+    setReadonlyState(isReadonly: boolean): void {
+        this._renderer.setProperty(this._elementRef.nativeElement, 'readOnly', isReadonly);
+    }
+
+    /**
+     * @description
+     * Method that validates whether the value fills the mask.
+     * Returns the validation result if a mask is set, otherwise null.
+     */
+    validate(control: AbstractBindControl): ValidationBindErrors | null {
+        return this._validator(control);
+    }
+
+    /**
+     * @description
+     * Registers a callback function to call when the validator inputs change.
+     *
+     * @param fn The callback function
+     */
+    registerOnValidatorChange(fn: () => void): void {
+        this._onValidatorChange = fn;
+    }
+
+    /** @internal */
+    @HostListener('input', ['$event.target.value'])
+    _handleInput(value: any): void {
+        if (!this._compositionMode || (this._compositionMode && !this._composing)) {
+            this._update(value);
+        }
+    }
+
+    /** @internal */
+    @HostListener('compositionstart', [])
+    _compositionStart(): void {
+        this._composing = true;
+    }
+
+    /** @internal */
+    @HostListener('compositionend', ['$event.target.value'])
+    _compositionEnd(value: any): void {
+        this._composing = false;
+        if (this._compositionMode) {
+            this._update(value);
+        }
+    }
+
+    private _update(value: string): void {
+        if (!this._mask) {
+            this._raw = value;
+            this.onChange(value);
+            return;
+        }
+        const element = this._elementRef.nativeElement;
+        const caret: number | null = typeof element.selectionStart === 'number' ? element.selectionStart : null;
+        // the number of placeholders filled before the caret locates it in the masked value
+        const filled = caret == null ? null : unmaskValue(value.substring(0, caret), this._mask).length;
+
+        this._raw = unmaskValue(value, this._mask);
+        const masked = this._display();
+        this._setElementValue(masked);
+        if (filled != null) {
+            this._setCaret(maskCaretPosition(masked, this._mask, filled));
+        }
+        this.onChange(this._raw);
+    }
+
+    private _display(): string {
+        return this._mask ? applyMask(this._raw, this._mask) : this._raw;
+    }
+
+    private _setElementValue(value: string): void {
+        this._renderer.setProperty(this._elementRef.nativeElement, 'value', value);
+    }
+
+    private _setCaret(position: number): void {
+        const element = this._elementRef.nativeElement;
+        // moving the selection of an unfocused input focuses it in some browsers
+        if (typeof element.setSelectionRange === 'function' && element.ownerDocument && element.ownerDocument.activeElement === element) {
+            element.setSelectionRange(position, position);
+        }
+    }
+}
@@ -15,6 +15,8 @@ import {
     BindValidator,
     BindValidatorFn,
 } from './public_api';
+import { BindTransformerPair } from '../transformers';
+import { BindTransformer } from './transformers';
 
 function unimplemented(): any {
     throw new Error('unimplemented');
@@ -64,6 +66,22 @@ export abstract class NgBindControl extends AbstractBindControlDirective {
      */
     _rawAsyncValidators: Array<AsyncBindValidator | AsyncBindValidatorFn> = [];
 
+    /**
+     * @description
+     * The uncomposed array of transformers for the control
+     *
+     * @internal
+     */
+    _rawTransformers: BindTransformer[] = [];
+
+    /**
+     * @description
+     * The last value exchanged with the value accessor, from either side
+     *
+     * @internal
+     */
+    _viewValue: any;
+
     /**
      * @description
      * The registered synchronous validator function for the control
@@ -84,6 +102,14 @@ export abstract class NgBindControl extends AbstractBindControlDirective {
         return unimplemented() as AsyncBindValidatorFn;
     }
 
+    /**
+     * @description
+     * The registered transformer for the control, none by default
+     */
+    get transformer(): BindTransformerPair | null {
+        return null;
+    }
+
     /**
      * @description
      * The callback method to update the model from the view when requested
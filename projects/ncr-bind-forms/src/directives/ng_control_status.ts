@@ -59,6 +59,11 @@ export class AbstractBindControlStatus {
     get ngClassPending(): boolean {
         return this._cd.control ? this._cd.control.pending : false;
     }
+
+    @HostBinding('class.ng-readonly')
+    get ngClassReadonly(): boolean {
+        return this._cd.control ? this._cd.control.readonly : false;
+    }
 }
 
 /**
@@ -80,6 +85,7 @@ export class AbstractBindControlStatus {
  * * ng-dirty
  * * ng-untouched
  * * ng-touched
+ * * ng-readonly
  *
  * @ngModule BindReactiveFormsModule
  * @ngModule BindFormsModule
@@ -106,7 +112,7 @@ export class NgControlStatus extends AbstractBindControlStatus {
  */
 @Directive({
     // tslint:disable-next-line: directive-selector
-    selector: '[bindFormGroupName],[formArrayName],[ngBindModelGroup],[bindFormGroup],form:not([ngNoBindForm]),[ngBindForm]',
+    selector: '[bindFormGroupName],[bindFormRecordName],[formArrayName],[ngBindModelGroup],[bindFormGroup],form:not([ngNoBindForm]),[ngBindForm]',
 })
 export class NgBindControlStatusGroup extends AbstractBindControlStatus {
     constructor(@Self() cd: BindControlContainer) {
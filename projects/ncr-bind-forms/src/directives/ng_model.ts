@@ -9,6 +9,7 @@
 import { Directive, EventEmitter, Host, Inject, Input, OnChanges, OnDestroy, Optional, Output, Self, SimpleChanges, forwardRef } from '@angular/core';
 
 import { BindFormControl, BindFormHooks } from '../model';
+import { BindTransformerPair, NG_BIND_TRANSFORMERS } from '../transformers';
 import { NG_ASYNC_BIND_VALIDATORS, NG_BIND_VALIDATORS } from '../validators';
 
 import {
@@ -20,6 +21,7 @@ import {
     NgBindFormDirective,
     NgBindModelGroup,
     composeAsyncValidators,
+    composeTransformers,
     composeValidators,
     controlPath,
     isPropertyUpdated,
@@ -30,6 +32,7 @@ import {
     AsyncBindValidatorFn,
     BindValidator,
     BindValidatorFn,
+    BindTransformer,
 } from './public_api';
 
 export const formControlBinding: any = {
@@ -153,12 +156,14 @@ export class NgBindModel extends NgBindControl implements OnChanges, OnDestroy {
         @Optional()
         @Self()
         @Inject(NG_BIND_VALUE_ACCESSOR)
-        valueAccessors: ControlBindValueAccessor[]
+        valueAccessors: ControlBindValueAccessor[],
+        @Optional() @Self() @Inject(NG_BIND_TRANSFORMERS) transformers: BindTransformer[]
     ) {
         super();
         this._parent = parent;
         this._rawValidators = validators || [];
         this._rawAsyncValidators = asyncValidators || [];
+        this._rawTransformers = transformers || [];
         this.valueAccessor = selectValueAccessor(this, valueAccessors);
     }
 
@@ -197,6 +202,14 @@ export class NgBindModel extends NgBindControl implements OnChanges, OnDestroy {
         return composeAsyncValidators(this._rawAsyncValidators);
     }
 
+    /**
+     * @description
+     * Transformer composed of all the transformers registered with this directive.
+     */
+    get transformer(): BindTransformerPair | null {
+        return composeTransformers(this._rawTransformers);
+    }
+
     // At runtime we coerce arbitrary values assigned to the "disabled" input to a "boolean".
     // This is not reflected in the type of the property because outside of templates, consumers
     // should only deal with booleans. In templates, a string is allowed for convenience and to
@@ -105,4 +105,13 @@ export class NumberBindValueAccessor implements ControlBindValueAccessor {
     setDisabledState(isDisabled: boolean): void {
         this._renderer.setProperty(this._elementRef.nativeElement, 'disabled', isDisabled);
     }
+
+    /**
+     * Sets the "readOnly" property on the input element.
+     *
+     * @param isReadonly The readonly value
+     */
+    setReadonlyState(isReadonly: boolean): void {
+        this._renderer.setProperty(this._elementRef.nativeElement, 'readOnly', isReadonly);
+    }
 }
@@ -5,11 +5,14 @@ export * from './control_value_accessor';
 export * from './shared';
 export * from './abstract_control_directive';
 export * from './abstract_form_group_directive';
+export * from './autosave';
 export * from './checkbox_value_accessor';
 export * from './control_container';
+export * from './date_value_accessor';
 export * from './default_value_accessor';
 export * from './error_examples';
 export * from './form_interface';
+export * from './mask_value_accessor';
 export * from './ng_control_status';
 export * from './ng_control';
 export * from './ng_form';
@@ -24,4 +27,6 @@ export * from './reactive_errors';
 export * from './select_control_value_accessor';
 export * from './select_multiple_control_value_accessor';
 export * from './template_driven_errors';
+export * from './transformers';
 export * from './validators';
+export * from './visible';
@@ -8,7 +8,7 @@
 
 import { Directive, ElementRef, Injectable, Injector, Input, OnDestroy, OnInit, Renderer2, forwardRef, HostListener } from '@angular/core';
 
-import { ControlBindValueAccessor, NG_BIND_VALUE_ACCESSOR } from './control_value_accessor';
+import { ControlBindValueAccessor, NG_BIND_VALUE_ACCESSOR, setAriaReadonly } from './control_value_accessor';
 import { NgBindControl } from './ng_control';
 
 export const RADIO_VALUE_ACCESSOR: any = {
@@ -99,6 +99,8 @@ export class RadioControlBindValueAccessor implements ControlBindValueAccessor,
     /** @internal */
     // TODO(issue/24571): remove '!'.
     _fn!: Function;
+    /** @internal */
+    _readonly = false;
 
     /**
      * @description
@@ -137,6 +139,18 @@ export class RadioControlBindValueAccessor implements ControlBindValueAccessor,
 
     constructor(private _renderer: Renderer2, private _elementRef: ElementRef, private _registry: RadioControlRegistry, private _injector: Injector) {}
 
+    /**
+     * @description
+     * Keeps the input element from being checked by the user while readonly, as the "readonly"
+     * attribute doesn't apply to checkboxes and radio buttons. For internal use only.
+     */
+    @HostListener('click', ['$event'])
+    onClick(event: Event): void {
+        if (this._readonly) {
+            event.preventDefault();
+        }
+    }
+
     /**
      * @description
      * A lifecycle method called when the directive is initialized. For internal use only.
@@ -208,6 +222,17 @@ export class RadioControlBindValueAccessor implements ControlBindValueAccessor,
         this._renderer.setProperty(this._elementRef.nativeElement, 'disabled', isDisabled);
     }
 
+    /**
+     * Ignores the clicks on the input element while readonly and sets its "aria-readonly"
+     * attribute.
+     *
+     * @param isReadonly The readonly value
+     */
+    setReadonlyState(isReadonly: boolean): void {
+        this._readonly = isReadonly;
+        setAriaReadonly(this._renderer, this._elementRef.nativeElement, isReadonly);
+    }
+
     private _checkName(): void {
         if (this.name && this.formBindControlName && this.name !== this.formBindControlName) {
             this._throwNameError();
@@ -8,7 +8,7 @@
 
 import { Directive, ElementRef, Renderer2, StaticProvider, forwardRef, HostListener } from '@angular/core';
 
-import { ControlBindValueAccessor, NG_BIND_VALUE_ACCESSOR } from './control_value_accessor';
+import { ControlBindValueAccessor, NG_BIND_VALUE_ACCESSOR, setAriaReadonly } from './control_value_accessor';
 
 export const RANGE_VALUE_ACCESSOR: StaticProvider = {
     provide: NG_BIND_VALUE_ACCESSOR,
@@ -46,6 +46,11 @@ export const RANGE_VALUE_ACCESSOR: StaticProvider = {
     providers: [RANGE_VALUE_ACCESSOR],
 })
 export class RangeBindValueAccessor implements ControlBindValueAccessor {
+    /** @internal */
+    _readonly = false;
+
+    private _value: any;
+
     /**
      * @description
      * The registered callback function called when a change or input event occurs on the input
@@ -70,6 +75,7 @@ export class RangeBindValueAccessor implements ControlBindValueAccessor {
      * @param value The checked value
      */
     writeValue(value: any): void {
+        this._value = value;
         this._renderer.setProperty(this._elementRef.nativeElement, 'value', parseFloat(value));
     }
 
@@ -81,6 +87,11 @@ export class RangeBindValueAccessor implements ControlBindValueAccessor {
      */
     registerOnChange(fn: (_: number | null) => void): void {
         this.onChange = (value) => {
+            if (this._readonly) {
+                this.writeValue(this._value);
+                return;
+            }
+            this._value = value;
             fn(value === '' ? null : parseFloat(value));
         };
     }
@@ -103,4 +114,15 @@ export class RangeBindValueAccessor implements ControlBindValueAccessor {
     setDisabledState(isDisabled: boolean): void {
         this._renderer.setProperty(this._elementRef.nativeElement, 'disabled', isDisabled);
     }
+
+    /**
+     * Restores the value of the range input element when changed by the user while readonly, as the
+     * "readonly" attribute doesn't apply to range inputs, and sets its "aria-readonly" attribute.
+     *
+     * @param isReadonly The readonly value
+     */
+    setReadonlyState(isReadonly: boolean): void {
+        this._readonly = isReadonly;
+        setAriaReadonly(this._renderer, this._elementRef.nativeElement, isReadonly);
+    }
 }
@@ -9,11 +9,13 @@
 import { Directive, EventEmitter, Inject, InjectionToken, Input, OnChanges, Optional, Output, Self, SimpleChanges, forwardRef } from '@angular/core';
 
 import { BindFormControl } from '../../model';
+import { BindTransformerPair, NG_BIND_TRANSFORMERS } from '../../transformers';
 import { NG_ASYNC_BIND_VALIDATORS, NG_BIND_VALIDATORS } from '../../validators';
 import { ControlBindValueAccessor, NG_BIND_VALUE_ACCESSOR } from '../control_value_accessor';
 import { NgBindControl } from '../ng_control';
 import { ReactiveBindErrors } from '../reactive_errors';
-import { _ngModelWarning, composeAsyncValidators, composeValidators, isPropertyUpdated, selectValueAccessor, setUpControl } from '../shared';
+import { _ngModelWarning, composeAsyncValidators, composeTransformers, composeValidators, isPropertyUpdated, selectValueAccessor, setUpControl } from '../shared';
+import { BindTransformer } from '../transformers';
 import { AsyncBindValidator, AsyncBindValidatorFn, BindValidator, BindValidatorFn } from '../validators';
 
 /**
@@ -170,11 +172,13 @@ export class BindFormControlDirective extends NgBindControl implements OnChanges
         @Self()
         @Inject(NG_BIND_VALUE_ACCESSOR)
         valueAccessors: ControlBindValueAccessor[],
-        @Optional() @Inject(NG_MODEL_WITH_FORM_CONTROL_WARNING) private _ngModelWarningConfig: string | null
+        @Optional() @Inject(NG_MODEL_WITH_FORM_CONTROL_WARNING) private _ngModelWarningConfig: string | null,
+        @Optional() @Self() @Inject(NG_BIND_TRANSFORMERS) transformers: BindTransformer[]
     ) {
         super();
         this._rawValidators = validators || [];
         this._rawAsyncValidators = asyncValidators || [];
+        this._rawTransformers = transformers || [];
         this.valueAccessor = selectValueAccessor(this, valueAccessors);
     }
 
@@ -191,6 +195,9 @@ export class BindFormControlDirective extends NgBindControl implements OnChanges
             if (this.control.disabled && this.valueAccessor!.setDisabledState) {
                 this.valueAccessor!.setDisabledState!(true);
             }
+            if (this.control.readonly && this.valueAccessor!.setReadonlyState) {
+                this.valueAccessor!.setReadonlyState!(true);
+            }
             this.form.updateValueAndValidity({ emitEvent: false });
         }
         if (isPropertyUpdated(changes, this.viewModel)) {
@@ -227,6 +234,14 @@ export class BindFormControlDirective extends NgBindControl implements OnChanges
         return composeAsyncValidators(this._rawAsyncValidators);
     }
 
+    /**
+     * @description
+     * Transformer composed of all the transformers registered with this directive.
+     */
+    get transformer(): BindTransformerPair | null {
+        return composeTransformers(this._rawTransformers);
+    }
+
     /**
      * @description
      * The `BindFormControl` bound to this directive.
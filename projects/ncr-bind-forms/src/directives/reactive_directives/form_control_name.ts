@@ -9,13 +9,15 @@
 import { Directive, EventEmitter, Host, Inject, Input, OnChanges, OnDestroy, Optional, Output, Self, SimpleChanges, SkipSelf, forwardRef } from '@angular/core';
 
 import { BindFormControl } from '../../model';
+import { BindTransformerPair, NG_BIND_TRANSFORMERS } from '../../transformers';
 import { NG_ASYNC_BIND_VALIDATORS, NG_BIND_VALIDATORS } from '../../validators';
 import { AbstractBindFormGroupDirective } from '../abstract_form_group_directive';
 import { BindControlContainer } from '../control_container';
 import { ControlBindValueAccessor, NG_BIND_VALUE_ACCESSOR } from '../control_value_accessor';
 import { NgBindControl } from '../ng_control';
 import { ReactiveBindErrors } from '../reactive_errors';
-import { _ngModelWarning, composeAsyncValidators, composeValidators, controlPath, isPropertyUpdated, selectValueAccessor } from '../shared';
+import { _ngModelWarning, composeAsyncValidators, composeTransformers, composeValidators, controlPath, isPropertyUpdated, selectValueAccessor } from '../shared';
+import { BindTransformer } from '../transformers';
 import { AsyncBindValidator, AsyncBindValidatorFn, BindValidator, BindValidatorFn } from '../validators';
 
 import { NG_MODEL_WITH_FORM_CONTROL_WARNING } from './form_control_directive';
@@ -142,12 +144,14 @@ export class BindFormControlName extends NgBindControl implements OnChanges, OnD
         @Optional() @Self() @Inject(NG_BIND_VALIDATORS) validators: Array<BindValidator | BindValidatorFn>,
         @Optional() @Self() @Inject(NG_ASYNC_BIND_VALIDATORS) asyncValidators: Array<AsyncBindValidator | AsyncBindValidatorFn>,
         @Optional() @Self() @Inject(NG_BIND_VALUE_ACCESSOR) valueAccessors: ControlBindValueAccessor[],
-        @Optional() @Inject(NG_MODEL_WITH_FORM_CONTROL_WARNING) private _ngModelWarningConfig: string | null
+        @Optional() @Inject(NG_MODEL_WITH_FORM_CONTROL_WARNING) private _ngModelWarningConfig: string | null,
+        @Optional() @Self() @Inject(NG_BIND_TRANSFORMERS) transformers: BindTransformer[]
     ) {
         super();
         this._parent = parent;
         this._rawValidators = validators || [];
         this._rawAsyncValidators = asyncValidators || [];
+        this._rawTransformers = transformers || [];
         this.valueAccessor = selectValueAccessor(this, valueAccessors);
     }
 
@@ -186,6 +190,14 @@ export class BindFormControlName extends NgBindControl implements OnChanges, OnD
         return composeAsyncValidators(this._rawAsyncValidators)!;
     }
 
+    /**
+     * @description
+     * Transformer composed of all the transformers registered with this directive.
+     */
+    get transformer(): BindTransformerPair | null {
+        return composeTransformers(this._rawTransformers);
+    }
+
     /**
      * @description
      * Static property used to track whether any ngBindModel warnings have been sent across
@@ -290,6 +302,9 @@ export class BindFormControlName extends NgBindControl implements OnChanges, OnD
         if (this.control.disabled && this.valueAccessor!.setDisabledState) {
             this.valueAccessor!.setDisabledState!(true);
         }
+        if (this.control.readonly && this.valueAccessor!.setReadonlyState) {
+            this.valueAccessor!.setReadonlyState!(true);
+        }
         this._added = true;
     }
 }
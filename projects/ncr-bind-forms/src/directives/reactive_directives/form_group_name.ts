@@ -8,7 +8,7 @@
 
 import { Directive, Host, Inject, Input, OnDestroy, OnInit, Optional, Self, SkipSelf, forwardRef } from '@angular/core';
 
-import { BindFormArray } from '../../model';
+import { BindFormArray, BindFormRecord } from '../../model';
 import { NG_ASYNC_BIND_VALIDATORS, NG_BIND_VALIDATORS } from '../../validators';
 
 import {
@@ -109,6 +109,56 @@ export class BindFormGroupName extends AbstractBindFormGroupDirective implements
     }
 }
 
+export const formRecordNameProvider: any = {
+    provide: BindControlContainer,
+    useExisting: forwardRef(() => BindFormRecordName),
+};
+
+/**
+ * @description
+ *
+ * Syncs a nested `BindFormRecord` to a DOM element.
+ *
+ * Works as `bindFormGroupName`, the controls of the record being bound by their keys, usually
+ * while iterating over them, as the keys of a record come and go with its value.
+ *
+ * @usageNotes
+ *
+ * ### Bind the translations of a text
+ *
+ * ```
+ * <form [bindFormGroup]="form">
+ *   <div bindFormRecordName="translations">
+ *     <label *ngFor="let language of languages">
+ *       {{ language }} <input [formBindControlName]="language">
+ *     </label>
+ *   </div>
+ * </form>
+ * ```
+ *
+ * @ngModule BindReactiveFormsModule
+ * @publicApi
+ */
+// tslint:disable-next-line: directive-selector
+@Directive({ selector: '[bindFormRecordName]', providers: [formRecordNameProvider] })
+export class BindFormRecordName extends BindFormGroupName {
+    /**
+     * @description
+     * Tracks the name of the `BindFormRecord` bound to the directive. The name corresponds
+     * to a key in the parent `BindFormGroup` or `BindFormArray`.
+     */
+    // TODO(issue/24571): remove '!'.
+    @Input('bindFormRecordName') name!: string | number | null;
+
+    /**
+     * @description
+     * The `BindFormRecord` bound to this directive.
+     */
+    get control(): BindFormRecord {
+        return super.control as BindFormRecord;
+    }
+}
+
 export const formArrayNameProvider: any = {
     provide: BindControlContainer,
     useExisting: forwardRef(() => BindFormArrayName),
@@ -0,0 +1,149 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { Component } from '@angular/core';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { BindFormControlType } from '../control_types';
+import { BindReactiveFormsModule } from '../form_providers';
+import { BindFormControl, BindFormGroup } from '../model';
+
+@Component({
+    template: `
+        <form [bindFormGroup]="form">
+            <input type="text" formBindControlName="text" />
+            <input type="number" formBindControlName="number" />
+            <input type="date" formBindControlName="date" />
+            <input bindMask="99/99" formBindControlName="masked" />
+            <input type="checkbox" formBindControlName="checkbox" />
+            <input type="radio" value="a" formBindControlName="radio" />
+            <input type="radio" value="b" formBindControlName="radio" />
+            <input type="range" min="0" max="10" formBindControlName="range" />
+            <select formBindControlName="select">
+                <option value="a">A</option>
+                <option value="b">B</option>
+            </select>
+            <select multiple formBindControlName="multiple">
+                <option value="a">A</option>
+                <option value="b">B</option>
+            </select>
+        </form>
+    `,
+})
+class ReadonlyFormComponent {
+    form = new BindFormGroup({
+        text: new BindFormControl('text'),
+        number: new BindFormControl(1, BindFormControlType.number),
+        date: new BindFormControl('2021-03-04'),
+        masked: new BindFormControl('1234'),
+        checkbox: new BindFormControl(false),
+        radio: new BindFormControl('a'),
+        range: new BindFormControl(5),
+        select: new BindFormControl('a'),
+        multiple: new BindFormControl(['a']),
+    });
+}
+
+describe('readonly value accessors', () => {
+    let fixture: ComponentFixture<ReadonlyFormComponent>;
+    let form: BindFormGroup;
+
+    function query<T extends Element>(selector: string): T {
+        return fixture.nativeElement.querySelector(selector);
+    }
+
+    function dispatch(element: Element, type: string): void {
+        element.dispatchEvent(new Event(type));
+        fixture.detectChanges();
+    }
+
+    beforeEach(() => {
+        TestBed.configureTestingModule({ imports: [BindReactiveFormsModule], declarations: [ReadonlyFormComponent] });
+        fixture = TestBed.createComponent(ReadonlyFormComponent);
+        fixture.detectChanges();
+        form = fixture.componentInstance.form;
+    });
+
+    it('should set the readOnly property of text, number, date and masked inputs', () => {
+        const inputs = ['text', 'number', 'date', 'masked'].map((name) => query<HTMLInputElement>(`[formBindControlName="${name}"]`));
+        expect(inputs.map((input) => input.readOnly)).toEqual([false, false, false, false]);
+
+        form.setReadonly();
+        expect(inputs.map((input) => input.readOnly)).toEqual([true, true, true, true]);
+
+        form.setReadonly(false);
+        expect(inputs.map((input) => input.readOnly)).toEqual([false, false, false, false]);
+    });
+
+    it('should keep checkboxes and radio buttons from being checked while readonly', () => {
+        const checkbox = query<HTMLInputElement>('input[type="checkbox"]');
+        const radios = Array.from<HTMLInputElement>(fixture.nativeElement.querySelectorAll('input[type="radio"]'));
+        form.setReadonly();
+        expect(checkbox.getAttribute('aria-readonly')).toBe('true');
+        expect(radios[1].getAttribute('aria-readonly')).toBe('true');
+
+        checkbox.click();
+        radios[1].click();
+        fixture.detectChanges();
+        expect(checkbox.checked).toBe(false);
+        expect(radios.map((radio) => radio.checked)).toEqual([true, false]);
+        expect(form.value.checkbox).toBe(false);
+        expect(form.value.radio).toBe('a');
+
+        form.setReadonly(false);
+        expect(checkbox.hasAttribute('aria-readonly')).toBe(false);
+        checkbox.click();
+        radios[1].click();
+        expect(form.value.checkbox).toBe(true);
+        expect(form.value.radio).toBe('b');
+    });
+
+    it('should restore the value of ranges and selects changed while readonly', () => {
+        const range = query<HTMLInputElement>('input[type="range"]');
+        const select = query<HTMLSelectElement>('select:not([multiple])');
+        const multiple = query<HTMLSelectElement>('select[multiple]');
+        form.setReadonly();
+        expect([range, select, multiple].map((element) => element.getAttribute('aria-readonly'))).toEqual(['true', 'true', 'true']);
+
+        range.value = '8';
+        dispatch(range, 'input');
+        select.value = select.options[1].value;
+        dispatch(select, 'change');
+        multiple.options[1].selected = true;
+        dispatch(multiple, 'change');
+
+        expect(range.value).toBe('5');
+        expect(select.selectedIndex).toBe(0);
+        expect(Array.from(multiple.options).map((option) => option.selected)).toEqual([true, false]);
+        expect(form.value).toEqual(jasmine.objectContaining({ range: 5, select: 'a', multiple: ['a'] }));
+
+        form.setReadonly(false);
+        range.value = '8';
+        dispatch(range, 'input');
+        select.value = select.options[1].value;
+        dispatch(select, 'change');
+        expect(form.value).toEqual(jasmine.objectContaining({ range: 8, select: 'b' }));
+    });
+
+    it('should add the ng-readonly class', () => {
+        const text = query<HTMLInputElement>('[formBindControlName="text"]');
+        form.get('text')!.setReadonly();
+        fixture.detectChanges();
+
+        expect(text.classList).toContain('ng-readonly');
+        expect(query('form').classList).not.toContain('ng-readonly');
+
+        form.setReadonly();
+        fixture.detectChanges();
+        expect(query('form').classList).toContain('ng-readonly');
+
+        form.setReadonly(false);
+        fixture.detectChanges();
+        expect(text.classList).not.toContain('ng-readonly');
+    });
+});
@@ -8,7 +8,7 @@
 
 import { Directive, ElementRef, Host, Input, OnDestroy, Optional, Renderer2, StaticProvider, forwardRef, HostListener } from '@angular/core';
 
-import { ControlBindValueAccessor, NG_BIND_VALUE_ACCESSOR } from './control_value_accessor';
+import { ControlBindValueAccessor, NG_BIND_VALUE_ACCESSOR, setAriaReadonly } from './control_value_accessor';
 
 export const SELECT_VALUE_ACCESSOR: StaticProvider = {
     provide: NG_BIND_VALUE_ACCESSOR,
@@ -108,6 +108,8 @@ export class SelectControlBindValueAccessor implements ControlBindValueAccessor
     _optionMap: Map<string, any> = new Map<string, any>();
     /** @internal */
     _idCounter = 0;
+    /** @internal */
+    _readonly = false;
 
     private _compareWith: (o1: any, o2: any) => boolean = Object.is;
 
@@ -149,6 +151,10 @@ export class SelectControlBindValueAccessor implements ControlBindValueAccessor
      */
     registerOnChange(fn: (value: any) => any): void {
         this.onChange = (valueString: string) => {
+            if (this._readonly) {
+                this.writeValue(this.value);
+                return;
+            }
             this.value = this._getOptionValue(valueString);
             fn(this.value);
         };
@@ -173,6 +179,17 @@ export class SelectControlBindValueAccessor implements ControlBindValueAccessor
         this._renderer.setProperty(this._elementRef.nativeElement, 'disabled', isDisabled);
     }
 
+    /**
+     * Restores the value of the select element when changed by the user while readonly, as the
+     * "readonly" attribute doesn't apply to selects, and sets its "aria-readonly" attribute.
+     *
+     * @param isReadonly The readonly value
+     */
+    setReadonlyState(isReadonly: boolean): void {
+        this._readonly = isReadonly;
+        setAriaReadonly(this._renderer, this._elementRef.nativeElement, isReadonly);
+    }
+
     /** @internal */
     _registerOption(): string {
         return (this._idCounter++).toString();
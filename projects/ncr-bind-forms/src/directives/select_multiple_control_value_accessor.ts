@@ -8,7 +8,7 @@
 
 import { Directive, ElementRef, Host, Input, OnDestroy, Optional, Renderer2, StaticProvider, forwardRef, HostListener } from '@angular/core';
 
-import { ControlBindValueAccessor, NG_BIND_VALUE_ACCESSOR } from './control_value_accessor';
+import { ControlBindValueAccessor, NG_BIND_VALUE_ACCESSOR, setAriaReadonly } from './control_value_accessor';
 
 export const SELECT_MULTIPLE_VALUE_ACCESSOR: StaticProvider = {
     provide: NG_BIND_VALUE_ACCESSOR,
@@ -105,6 +105,8 @@ export class SelectMultipleControlBindValueAccessor implements ControlBindValueA
     _optionMap: Map<string, ɵNgSelectMultipleOption> = new Map<string, ɵNgSelectMultipleOption>();
     /** @internal */
     _idCounter = 0;
+    /** @internal */
+    _readonly = false;
 
     private _compareWith: (o1: any, o2: any) => boolean = Object.is;
 
@@ -155,6 +157,10 @@ export class SelectMultipleControlBindValueAccessor implements ControlBindValueA
      */
     registerOnChange(fn: (value: any) => any): void {
         this.onChange = (_: any) => {
+            if (this._readonly) {
+                this.writeValue(this.value);
+                return;
+            }
             const selected: Array<any> = [];
             if (_.hasOwnProperty('selectedOptions')) {
                 const options: HTMLCollection = _.selectedOptions;
@@ -199,6 +205,17 @@ export class SelectMultipleControlBindValueAccessor implements ControlBindValueA
         this._renderer.setProperty(this._elementRef.nativeElement, 'disabled', isDisabled);
     }
 
+    /**
+     * Restores the value of the select element when changed by the user while readonly, as the
+     * "readonly" attribute doesn't apply to selects, and sets its "aria-readonly" attribute.
+     *
+     * @param isReadonly The readonly value
+     */
+    setReadonlyState(isReadonly: boolean): void {
+        this._readonly = isReadonly;
+        setAriaReadonly(this._renderer, this._elementRef.nativeElement, isReadonly);
+    }
+
     /** @internal */
     _registerOption(value: ɵNgSelectMultipleOption): string {
         const id: string = (this._idCounter++).toString();
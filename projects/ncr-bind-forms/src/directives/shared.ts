@@ -8,6 +8,7 @@
 
 import { isDevMode } from '@angular/core';
 
+import { formatControlValue, parseControlValue } from '../control_types';
 import { BindFormArray, BindFormControl, BindFormGroup } from '../model';
 import { BindValidators } from '../validators';
 
@@ -16,7 +17,9 @@ import { AbstractBindFormGroupDirective } from './abstract_form_group_directive'
 import { CheckboxControlBindValueAccessor } from './checkbox_value_accessor';
 import { BindControlContainer } from './control_container';
 import { ControlBindValueAccessor } from './control_value_accessor';
+import { DateBindValueAccessor } from './date_value_accessor';
 import { DefaultBindValueAccessor } from './default_value_accessor';
+import { MaskBindValueAccessor } from './mask_value_accessor';
 import { NgBindControl } from './ng_control';
 import { normalizeAsyncValidator, normalizeValidator } from './normalize_validator';
 import { NumberBindValueAccessor } from './number_value_accessor';
@@ -26,8 +29,9 @@ import { BindFormArrayName } from './reactive_directives/form_group_name';
 import { ReactiveBindErrors } from './reactive_errors';
 import { SelectControlBindValueAccessor } from './select_control_value_accessor';
 import { SelectMultipleControlBindValueAccessor } from './select_multiple_control_value_accessor';
+import { BindTransformer } from './transformers';
 import { AsyncBindValidator, AsyncBindValidatorFn, BindValidator, BindValidatorFn } from './validators';
-import { BindTransformers, BindTransformerFn } from './../transformers';
+import { BindTransformerPair, BindTransformers } from '../transformers';
 
 export function controlPath(name: string | null, parent: BindControlContainer): string[] {
     return [...parent.path!, name!];
@@ -43,7 +47,7 @@ export function setUpControl(control: BindFormControl, dir: NgBindControl): void
 
     control.validator = BindValidators.compose([control.validator!, dir.validator]);
     control.asyncValidator = BindValidators.composeAsync([control.asyncValidator!, dir.asyncValidator]);
-    dir.valueAccessor!.writeValue(control.value);
+    writeViewValue(control, dir, control.value);
 
     setUpViewChangePipeline(control, dir);
     setUpModelChangePipeline(control, dir);
@@ -56,6 +60,12 @@ export function setUpControl(control: BindFormControl, dir: NgBindControl): void
         });
     }
 
+    if (dir.valueAccessor!.setReadonlyState) {
+        control.registerOnReadonlyChange((isReadonly: boolean) => {
+            dir.valueAccessor!.setReadonlyState!(isReadonly);
+        });
+    }
+
     // re-run validation when validator binding changes, e.g. minlength=3 -> minlength=4
     dir._rawValidators.forEach((validator: BindValidator | BindValidatorFn) => {
         if ((validator as BindValidator).registerOnValidatorChange) {
@@ -68,6 +78,13 @@ export function setUpControl(control: BindFormControl, dir: NgBindControl): void
             (validator as BindValidator).registerOnValidatorChange!(() => control.updateValueAndValidity());
         }
     });
+
+    // re-run the transformers when their binding changes, e.g. mask="99-99" -> mask="999"
+    dir._rawTransformers.forEach((transformer: BindTransformer) => {
+        if (transformer.registerOnTransformerChange) {
+            transformer.registerOnTransformerChange(() => updateTransformedValue(control, dir));
+        }
+    });
 }
 
 export function cleanUpControl(control: BindFormControl, dir: NgBindControl) {
@@ -86,22 +103,21 @@ export function cleanUpControl(control: BindFormControl, dir: NgBindControl) {
         }
     });
 
+    dir._rawTransformers.forEach((transformer: any) => {
+        if (transformer.registerOnTransformerChange) {
+            transformer.registerOnTransformerChange(null);
+        }
+    });
+
     if (control) {
         control._clearChangeFns();
     }
 }
 
 function setUpViewChangePipeline(control: BindFormControl, dir: NgBindControl): void {
-    dir.valueAccessor!.registerOnChange((newValue: any) => {
-        let transformedValue = newValue;
-        if (control.transformer) {
-            transformedValue = control.transformer.apply(undefined, [newValue]);
-            if (transformedValue !== newValue) {
-                dir.valueAccessor.writeValue(transformedValue);
-            }
-        }
-
-        control._pendingValue = transformedValue;
+    dir.valueAccessor!.registerOnChange((viewValue: any) => {
+        dir._viewValue = viewValue;
+        control._pendingValue = parseViewValue(control, dir, viewValue);
         control._pendingChange = true;
         control._pendingDirty = true;
 
@@ -116,11 +132,24 @@ function setUpBlurPipeline(control: BindFormControl, dir: NgBindControl): void {
         control._pendingTouched = true;
 
         if (control.updateOn === 'blur' && control._pendingChange) {
-            updateControl(control, dir);
+            // the async validators waiting for the blur run with the update
+            control._asyncTrigger = 'blur';
+            try {
+                updateControl(control, dir);
+            } finally {
+                control._asyncTrigger = 'change';
+            }
+        } else if (control.updateOn !== 'submit') {
+            control._runAsyncValidatorOn('blur');
         }
         if (control.updateOn !== 'submit') {
             control.markAsTouched();
         }
+
+        // the view keeps what the user typed until it loses the focus
+        if (viewTransformer(control, dir)) {
+            writeViewValue(control, dir, control._pendingValue);
+        }
     });
 }
 
@@ -128,33 +157,71 @@ function updateControl(control: BindFormControl, dir: NgBindControl): void {
     if (control._pendingDirty) {
         control.markAsDirty();
     }
-
-    if (control.transformer) {
-        control._pendingValue = control.transformer.apply(undefined, [control._pendingChange]);
-    }
-
     control.setValue(control._pendingValue, { emitModelToViewChange: false });
     dir.viewToModelUpdate(control._pendingValue);
     control._pendingChange = false;
 }
 
+function writeViewValue(control: BindFormControl, dir: NgBindControl, modelValue: any): void {
+    dir._viewValue = formatModelValue(control, dir, modelValue);
+    dir.valueAccessor!.writeValue(dir._viewValue);
+}
+
+function updateTransformedValue(control: BindFormControl, dir: NgBindControl): void {
+    const value = parseViewValue(control, dir, dir._viewValue);
+    if (control._pendingChange) {
+        // the view keeps what the user typed until the control is updated
+        control._pendingValue = value;
+    } else if (value !== control.value) {
+        control.setValue(value);
+    } else {
+        writeViewValue(control, dir, value);
+    }
+}
+
 function setUpModelChangePipeline(control: BindFormControl, dir: NgBindControl): void {
     control.registerOnChange((newValue: any, emitModelEvent: boolean) => {
-        let transformedValue = newValue;
-        if (control.transformer && control.transformer) {
-            transformedValue = control.transformer.apply(undefined, control);
-        }
-
         // control -> view
-        dir.valueAccessor!.writeValue(transformedValue);
+        writeViewValue(control, dir, newValue);
 
         // control -> ngBindModel
         if (emitModelEvent) {
-            dir.viewToModelUpdate(transformedValue);
+            dir.viewToModelUpdate(newValue);
         }
     });
 }
 
+/**
+ * The transformers between a control and the view of a directive. They are composed on each
+ * use rather than stored on the control, so that the transformers of a directive don't
+ * outlive its binding.
+ */
+function viewTransformer(control: BindFormControl, dir: NgBindControl): BindTransformerPair | null {
+    // the transformers of the directive are closer to the view than those of the control
+    return BindTransformers.compose([dir.transformer, control.transformer]);
+}
+
+/**
+ * Converts a value reported by a value accessor to the value stored by the control:
+ * the directive and control transformers run first, then the `BindFormControlType` coercion.
+ */
+export function parseViewValue(control: BindFormControl, dir: NgBindControl, viewValue: any): any {
+    const transformer = viewTransformer(control, dir);
+    const value = transformer ? transformer.parse(viewValue) : viewValue;
+    return parseControlValue(control.type, value);
+}
+
+/**
+ * Converts the value of a control to the value written to its value accessor, undoing
+ * `parseViewValue`: the `BindFormControlType` formatting runs first, then the control and
+ * directive transformers.
+ */
+export function formatModelValue(control: BindFormControl, dir: NgBindControl, modelValue: any): any {
+    const transformer = viewTransformer(control, dir);
+    const value = formatControlValue(control.type, modelValue);
+    return transformer ? transformer.format(value) : value;
+}
+
 export function setUpFormContainer(control: BindFormGroup | BindFormArray, dir: AbstractBindFormGroupDirective | BindFormArrayName) {
     if (control == null) {
         _throwError(dir, 'Cannot find control with');
@@ -187,7 +254,7 @@ export function composeAsyncValidators(validators: Array<AsyncBindValidator | As
     return validators != null ? BindValidators.composeAsync(validators.map(normalizeAsyncValidator)) : null;
 }
 
-export function composeTransformers(transformers: Array<BindTransformerFn>): BindTransformerFn | null {
+export function composeTransformers(transformers: Array<BindTransformerPair>): BindTransformerPair | null {
     return transformers != null ? BindTransformers.compose(transformers) : null;
 }
 
@@ -207,6 +274,8 @@ const BUILTIN_ACCESSORS = [
     CheckboxControlBindValueAccessor,
     RangeBindValueAccessor,
     NumberBindValueAccessor,
+    DateBindValueAccessor,
+    MaskBindValueAccessor,
     SelectControlBindValueAccessor,
     SelectMultipleControlBindValueAccessor,
     RadioControlBindValueAccessor,
@@ -225,6 +294,7 @@ export function syncPendingControls(form: BindFormGroup, directives: NgBindContr
             control._pendingChange = false;
         }
     });
+    form._runAsyncValidatorOn('submit');
 }
 
 // TODO: vsavkin remove it once https://github.com/angular/angular/issues/3011 is implemented
@@ -0,0 +1,717 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { Directive, Inject, Input, LOCALE_ID, OnChanges, SimpleChanges, StaticProvider, forwardRef } from '@angular/core';
+
+import { BindTransformerPair, BindTransformers, NG_BIND_TRANSFORMERS } from '../transformers';
+
+function _isEnabled(value: boolean | string): boolean {
+    return value === '' || value === true || value === 'true';
+}
+
+/**
+ * @description
+ * An interface implemented by classes that transform the value exchanged between a
+ * `BindFormControl` and its view, typically directives provided with the
+ * `NG_BIND_TRANSFORMERS` multi-provider list.
+ *
+ * @usageNotes
+ *
+ * ### Provide a custom transformer directive
+ *
+ * The following example implements the `BindTransformer` interface to create a
+ * transformer directive that pads numbers with leading zeros.
+ *
+ * ```typescript
+ * @Directive({
+ *   selector: '[padZeros]',
+ *   providers: [{provide: NG_BIND_TRANSFORMERS, useExisting: PadZerosTransformerDirective, multi: true}]
+ * })
+ * class PadZerosTransformerDirective implements BindTransformer, OnChanges {
+ *   @Input() padZeros: number;
+ *   private _onChange: () => void;
+ *
+ *   parse(value: string): number | null {
+ *     return value ? +value : null;
+ *   }
+ *   format(value: number | null): string {
+ *     return value == null ? '' : String(value).padStart(this.padZeros, '0');
+ *   }
+ *   ngOnChanges(): void {
+ *     if (this._onChange) this._onChange();
+ *   }
+ *   registerOnTransformerChange(fn: () => void): void {
+ *     this._onChange = fn;
+ *   }
+ * }
+ * ```
+ *
+ * @publicApi
+ */
+export interface BindTransformer extends BindTransformerPair {
+    /**
+     * @description
+     * Registers a callback function to call when the transformer inputs change. The
+     * forms directives then parse the current view value again, and write the formatted
+     * value back to the view.
+     *
+     * @param fn The callback function
+     */
+    registerOnTransformerChange?(fn: () => void): void;
+}
+
+/**
+ * @description
+ * Base class for the transformer directives that apply one of the `BindTransformers` when
+ * their attribute is present and not bound to `false`.
+ *
+ * @publicApi
+ */
+export abstract class AbstractToggleBindTransformer implements BindTransformer {
+    /** @internal */
+    _onChange: () => void;
+
+    /** @internal */
+    abstract readonly _transformer: BindTransformerPair;
+
+    private _enabled = false;
+
+    /**
+     * @description
+     * Applies the transformer to a view value if enabled, otherwise returns it unchanged.
+     */
+    parse(viewValue: any): any {
+        return this._enabled ? this._transformer.parse(viewValue) : viewValue;
+    }
+
+    /**
+     * @description
+     * Applies the transformer to a model value if enabled, otherwise returns it unchanged.
+     */
+    format(modelValue: any): any {
+        return this._enabled ? this._transformer.format(modelValue) : modelValue;
+    }
+
+    /**
+     * @description
+     * Registers a callback function to call when the transformer inputs change.
+     *
+     * @param fn The callback function
+     */
+    registerOnTransformerChange(fn: () => void): void {
+        this._onChange = fn;
+    }
+
+    /** @internal */
+    _setEnabled(value: boolean | string): void {
+        this._enabled = _isEnabled(value);
+        if (this._onChange) this._onChange();
+    }
+}
+
+/**
+ * @description
+ * Provider which adds `TrimTransformer` to the `NG_BIND_TRANSFORMERS` multi-provider list.
+ */
+export const TRIM_TRANSFORMER: StaticProvider = {
+    provide: NG_BIND_TRANSFORMERS,
+    useExisting: forwardRef(() => TrimTransformer),
+    multi: true,
+};
+
+/**
+ * @description
+ * A directive that removes leading and trailing whitespace from the string values of controls marked with the `trim` attribute.
+ * The directive applies `BindTransformers.trim` and is provided with the `NG_BIND_TRANSFORMERS` multi-provider list.
+ *
+ * @usageNotes
+ *
+ * ```html
+ * <input formBindControlName="name" trim>
+ * ```
+ *
+ * @ngModule BindFormsModule
+ * @ngModule BindReactiveFormsModule
+ * @publicApi
+ */
+@Directive({
+    // tslint:disable-next-line: directive-selector
+    selector: '[trim][formBindControlName],[trim][formBindControl],[trim][ngBindModel]',
+    providers: [TRIM_TRANSFORMER],
+})
+export class TrimTransformer extends AbstractToggleBindTransformer {
+    /** @internal */
+    readonly _transformer = BindTransformers.trim;
+
+    /**
+     * @description
+     * Tracks changes to the `trim` attribute bound to this directive.
+     */
+    @Input()
+    set trim(value: boolean | string) {
+        this._setEnabled(value);
+    }
+}
+
+/**
+ * @description
+ * Provider which adds `CollapseWhitespaceTransformer` to the `NG_BIND_TRANSFORMERS` multi-provider list.
+ */
+export const COLLAPSE_WHITESPACE_TRANSFORMER: StaticProvider = {
+    provide: NG_BIND_TRANSFORMERS,
+    useExisting: forwardRef(() => CollapseWhitespaceTransformer),
+    multi: true,
+};
+
+/**
+ * @description
+ * A directive that trims and collapses the whitespace of the string values of controls marked with the `collapseWhitespace` attribute.
+ * The directive applies `BindTransformers.collapseWhitespace` and is provided with the `NG_BIND_TRANSFORMERS` multi-provider list.
+ *
+ * @usageNotes
+ *
+ * ```html
+ * <input formBindControlName="name" collapseWhitespace>
+ * ```
+ *
+ * @ngModule BindFormsModule
+ * @ngModule BindReactiveFormsModule
+ * @publicApi
+ */
+@Directive({
+    // tslint:disable-next-line: directive-selector
+    selector: '[collapseWhitespace][formBindControlName],[collapseWhitespace][formBindControl],[collapseWhitespace][ngBindModel]',
+    providers: [COLLAPSE_WHITESPACE_TRANSFORMER],
+})
+export class CollapseWhitespaceTransformer extends AbstractToggleBindTransformer {
+    /** @internal */
+    readonly _transformer = BindTransformers.collapseWhitespace;
+
+    /**
+     * @description
+     * Tracks changes to the `collapseWhitespace` attribute bound to this directive.
+     */
+    @Input()
+    set collapseWhitespace(value: boolean | string) {
+        this._setEnabled(value);
+    }
+}
+
+/**
+ * @description
+ * Provider which adds `UppercaseTransformer` to the `NG_BIND_TRANSFORMERS` multi-provider list.
+ */
+export const UPPERCASE_TRANSFORMER: StaticProvider = {
+    provide: NG_BIND_TRANSFORMERS,
+    useExisting: forwardRef(() => UppercaseTransformer),
+    multi: true,
+};
+
+/**
+ * @description
+ * A directive that stores the string values of controls marked with the `uppercase` attribute in upper case.
+ * The directive applies `BindTransformers.uppercase` and is provided with the `NG_BIND_TRANSFORMERS` multi-provider list.
+ *
+ * @usageNotes
+ *
+ * ```html
+ * <input name="code" ngBindModel uppercase>
+ * ```
+ *
+ * @ngModule BindFormsModule
+ * @ngModule BindReactiveFormsModule
+ * @publicApi
+ */
+@Directive({
+    // tslint:disable-next-line: directive-selector
+    selector: '[uppercase][formBindControlName],[uppercase][formBindControl],[uppercase][ngBindModel]',
+    providers: [UPPERCASE_TRANSFORMER],
+})
+export class UppercaseTransformer extends AbstractToggleBindTransformer {
+    /** @internal */
+    readonly _transformer = BindTransformers.uppercase;
+
+    /**
+     * @description
+     * Tracks changes to the `uppercase` attribute bound to this directive.
+     */
+    @Input()
+    set uppercase(value: boolean | string) {
+        this._setEnabled(value);
+    }
+}
+
+/**
+ * @description
+ * Provider which adds `LowercaseTransformer` to the `NG_BIND_TRANSFORMERS` multi-provider list.
+ */
+export const LOWERCASE_TRANSFORMER: StaticProvider = {
+    provide: NG_BIND_TRANSFORMERS,
+    useExisting: forwardRef(() => LowercaseTransformer),
+    multi: true,
+};
+
+/**
+ * @description
+ * A directive that stores the string values of controls marked with the `lowercase` attribute in lower case.
+ * The directive applies `BindTransformers.lowercase` and is provided with the `NG_BIND_TRANSFORMERS` multi-provider list.
+ *
+ * @usageNotes
+ *
+ * ```html
+ * <input name="email" ngBindModel lowercase>
+ * ```
+ *
+ * @ngModule BindFormsModule
+ * @ngModule BindReactiveFormsModule
+ * @publicApi
+ */
+@Directive({
+    // tslint:disable-next-line: directive-selector
+    selector: '[lowercase][formBindControlName],[lowercase][formBindControl],[lowercase][ngBindModel]',
+    providers: [LOWERCASE_TRANSFORMER],
+})
+export class LowercaseTransformer extends AbstractToggleBindTransformer {
+    /** @internal */
+    readonly _transformer = BindTransformers.lowercase;
+
+    /**
+     * @description
+     * Tracks changes to the `lowercase` attribute bound to this directive.
+     */
+    @Input()
+    set lowercase(value: boolean | string) {
+        this._setEnabled(value);
+    }
+}
+
+/**
+ * @description
+ * Provider which adds `StripNonDigitsTransformer` to the `NG_BIND_TRANSFORMERS` multi-provider list.
+ */
+export const STRIP_NON_DIGITS_TRANSFORMER: StaticProvider = {
+    provide: NG_BIND_TRANSFORMERS,
+    useExisting: forwardRef(() => StripNonDigitsTransformer),
+    multi: true,
+};
+
+/**
+ * @description
+ * A directive that removes every character that is not a digit from the string values of controls marked with the `stripNonDigits` attribute.
+ * The directive applies `BindTransformers.stripNonDigits` and is provided with the `NG_BIND_TRANSFORMERS` multi-provider list.
+ *
+ * @usageNotes
+ *
+ * ```html
+ * <input formBindControlName="zip" stripNonDigits>
+ * ```
+ *
+ * @ngModule BindFormsModule
+ * @ngModule BindReactiveFormsModule
+ * @publicApi
+ */
+@Directive({
+    // tslint:disable-next-line: directive-selector
+    selector: '[stripNonDigits][formBindControlName],[stripNonDigits][formBindControl],[stripNonDigits][ngBindModel]',
+    providers: [STRIP_NON_DIGITS_TRANSFORMER],
+})
+export class StripNonDigitsTransformer extends AbstractToggleBindTransformer {
+    /** @internal */
+    readonly _transformer = BindTransformers.stripNonDigits;
+
+    /**
+     * @description
+     * Tracks changes to the `stripNonDigits` attribute bound to this directive.
+     */
+    @Input()
+    set stripNonDigits(value: boolean | string) {
+        this._setEnabled(value);
+    }
+}
+
+/**
+ * @description
+ * Provider which adds `EmptyToNullTransformer` to the `NG_BIND_TRANSFORMERS` multi-provider list.
+ */
+export const EMPTY_TO_NULL_TRANSFORMER: StaticProvider = {
+    provide: NG_BIND_TRANSFORMERS,
+    useExisting: forwardRef(() => EmptyToNullTransformer),
+    multi: true,
+};
+
+/**
+ * @description
+ * A directive that stores empty strings as `null` for controls marked with the `emptyToNull` attribute.
+ * The directive applies `BindTransformers.emptyToNull` and is provided with the `NG_BIND_TRANSFORMERS` multi-provider list.
+ *
+ * @usageNotes
+ *
+ * ```html
+ * <input formBindControlName="nickname" emptyToNull>
+ * ```
+ *
+ * @ngModule BindFormsModule
+ * @ngModule BindReactiveFormsModule
+ * @publicApi
+ */
+@Directive({
+    // tslint:disable-next-line: directive-selector
+    selector: '[emptyToNull][formBindControlName],[emptyToNull][formBindControl],[emptyToNull][ngBindModel]',
+    providers: [EMPTY_TO_NULL_TRANSFORMER],
+})
+export class EmptyToNullTransformer extends AbstractToggleBindTransformer {
+    /** @internal */
+    readonly _transformer = BindTransformers.emptyToNull;
+
+    /**
+     * @description
+     * Tracks changes to the `emptyToNull` attribute bound to this directive.
+     */
+    @Input()
+    set emptyToNull(value: boolean | string) {
+        this._setEnabled(value);
+    }
+}
+
+/**
+ * @description
+ * Provider which adds `DecimalTransformer` to the `NG_BIND_TRANSFORMERS` multi-provider list.
+ */
+export const DECIMAL_TRANSFORMER: StaticProvider = {
+    provide: NG_BIND_TRANSFORMERS,
+    useExisting: forwardRef(() => DecimalTransformer),
+    multi: true,
+};
+
+/**
+ * @description
+ * A directive that parses and formats locale-aware decimal numbers for controls marked with the
+ * `decimal` attribute. The directive applies `BindTransformers.decimal` and is provided with the
+ * `NG_BIND_TRANSFORMERS` multi-provider list.
+ *
+ * The attribute value is the locale to use, `LOCALE_ID` when empty.
+ *
+ * @usageNotes
+ *
+ * ```html
+ * <input formBindControlName="weight" decimal>
+ * <input formBindControlName="weight" decimal="fr" decimalDigits="1.0-2">
+ * ```
+ *
+ * @ngModule BindFormsModule
+ * @ngModule BindReactiveFormsModule
+ * @publicApi
+ */
+@Directive({
+    // tslint:disable-next-line: directive-selector
+    selector: '[decimal][formBindControlName],[decimal][formBindControl],[decimal][ngBindModel]',
+    providers: [DECIMAL_TRANSFORMER],
+})
+export class DecimalTransformer implements BindTransformer, OnChanges {
+    private _onChange: () => void;
+
+    /**
+     * @description
+     * Tracks changes to the locale bound to this directive.
+     */
+    @Input()
+    decimal: string;
+
+    /**
+     * @description
+     * Tracks changes to the number format bound to this directive, as for `DecimalPipe`.
+     */
+    @Input()
+    decimalDigits: string | undefined;
+
+    constructor(@Inject(LOCALE_ID) private _locale: string) {}
+
+    /**
+     * @description
+     * Parses a locale-formatted number.
+     */
+    parse(viewValue: any): any {
+        return BindTransformers.decimal(this.decimal || this._locale, this.decimalDigits).parse(viewValue);
+    }
+
+    /**
+     * @description
+     * Formats a number for the locale.
+     */
+    format(modelValue: any): any {
+        return BindTransformers.decimal(this.decimal || this._locale, this.decimalDigits).format(modelValue);
+    }
+
+    /**
+     * @description
+     * A lifecycle method called when the directive's inputs change. For internal use
+     * only.
+     *
+     * @param changes A object of key/value pairs for the set of changed inputs.
+     */
+    ngOnChanges(changes: SimpleChanges): void {
+        if (this._onChange) this._onChange();
+    }
+
+    /**
+     * @description
+     * Registers a callback function to call when the transformer inputs change.
+     *
+     * @param fn The callback function
+     */
+    registerOnTransformerChange(fn: () => void): void {
+        this._onChange = fn;
+    }
+}
+
+/**
+ * @description
+ * Provider which adds `CurrencyTransformer` to the `NG_BIND_TRANSFORMERS` multi-provider list.
+ */
+export const CURRENCY_TRANSFORMER: StaticProvider = {
+    provide: NG_BIND_TRANSFORMERS,
+    useExisting: forwardRef(() => CurrencyTransformer),
+    multi: true,
+};
+
+/**
+ * @description
+ * A directive that formats amounts of a currency for controls marked with the `currency`
+ * attribute, and parses them back to numbers. The directive applies `BindTransformers.currency`
+ * with the `LOCALE_ID` locale and is provided with the `NG_BIND_TRANSFORMERS` multi-provider list.
+ *
+ * @usageNotes
+ *
+ * ```html
+ * <input formBindControlName="price" currency="EUR">
+ * ```
+ *
+ * @ngModule BindFormsModule
+ * @ngModule BindReactiveFormsModule
+ * @publicApi
+ */
+@Directive({
+    // tslint:disable-next-line: directive-selector
+    selector: '[currency][formBindControlName],[currency][formBindControl],[currency][ngBindModel]',
+    providers: [CURRENCY_TRANSFORMER],
+})
+export class CurrencyTransformer implements BindTransformer, OnChanges {
+    private _onChange: () => void;
+
+    /**
+     * @description
+     * Tracks changes to the ISO 4217 currency code bound to this directive.
+     */
+    @Input()
+    currency: string;
+
+    constructor(@Inject(LOCALE_ID) private _locale: string) {}
+
+    /**
+     * @description
+     * Parses an amount to a number.
+     */
+    parse(viewValue: any): any {
+        return this.currency ? BindTransformers.currency(this.currency, this._locale).parse(viewValue) : viewValue;
+    }
+
+    /**
+     * @description
+     * Formats a number as an amount of the currency.
+     */
+    format(modelValue: any): any {
+        return this.currency ? BindTransformers.currency(this.currency, this._locale).format(modelValue) : modelValue;
+    }
+
+    /**
+     * @description
+     * A lifecycle method called when the directive's inputs change. For internal use
+     * only.
+     *
+     * @param changes A object of key/value pairs for the set of changed inputs.
+     */
+    ngOnChanges(changes: SimpleChanges): void {
+        if (this._onChange) this._onChange();
+    }
+
+    /**
+     * @description
+     * Registers a callback function to call when the transformer inputs change.
+     *
+     * @param fn The callback function
+     */
+    registerOnTransformerChange(fn: () => void): void {
+        this._onChange = fn;
+    }
+}
+
+/**
+ * @description
+ * Provider which adds `PhoneTransformer` to the `NG_BIND_TRANSFORMERS` multi-provider list.
+ */
+export const PHONE_TRANSFORMER: StaticProvider = {
+    provide: NG_BIND_TRANSFORMERS,
+    useExisting: forwardRef(() => PhoneTransformer),
+    multi: true,
+};
+
+/**
+ * @description
+ * A directive that stores the digits of a phone number and shows them through a mask, for
+ * controls marked with the `phone` attribute. The directive applies `BindTransformers.phone`
+ * and is provided with the `NG_BIND_TRANSFORMERS` multi-provider list.
+ *
+ * The attribute value is the mask, where each `9` stands for a digit. An empty value uses the
+ * default `(999) 999-9999` mask.
+ *
+ * @usageNotes
+ *
+ * ```html
+ * <input formBindControlName="phone" phone>
+ * <input formBindControlName="phone" phone="99 99 99 99 99">
+ * ```
+ *
+ * @ngModule BindFormsModule
+ * @ngModule BindReactiveFormsModule
+ * @publicApi
+ */
+@Directive({
+    // tslint:disable-next-line: directive-selector
+    selector: '[phone][formBindControlName],[phone][formBindControl],[phone][ngBindModel]',
+    providers: [PHONE_TRANSFORMER],
+})
+export class PhoneTransformer implements BindTransformer, OnChanges {
+    private _onChange: () => void;
+
+    /**
+     * @description
+     * Tracks changes to the mask bound to this directive.
+     */
+    @Input()
+    phone: string;
+
+    /**
+     * @description
+     * Keeps the digits of the phone number.
+     */
+    parse(viewValue: any): any {
+        return BindTransformers.phone(this.phone || undefined).parse(viewValue);
+    }
+
+    /**
+     * @description
+     * Shows the digits through the mask.
+     */
+    format(modelValue: any): any {
+        return BindTransformers.phone(this.phone || undefined).format(modelValue);
+    }
+
+    /**
+     * @description
+     * A lifecycle method called when the directive's inputs change. For internal use
+     * only.
+     *
+     * @param changes A object of key/value pairs for the set of changed inputs.
+     */
+    ngOnChanges(changes: SimpleChanges): void {
+        if (this._onChange) this._onChange();
+    }
+
+    /**
+     * @description
+     * Registers a callback function to call when the transformer inputs change.
+     *
+     * @param fn The callback function
+     */
+    registerOnTransformerChange(fn: () => void): void {
+        this._onChange = fn;
+    }
+}
+
+/**
+ * @description
+ * Provider which adds `MaskTransformer` to the `NG_BIND_TRANSFORMERS` multi-provider list.
+ */
+export const MASK_TRANSFORMER: StaticProvider = {
+    provide: NG_BIND_TRANSFORMERS,
+    useExisting: forwardRef(() => MaskTransformer),
+    multi: true,
+};
+
+/**
+ * @description
+ * A directive that stores the characters filling the placeholders of a mask, and shows them
+ * through the mask, for controls marked with the `mask` attribute. The directive applies
+ * `BindTransformers.mask` and is provided with the `NG_BIND_TRANSFORMERS` multi-provider list.
+ *
+ * In the mask, `9` stands for a digit, `a` for a letter, `*` for a letter or a digit, and any
+ * other character is a literal. The view is formatted when the control value changes and on blur.
+ *
+ * @usageNotes
+ *
+ * ```html
+ * <input formBindControlName="zip" mask="99999-999">
+ * <input name="plate" ngBindModel [mask]="plateMask">
+ * ```
+ *
+ * @ngModule BindFormsModule
+ * @ngModule BindReactiveFormsModule
+ * @publicApi
+ */
+@Directive({
+    // tslint:disable-next-line: directive-selector
+    selector: '[mask][formBindControlName],[mask][formBindControl],[mask][ngBindModel]',
+    providers: [MASK_TRANSFORMER],
+})
+export class MaskTransformer implements BindTransformer, OnChanges {
+    private _onChange: () => void;
+
+    /**
+     * @description
+     * Tracks changes to the mask bound to this directive.
+     */
+    @Input()
+    mask: string;
+
+    /**
+     * @description
+     * Keeps the characters filling the placeholders of the mask.
+     */
+    parse(viewValue: any): any {
+        return this.mask ? BindTransformers.mask(this.mask).parse(viewValue) : viewValue;
+    }
+
+    /**
+     * @description
+     * Shows the value through the mask.
+     */
+    format(modelValue: any): any {
+        return this.mask ? BindTransformers.mask(this.mask).format(modelValue) : modelValue;
+    }
+
+    /**
+     * @description
+     * A lifecycle method called when the directive's inputs change. For internal use
+     * only.
+     *
+     * @param changes A object of key/value pairs for the set of changed inputs.
+     */
+    ngOnChanges(changes: SimpleChanges): void {
+        if (this._onChange) this._onChange();
+    }
+
+    /**
+     * @description
+     * Registers a callback function to call when the transformer inputs change.
+     *
+     * @param fn The callback function
+     */
+    registerOnTransformerChange(fn: () => void): void {
+        this._onChange = fn;
+    }
+}
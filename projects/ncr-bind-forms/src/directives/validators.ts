@@ -9,7 +9,7 @@
 import { Directive, Input, OnChanges, SimpleChanges, StaticProvider, forwardRef, HostBinding } from '@angular/core';
 import { Observable } from 'rxjs';
 
-import { AbstractBindControl } from '../model';
+import { AbstractBindControl, BindFormHooks } from '../model';
 import { NG_BIND_VALIDATORS, BindValidators } from '../validators';
 
 /**
@@ -22,6 +22,15 @@ export type ValidationBindErrors = {
     [key: string]: any;
 };
 
+/**
+ * @description
+ * Severity of an entry in `ValidationBindErrors`. Lower values are more severe.
+ *
+ * Only `error` entries block a control (status `INVALID`). `alert` entries put the control
+ * in the `WARNED` state, while `help`, `info` and `ok` entries are hints that leave it `VALID`.
+ *
+ * @publicApi
+ */
 export enum ErrorItemType {
     error = 0,
     alert = 10,
@@ -30,6 +39,25 @@ export enum ErrorItemType {
     ok = 40,
 }
 
+/**
+ * @description
+ * An entry of `ValidationBindErrors` carrying its own severity.
+ *
+ * Entries that are not objects (e.g. `{required: true}`) or that don't define a `type`
+ * are treated as `ErrorItemType.error`.
+ *
+ * @publicApi
+ */
+export interface ValidationBindErrorItem {
+    /**
+     * @description
+     * The severity of the entry. Defaults to `ErrorItemType.error`.
+     */
+    type?: ErrorItemType;
+
+    [key: string]: any;
+}
+
 /**
  * @description
  * An interface implemented by classes that perform synchronous validation.
@@ -327,6 +355,40 @@ export type BindValidatorFn = (control: AbstractBindControl) => ValidationBindEr
  */
 export type AsyncBindValidatorFn = (control: AbstractBindControl) => Promise<ValidationBindErrors | null> | Observable<ValidationBindErrors | null>;
 
+/**
+ * @description
+ * Options controlling when and how often an async validator runs, see `BindValidators.withAsyncOptions`.
+ *
+ * @publicApi
+ */
+export interface AsyncBindValidatorOptions {
+    /**
+     * @description
+     * Milliseconds to wait for the value to settle before running the validator.
+     * Each new validation restarts the wait.
+     */
+    debounce?: number;
+    /**
+     * @description
+     * Minimum milliseconds between two runs of the validator. A validation requested
+     * earlier waits for the end of the period.
+     */
+    throttle?: number;
+    /**
+     * @description
+     * The event running the validator: `'change'` (the default) runs it with every
+     * validation, `'blur'` when the control loses the focus or the form is submitted,
+     * `'submit'` when the form is submitted. A blur or a submission only runs the validators
+     * deferred to it, the other async validators keeping their result.
+     */
+    trigger?: BindFormHooks;
+    /**
+     * @description
+     * Milliseconds after which the validator is abandoned and reports an `asyncTimeout` error.
+     */
+    timeout?: number;
+}
+
 /**
  * @description
  * Provider which adds `MinLengthValidator` to the `NG_BIND_VALIDATORS` multi-provider list.
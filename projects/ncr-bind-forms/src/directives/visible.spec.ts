@@ -0,0 +1,132 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { Component, ViewChild } from '@angular/core';
+import { fakeAsync, TestBed, tick } from '@angular/core/testing';
+
+import { BindFormsModule } from '../form_providers';
+import { BindFormControl, BindFormGroup, visibleWhen } from '../model';
+
+import { BindControlContainer } from './control_container';
+import { NgBindFormDirective } from './ng_form';
+import { BindVisibleDirective } from './visible';
+
+@Component({
+    template: `
+        <form>
+            <input ngBindModel name="name" [(ngBindModel)]="name" />
+            <input *bindVisible="'nickname'" ngBindModel name="nickname" [(ngBindModel)]="nickname" />
+        </form>
+    `,
+})
+class TemplateDrivenFormComponent {
+    @ViewChild(NgBindFormDirective, { static: true }) ngForm!: NgBindFormDirective;
+    name = 'Ada';
+    nickname = 'Countess';
+}
+
+class FakeViewContainer {
+    length = 0;
+
+    createEmbeddedView(): void {
+        this.length++;
+    }
+
+    clear(): void {
+        this.length = 0;
+    }
+}
+
+describe('BindVisibleDirective', () => {
+    let form: BindFormGroup;
+    let viewContainer: FakeViewContainer;
+    let changeDetector: jasmine.SpyObj<any>;
+    let directive: BindVisibleDirective;
+
+    beforeEach(() => {
+        form = new BindFormGroup({
+            maritalStatus: new BindFormControl('single'),
+            spouse: new BindFormControl('', null, null, { visibleWhen: visibleWhen(([status]) => status === 'married', ['../maritalStatus']) }),
+        });
+        viewContainer = new FakeViewContainer();
+        changeDetector = jasmine.createSpyObj('ChangeDetectorRef', ['markForCheck']);
+        directive = new BindVisibleDirective({} as any, viewContainer as any, changeDetector, { control: form } as any as BindControlContainer);
+        directive.control = 'spouse';
+    });
+
+    afterEach(() => directive.ngOnDestroy());
+
+    it('should render the template while the control is visible', () => {
+        directive.ngDoCheck();
+        expect(viewContainer.length).toEqual(0);
+
+        form.get('maritalStatus')!.setValue('married');
+        directive.ngDoCheck();
+        expect(viewContainer.length).toEqual(1);
+
+        directive.ngDoCheck();
+        expect(viewContainer.length).toEqual(1);
+    });
+
+    it('should update the view during change detection only', () => {
+        directive.ngDoCheck();
+
+        form.get('maritalStatus')!.setValue('married');
+
+        expect(viewContainer.length).toEqual(0);
+        expect(changeDetector.markForCheck).toHaveBeenCalled();
+    });
+
+    it('should render the template while the control cannot be found', () => {
+        directive.control = 'unknown';
+        directive.ngDoCheck();
+
+        expect(viewContainer.length).toEqual(1);
+    });
+
+    it('should keep the view in its state once the control disappears', () => {
+        form.get('maritalStatus')!.setValue('married');
+        directive.ngDoCheck();
+        form.get('spouse')!.setVisible(false);
+        directive.ngDoCheck();
+        expect(viewContainer.length).toEqual(0);
+
+        form.removeControl('spouse');
+        directive.ngDoCheck();
+        expect(viewContainer.length).toEqual(0);
+
+        directive.control = 'maritalStatus';
+        directive.ngDoCheck();
+        expect(viewContainer.length).toEqual(1);
+    });
+});
+
+describe('BindVisibleDirective in template-driven forms', () => {
+    beforeEach(() => {
+        TestBed.configureTestingModule({ imports: [BindFormsModule], declarations: [TemplateDrivenFormComponent] });
+    });
+
+    it('should not render the template again once hiding it removed the control', fakeAsync(() => {
+        const fixture = TestBed.createComponent(TemplateDrivenFormComponent);
+        const form = fixture.componentInstance.ngForm.form;
+        fixture.detectChanges();
+        tick();
+        expect(form.value).toEqual({ name: 'Ada', nickname: 'Countess' });
+        expect(fixture.nativeElement.querySelectorAll('input').length).toEqual(2);
+
+        form.get('nickname')!.setVisible(false);
+        fixture.detectChanges();
+        tick();
+        expect(form.contains('nickname')).toBe(false);
+
+        fixture.detectChanges();
+        tick();
+        expect(fixture.nativeElement.querySelectorAll('input').length).toEqual(1);
+        expect(form.value).toEqual({ name: 'Ada' });
+    }));
+});
@@ -0,0 +1,145 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { ChangeDetectorRef, Directive, DoCheck, Host, Input, OnDestroy, Optional, TemplateRef, ViewContainerRef } from '@angular/core';
+import { Subscription } from 'rxjs';
+
+import { AbstractBindControl } from '../model';
+
+import { BindControlContainer } from './control_container';
+
+/**
+ * @description
+ * Renders its template while a control is `visible`, see `AbstractBindControl.setVisible` and the
+ * `visibleWhen` option of the controls.
+ *
+ * The directive accepts a control, or the name or path of a control of the enclosing group,
+ * such as `bindFormGroupName`. The template is rendered as long as the control cannot be found,
+ * as template-driven controls are registered by the template itself.
+ *
+ * Hiding the template destroys the `ngBindModel` and `ngBindModelGroup` directives it holds,
+ * which remove their controls from a template-driven form. Once found, a control that
+ * disappears from the form keeps the template in its last state, rather than rendering it
+ * again: hidden template-driven controls can only be shown again by binding the directive to
+ * another control. Prefer reactive forms, whose controls stay in the form while hidden.
+ *
+ * The controls stay in the form while hidden: the view follows the state of the control, and
+ * creating or destroying it never adds or removes controls. The template is rendered or removed
+ * during change detection, once the state of the form settled.
+ *
+ * @usageNotes
+ *
+ * ### Show the details of the spouse of married people
+ *
+ * ```ts
+ * form = new BindFormGroup({
+ *   maritalStatus: new BindFormControl('single'),
+ *   spouse: new BindFormGroup(
+ *     { name: new BindFormControl('', null, false, BindValidators.required) },
+ *     { visibleWhen: visibleWhen(([status]) => status === 'married', ['../maritalStatus']) }
+ *   ),
+ * });
+ * ```
+ *
+ * ```
+ * <form [bindFormGroup]="form">
+ *   <select formBindControlName="maritalStatus">...</select>
+ *   <fieldset *bindVisible="'spouse'" bindFormGroupName="spouse">
+ *     <input formBindControlName="name">
+ *   </fieldset>
+ * </form>
+ * ```
+ *
+ * @ngModule BindReactiveFormsModule
+ * @ngModule BindFormsModule
+ * @publicApi
+ */
+@Directive({
+    // tslint:disable-next-line: directive-selector
+    selector: '[bindVisible]',
+})
+export class BindVisibleDirective implements DoCheck, OnDestroy {
+    /**
+     * @description
+     * The control whose visibility is followed, or its name or path in the enclosing group.
+     */
+    @Input('bindVisible') control: AbstractBindControl | string | number | null = null;
+
+    private _control: AbstractBindControl | null = null;
+    private _boundControl: AbstractBindControl | string | number | null = null;
+    private _found = false;
+    private _subscription: Subscription | null = null;
+    private _rendered = false;
+
+    constructor(
+        private _templateRef: TemplateRef<any>,
+        private _viewContainer: ViewContainerRef,
+        private _changeDetectorRef: ChangeDetectorRef,
+        @Optional() @Host() private _parent: BindControlContainer
+    ) {}
+
+    /**
+     * @description
+     * A lifecycle method rendering or removing the template to follow the state of the
+     * control. For internal use only.
+     */
+    ngDoCheck(): void {
+        const control = this._resolveControl();
+        if (this.control !== this._boundControl) {
+            this._boundControl = this.control;
+            this._found = false;
+        }
+        if (control !== this._control) {
+            this._unsubscribe();
+            this._control = control;
+            if (control) {
+                // the view is updated during the next change detection, not while the form updates
+                this._subscription = control.visibleChanges.subscribe(() => this._changeDetectorRef.markForCheck());
+            }
+        }
+        if (control) {
+            this._found = true;
+        } else if (this._found) {
+            // removed from the form, as template-driven controls are by the view hiding them
+            return;
+        }
+        const visible = !control || control.visible;
+        if (visible && !this._rendered) {
+            this._viewContainer.createEmbeddedView(this._templateRef);
+        } else if (!visible && this._rendered) {
+            this._viewContainer.clear();
+        }
+        this._rendered = visible;
+    }
+
+    /**
+     * @description
+     * Lifecycle method called before the directive's instance is destroyed. For internal use only.
+     */
+    ngOnDestroy(): void {
+        this._unsubscribe();
+    }
+
+    private _resolveControl(): AbstractBindControl | null {
+        if (this.control == null) {
+            return null;
+        }
+        if (this.control instanceof AbstractBindControl) {
+            return this.control as AbstractBindControl;
+        }
+        const container = this._parent ? this._parent.control : null;
+        return container ? container.get(String(this.control)) : null;
+    }
+
+    private _unsubscribe(): void {
+        if (this._subscription) {
+            this._subscription.unsubscribe();
+            this._subscription = null;
+        }
+    }
+}
@@ -0,0 +1,154 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { InjectionToken } from '@angular/core';
+
+import { BindControlSnapshot } from './snapshot';
+
+/**
+ * @description
+ * A draft of a form, written by the `bindAutosave` directive.
+ *
+ * @publicApi
+ */
+export interface BindDraft {
+    /**
+     * @description
+     * The version of the form the draft was written for, see `BindAutosaveDirective.autosaveVersion`.
+     */
+    version: string | number;
+    /**
+     * @description
+     * When the draft was written, in milliseconds since the epoch.
+     */
+    savedAt: number;
+    /**
+     * @description
+     * The state of the form, without the values of its sensitive controls.
+     */
+    snapshot: BindControlSnapshot;
+}
+
+/**
+ * @description
+ * Reads and writes the drafts of the `bindAutosave` directive. Each method may return a
+ * promise, e.g. to write drafts to a server.
+ *
+ * @publicApi
+ */
+export interface BindDraftStorage {
+    /**
+     * @description
+     * Reads the draft stored under the given key, or null if there is none.
+     */
+    load(key: string): BindDraft | null | Promise<BindDraft | null>;
+    /**
+     * @description
+     * Writes a draft under the given key, replacing the previous one.
+     */
+    save(key: string, draft: BindDraft): void | Promise<void>;
+    /**
+     * @description
+     * Removes the draft stored under the given key.
+     */
+    remove(key: string): void | Promise<void>;
+}
+
+/**
+ * @description
+ * An `InjectionToken` for providing the default `BindDraftStorage` of the `bindAutosave`
+ * directive. The drafts are written to `localStorage` when none is provided.
+ *
+ * @publicApi
+ */
+export const BIND_DRAFT_STORAGE = new InjectionToken<BindDraftStorage>('BindDraftStorage');
+
+/**
+ * @description
+ * A `BindDraftStorage` writing the drafts as JSON to a Web Storage area, such as `localStorage`
+ * or `sessionStorage`.
+ *
+ * @usageNotes
+ *
+ * ```ts
+ * providers: [{ provide: BIND_DRAFT_STORAGE, useValue: new BindWebDraftStorage(sessionStorage) }]
+ * ```
+ *
+ * @publicApi
+ */
+export class BindWebDraftStorage implements BindDraftStorage {
+    /**
+     * @param _storage The storage area.
+     * @param _prefix Prepended to the keys of the drafts.
+     */
+    constructor(private _storage: Storage, private _prefix: string = 'bind-draft:') {}
+
+    load(key: string): BindDraft | null {
+        const json = this._storage.getItem(this._prefix + key);
+        return json ? JSON.parse(json) : null;
+    }
+
+    save(key: string, draft: BindDraft): void {
+        this._storage.setItem(this._prefix + key, JSON.stringify(draft));
+    }
+
+    remove(key: string): void {
+        this._storage.removeItem(this._prefix + key);
+    }
+}
+
+/**
+ * @description
+ * A `BindDraftStorage` writing the drafts to an IndexedDB object store, created if needed.
+ *
+ * @publicApi
+ */
+export class BindIndexedDbDraftStorage implements BindDraftStorage {
+    private _db: Promise<IDBDatabase> | null = null;
+
+    /**
+     * @param _dbName The name of the database.
+     * @param _storeName The name of the object store of the drafts.
+     */
+    constructor(private _dbName: string = 'bind-drafts', private _storeName: string = 'drafts') {}
+
+    load(key: string): Promise<BindDraft | null> {
+        return this._request('readonly', (store) => store.get(key)).then((draft) => draft || null);
+    }
+
+    save(key: string, draft: BindDraft): Promise<void> {
+        return this._request('readwrite', (store) => store.put(draft, key)).then(() => undefined);
+    }
+
+    remove(key: string): Promise<void> {
+        return this._request('readwrite', (store) => store.delete(key)).then(() => undefined);
+    }
+
+    private _open(): Promise<IDBDatabase> {
+        if (!this._db) {
+            this._db = new Promise<IDBDatabase>((resolve, reject) => {
+                const request = indexedDB.open(this._dbName, 1);
+                request.onupgradeneeded = () => request.result.createObjectStore(this._storeName);
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+        }
+        return this._db;
+    }
+
+    private _request(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest): Promise<any> {
+        return this._open().then(
+            (db) =>
+                new Promise<any>((resolve, reject) => {
+                    const request = operation(db.transaction(this._storeName, mode).objectStore(this._storeName));
+                    request.onsuccess = () => resolve(request.result);
+                    request.onerror = () => reject(request.error);
+                })
+        );
+    }
+}
@@ -0,0 +1,65 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { BindFormControlType } from '../control_types';
+import { BindFormArray, BindFormControl, BindFormGroup } from '../model';
+
+import { BindDynamicField, BindDynamicFieldRegistry, createDynamicControl } from './dynamic_field';
+
+describe('createDynamicControl', () => {
+    const fields: BindDynamicField = {
+        name: '',
+        type: 'group',
+        fields: [
+            { name: 'name', type: 'text', required: true },
+            { name: 'age', type: 'number', value: 30 },
+            { name: 'terms', type: 'checkbox', required: true },
+            { name: 'plan', type: 'select', options: [{ label: 'Free', value: 'free' }], value: 'free' },
+            { name: 'address', type: 'group', disabled: true, fields: [{ name: 'city', type: 'text' }] },
+            { name: 'phones', type: 'array', item: { name: 'phone', type: 'text' }, value: ['0102'] },
+        ],
+    };
+
+    it('should build nested groups, arrays and controls', () => {
+        const form = createDynamicControl(fields) as BindFormGroup;
+
+        expect(form.get('address') instanceof BindFormGroup).toBe(true);
+        expect(form.get('phones') instanceof BindFormArray).toBe(true);
+        expect((form.get('age') as BindFormControl).type).toEqual(BindFormControlType.number);
+        expect(form.getRawValue()).toEqual({ name: null, age: 30, terms: false, plan: 'free', address: { city: null }, phones: ['0102'] });
+        expect(form.get('address')!.disabled).toBe(true);
+    });
+
+    it('should use the value over the values of the fields', () => {
+        const form = createDynamicControl(fields, { age: 40, phones: ['0102', '0304'] }) as BindFormGroup;
+
+        expect(form.get('age')!.value).toEqual(40);
+        expect((form.get('phones') as BindFormArray).length).toEqual(2);
+    });
+
+    it('should validate required fields', () => {
+        const form = createDynamicControl(fields) as BindFormGroup;
+
+        expect(form.get('name')!.errors).toEqual({ required: true });
+        expect(form.get('terms')!.errors).toEqual({ required: true });
+    });
+});
+
+describe('BindDynamicFieldRegistry', () => {
+    class RatingFieldComponent {}
+    class ColorFieldComponent {}
+
+    it('should register the provided components', () => {
+        const registry = new BindDynamicFieldRegistry([{ rating: RatingFieldComponent as any }]);
+        registry.register('color', ColorFieldComponent as any);
+
+        expect(registry.get('rating')).toBe(RatingFieldComponent as any);
+        expect(registry.get('color')).toBe(ColorFieldComponent as any);
+        expect(registry.get('toString')).toBeNull();
+    });
+});
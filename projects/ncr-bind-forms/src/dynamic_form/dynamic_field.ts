@@ -0,0 +1,245 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { Inject, Injectable, InjectionToken, Optional, Type } from '@angular/core';
+
+import { BindFormControlType } from '../control_types';
+import { BindValidatorFn } from '../directives/validators';
+import { AbstractBindControl, BindFormArray, BindFormControl, BindFormGroup } from '../model';
+import { BindValidators } from '../validators';
+
+/**
+ * @description
+ * The types of fields rendered by `<bind-dynamic-form>` out of the box. Other types are
+ * rendered by the components registered in the `BindDynamicFieldRegistry`.
+ *
+ * * `text`: an `input`, of the `inputType` of the field, `text` by default.
+ * * `textarea`, `number`, `checkbox` and `range`: the matching input.
+ * * `radio` and `select`: a radio group or a select listing the `options` of the field.
+ * * `group`: a `fieldset` holding the `fields` of the field, bound to a `BindFormGroup`.
+ * * `array`: a repeatable list of `item` fields, bound to a `BindFormArray`.
+ *
+ * @publicApi
+ */
+export type BindDynamicFieldType = 'text' | 'textarea' | 'number' | 'checkbox' | 'radio' | 'select' | 'range' | 'group' | 'array';
+
+/**
+ * @description
+ * A choice of a `radio` or `select` field.
+ *
+ * @publicApi
+ */
+export interface BindDynamicFieldOption {
+    label: string;
+    value: any;
+    disabled?: boolean;
+}
+
+/**
+ * @description
+ * How a field is laid out by `<bind-dynamic-form>`. Fields are laid out on a grid, 12
+ * columns wide by default.
+ *
+ * @publicApi
+ */
+export interface BindDynamicFieldLayout {
+    /**
+     * @description
+     * The number of columns of the grid the field spans, the full width by default.
+     */
+    span?: number;
+    /**
+     * @description
+     * Whether the field starts a new row.
+     */
+    newRow?: boolean;
+    /**
+     * @description
+     * A CSS class added to the element wrapping the field.
+     */
+    className?: string;
+}
+
+/**
+ * @description
+ * Describes a field rendered by `<bind-dynamic-form>`.
+ *
+ * @publicApi
+ */
+export interface BindDynamicField {
+    /**
+     * @description
+     * The name of the control of the field in its group. Ignored for the `item` of an array.
+     */
+    name: string;
+    /**
+     * @description
+     * A `BindDynamicFieldType`, or the type of a component registered in the `BindDynamicFieldRegistry`.
+     */
+    type: BindDynamicFieldType | string;
+    label?: string;
+    /**
+     * @description
+     * The `type` attribute of the input of a `text` field, such as `email` or `password`.
+     */
+    inputType?: string;
+    placeholder?: string;
+    /**
+     * @description
+     * A help text displayed under the field.
+     */
+    hint?: string;
+    /**
+     * @description
+     * The choices of a `radio` or `select` field.
+     */
+    options?: BindDynamicFieldOption[];
+    min?: number;
+    max?: number;
+    step?: number;
+    /**
+     * @description
+     * The initial value of the control built for the field, see `createDynamicControl`.
+     */
+    value?: any;
+    required?: boolean;
+    disabled?: boolean;
+    validators?: BindValidatorFn[];
+    /**
+     * @description
+     * The fields of a `group` field.
+     */
+    fields?: BindDynamicField[];
+    /**
+     * @description
+     * The field repeated by an `array` field.
+     */
+    item?: BindDynamicField;
+    /**
+     * @description
+     * The labels of the buttons adding and removing the items of an `array` field.
+     */
+    addLabel?: string;
+    removeLabel?: string;
+    layout?: BindDynamicFieldLayout;
+}
+
+/**
+ * @description
+ * The contract of the components rendering the fields of a registered type, see
+ * `BindDynamicFieldRegistry`. Both properties are set before the first change detection.
+ *
+ * @publicApi
+ */
+export interface BindDynamicFieldComponent {
+    field: BindDynamicField;
+    control: AbstractBindControl;
+}
+
+/**
+ * @description
+ * An `InjectionToken` for registering field components with the `BindDynamicFieldRegistry`,
+ * each provider mapping field types to components. Prefer `BindDynamicFormsModule.withFields`.
+ *
+ * @publicApi
+ */
+export const BIND_DYNAMIC_FIELDS = new InjectionToken<Array<{ [type: string]: Type<BindDynamicFieldComponent> }>>('BindDynamicFields');
+
+/**
+ * @description
+ * Lists the components rendering the fields of custom types in `<bind-dynamic-form>`. The
+ * built-in types can be overridden as well.
+ *
+ * @usageNotes
+ *
+ * ### Register a field component
+ *
+ * ```ts
+ * @Component({
+ *   selector: 'app-rating-field',
+ *   template: `<app-rating [formBindControl]="control" [max]="field.max"></app-rating>`,
+ * })
+ * export class RatingFieldComponent implements BindDynamicFieldComponent {
+ *   field: BindDynamicField;
+ *   control: BindFormControl;
+ * }
+ *
+ * @NgModule({ imports: [BindDynamicFormsModule.withFields({ rating: RatingFieldComponent })] })
+ * export class AppModule {}
+ * ```
+ *
+ * @publicApi
+ */
+@Injectable()
+export class BindDynamicFieldRegistry {
+    private _components: { [type: string]: Type<BindDynamicFieldComponent> } = {};
+
+    constructor(@Optional() @Inject(BIND_DYNAMIC_FIELDS) fields: Array<{ [type: string]: Type<BindDynamicFieldComponent> }> | null) {
+        (fields || []).forEach((components) => Object.keys(components).forEach((type) => this.register(type, components[type])));
+    }
+
+    /**
+     * @description
+     * Registers the component rendering the fields of a type. With View Engine, the component
+     * must be an entry component: prefer `BindDynamicFormsModule.withFields`.
+     */
+    register(type: string, component: Type<BindDynamicFieldComponent>): void {
+        this._components[type] = component;
+    }
+
+    /**
+     * @description
+     * Returns the component registered for a type, or null if there is none.
+     */
+    get(type: string): Type<BindDynamicFieldComponent> | null {
+        return this._components.hasOwnProperty(type) ? this._components[type] : null;
+    }
+}
+
+/**
+ * @description
+ * Builds the control of a field: a `BindFormGroup` for `group` fields, a `BindFormArray` for
+ * `array` fields with an item for each entry of the `value` of the field, and a `BindFormControl`
+ * for the other fields.
+ *
+ * @param field The field.
+ * @param value The value of the control, overriding the `value` of the field.
+ *
+ * @publicApi
+ */
+export function createDynamicControl(field: BindDynamicField, value: any = field.value): AbstractBindControl {
+    const validators = (field.validators || []).slice();
+    if (field.required) {
+        validators.push(field.type === 'checkbox' ? BindValidators.requiredTrue : BindValidators.required);
+    }
+    if (field.type === 'group' || field.type === 'array') {
+        const container = field.type === 'group' ? _createGroup(field, value, validators) : _createArray(field, value, validators);
+        if (field.disabled) {
+            container.disable();
+        }
+        return container;
+    }
+    const type = field.type === 'number' ? BindFormControlType.number : BindFormControlType.default;
+    const initial = value !== undefined ? value : field.type === 'checkbox' ? false : null;
+    return new BindFormControl(initial, type, field.disabled, { validators });
+}
+
+function _createGroup(field: BindDynamicField, value: any, validators: BindValidatorFn[]): BindFormGroup {
+    const controls: { [name: string]: AbstractBindControl } = {};
+    (field.fields || []).forEach((child) => (controls[child.name] = createDynamicControl(child, value != null ? value[child.name] : undefined)));
+    return new BindFormGroup(controls, { validators });
+}
+
+function _createArray(field: BindDynamicField, value: any, validators: BindValidatorFn[]): BindFormArray {
+    const items: any[] = Array.isArray(value) ? value : [];
+    const item = field.item || { name: '', type: 'text' };
+    return new BindFormArray(
+        items.map((entry) => createDynamicControl(item, entry)),
+        { validators }
+    );
+}
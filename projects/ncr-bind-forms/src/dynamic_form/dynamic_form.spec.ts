@@ -0,0 +1,182 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { ANALYZE_FOR_ENTRY_COMPONENTS, Component, ViewChild } from '@angular/core';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { BindDynamicFormsModule } from '../form_providers';
+import { AbstractBindControl, BindFormArray, BindFormGroup } from '../model';
+
+import { BindDynamicField, BindDynamicFieldComponent } from './dynamic_field';
+import { BindDynamicFormComponent } from './dynamic_form';
+
+@Component({
+    // tslint:disable-next-line: component-selector
+    selector: 'rating-field',
+    template: '<span class="rating">{{ control.value }} / 5</span>',
+})
+class RatingFieldComponent implements BindDynamicFieldComponent {
+    field!: BindDynamicField;
+    control!: AbstractBindControl;
+}
+
+@Component({
+    template: '<bind-dynamic-form [fields]="fields"></bind-dynamic-form>',
+})
+class DynamicFormHostComponent {
+    @ViewChild(BindDynamicFormComponent, { static: true }) dynamicForm!: BindDynamicFormComponent;
+    fields: BindDynamicField[] = [
+        { name: 'name', type: 'text', label: 'Name', value: 'Ada' },
+        { name: 'bio', type: 'textarea', value: 'Mathematician' },
+        { name: 'age', type: 'number', value: 36 },
+        { name: 'terms', type: 'checkbox', label: 'Accept' },
+        {
+            name: 'plan',
+            type: 'radio',
+            label: 'Plan',
+            options: [
+                { label: 'Free', value: 'free' },
+                { label: 'Pro', value: 'pro' },
+            ],
+            value: 'free',
+        },
+        {
+            name: 'currency',
+            type: 'select',
+            options: [
+                { label: 'Euro', value: 'EUR' },
+                { label: 'Dollar', value: 'USD' },
+            ],
+            value: 'EUR',
+        },
+        { name: 'volume', type: 'range', min: 0, max: 10, value: 5 },
+        { name: 'score', type: 'rating', value: 4 },
+        { name: 'address', type: 'group', label: 'Address', fields: [{ name: 'city', type: 'text', value: 'London' }] },
+        { name: 'phones', type: 'array', label: 'Phones', item: { name: 'phone', type: 'text' }, value: ['0102'] },
+    ];
+}
+
+describe('BindDynamicFormComponent', () => {
+    let fixture: ComponentFixture<DynamicFormHostComponent>;
+    let form: BindFormGroup;
+
+    function query<T extends Element>(selector: string): T {
+        return fixture.nativeElement.querySelector(selector);
+    }
+
+    function queryAll<T extends Element>(selector: string): T[] {
+        return Array.from(fixture.nativeElement.querySelectorAll(selector));
+    }
+
+    function dispatch(element: Element, type: string): void {
+        element.dispatchEvent(new Event(type));
+        fixture.detectChanges();
+    }
+
+    beforeEach(() => {
+        TestBed.configureTestingModule({
+            imports: [BindDynamicFormsModule.withFields({ rating: RatingFieldComponent })],
+            declarations: [DynamicFormHostComponent, RatingFieldComponent],
+        });
+        fixture = TestBed.createComponent(DynamicFormHostComponent);
+        fixture.detectChanges();
+        form = fixture.componentInstance.dynamicForm.form;
+    });
+
+    it('should declare the registered components as entry components', () => {
+        const providers = BindDynamicFormsModule.withFields({ rating: RatingFieldComponent }).providers;
+
+        // tslint:disable-next-line: deprecation
+        expect(providers).toContain({ provide: ANALYZE_FOR_ENTRY_COMPONENTS, useValue: { rating: RatingFieldComponent }, multi: true });
+    });
+
+    it('should render text, textarea and number fields', () => {
+        const name = query<HTMLInputElement>('input[type="text"]');
+        const bio = query<HTMLTextAreaElement>('textarea');
+        const age = query<HTMLInputElement>('input[type="number"]');
+        expect(name.value).toBe('Ada');
+        expect(query<HTMLLabelElement>(`label[for="${name.id}"]`).textContent!.trim()).toBe('Name');
+        expect(bio.value).toBe('Mathematician');
+        expect(age.value).toBe('36');
+
+        name.value = 'Grace';
+        dispatch(name, 'input');
+        bio.value = 'Admiral';
+        dispatch(bio, 'input');
+        age.value = '85';
+        dispatch(age, 'input');
+
+        expect(form.value.name).toBe('Grace');
+        expect(form.value.bio).toBe('Admiral');
+        expect(form.value.age).toBe(85);
+    });
+
+    it('should render checkbox, radio, select and range fields', () => {
+        const terms = query<HTMLInputElement>('input[type="checkbox"]');
+        const plans = queryAll<HTMLInputElement>('input[type="radio"]');
+        const currency = query<HTMLSelectElement>('select');
+        const volume = query<HTMLInputElement>('input[type="range"]');
+        expect(terms.checked).toBe(false);
+        expect(plans.map((plan) => plan.checked)).toEqual([true, false]);
+        expect(currency.options.length).toBe(2);
+        expect(volume.value).toBe('5');
+
+        terms.click();
+        plans[1].click();
+        currency.value = currency.options[1].value;
+        dispatch(currency, 'change');
+        volume.value = '8';
+        dispatch(volume, 'input');
+
+        expect(form.value.terms).toBe(true);
+        expect(form.value.plan).toBe('pro');
+        expect(form.value.currency).toBe('USD');
+        expect(form.value.volume).toBe(8);
+    });
+
+    it('should render the registered field components', () => {
+        expect(query('rating-field .rating').textContent).toBe('4 / 5');
+
+        form.get('score')!.setValue(5);
+        fixture.detectChanges();
+        expect(query('rating-field .rating').textContent).toBe('5 / 5');
+    });
+
+    it('should render nested groups', () => {
+        const fieldset = query<HTMLFieldSetElement>('fieldset.bind-dynamic-group');
+        const city = fieldset.querySelector('input') as HTMLInputElement;
+        expect(fieldset.querySelector('legend')!.textContent!.trim()).toBe('Address');
+        expect(city.value).toBe('London');
+
+        city.value = 'Paris';
+        dispatch(city, 'input');
+
+        expect(form.value.address).toEqual({ city: 'Paris' });
+    });
+
+    it('should add and remove the items of arrays', () => {
+        const phones = form.get('phones') as BindFormArray;
+        expect(queryAll('.bind-dynamic-item').length).toBe(1);
+
+        query<HTMLButtonElement>('.bind-dynamic-add').click();
+        fixture.detectChanges();
+        const inputs = queryAll<HTMLInputElement>('.bind-dynamic-item input');
+        expect(phones.length).toBe(2);
+        expect(inputs.length).toBe(2);
+        expect(phones.dirty).toBe(true);
+
+        inputs[1].value = '0304';
+        dispatch(inputs[1], 'input');
+        expect(phones.value).toEqual(['0102', '0304']);
+
+        queryAll<HTMLButtonElement>('.bind-dynamic-remove')[0].click();
+        fixture.detectChanges();
+        expect(phones.value).toEqual(['0304']);
+        expect(queryAll<HTMLInputElement>('.bind-dynamic-item input').map((input) => input.value)).toEqual(['0304']);
+    });
+});
@@ -0,0 +1,289 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import {
+    Component,
+    ComponentFactoryResolver,
+    ComponentRef,
+    Directive,
+    EventEmitter,
+    Input,
+    OnChanges,
+    OnDestroy,
+    Output,
+    SimpleChanges,
+    Type,
+    ViewContainerRef,
+} from '@angular/core';
+
+import { AbstractBindControl, BindFormArray, BindFormGroup } from '../model';
+
+import { BindDynamicField, BindDynamicFieldComponent, BindDynamicFieldRegistry, createDynamicControl } from './dynamic_field';
+
+let nextId = 0;
+
+function _gridStyle(columns: number): { [property: string]: string } {
+    return { display: 'grid', 'grid-template-columns': `repeat(${columns}, minmax(0, 1fr))` };
+}
+
+function _cellStyle(field: BindDynamicField, columns: number): { [property: string]: string } {
+    const layout = field.layout || {};
+    return { 'grid-column': `${layout.newRow ? '1 / ' : ''}span ${Math.min(layout.span || columns, columns)}` };
+}
+
+/**
+ * @description
+ * Renders a field component registered in the `BindDynamicFieldRegistry`. For internal use only.
+ */
+@Directive({
+    // tslint:disable-next-line: directive-selector
+    selector: '[bindDynamicFieldHost]',
+})
+export class BindDynamicFieldHostDirective implements OnChanges, OnDestroy {
+    @Input('bindDynamicFieldHost') component!: Type<BindDynamicFieldComponent>;
+    @Input() field!: BindDynamicField;
+    @Input() control!: AbstractBindControl;
+
+    private _componentRef: ComponentRef<BindDynamicFieldComponent> | null = null;
+
+    constructor(private _viewContainerRef: ViewContainerRef, private _resolver: ComponentFactoryResolver) {}
+
+    ngOnChanges(changes: SimpleChanges): void {
+        if (changes.component) {
+            this._viewContainerRef.clear();
+            this._componentRef = this._viewContainerRef.createComponent(this._resolver.resolveComponentFactory(this.component));
+        }
+        const instance = this._componentRef!.instance;
+        instance.field = this.field;
+        instance.control = this.control;
+    }
+
+    ngOnDestroy(): void {
+        this._viewContainerRef.clear();
+    }
+}
+
+/**
+ * @description
+ * Renders a field of a `<bind-dynamic-form>`, with the value accessor matching its type. For
+ * internal use only.
+ */
+@Component({
+    // tslint:disable-next-line: component-selector
+    selector: 'bind-dynamic-field',
+    template: `
+        <ng-container [ngSwitch]="kind">
+            <ng-container *ngSwitchCase="'custom'">
+                <ng-container [bindDynamicFieldHost]="component" [field]="field" [control]="control"></ng-container>
+            </ng-container>
+            <fieldset *ngSwitchCase="'group'" class="bind-dynamic-group">
+                <legend *ngIf="field.label">{{ field.label }}</legend>
+                <div class="bind-dynamic-grid" [ngStyle]="gridStyle()">
+                    <bind-dynamic-field
+                        *ngFor="let child of field.fields"
+                        [field]="child"
+                        [control]="control.get(child.name)"
+                        [columns]="columns"
+                        [ngStyle]="cellStyle(child)"
+                        [ngClass]="child.layout?.className"
+                    ></bind-dynamic-field>
+                </div>
+            </fieldset>
+            <fieldset *ngSwitchCase="'array'" class="bind-dynamic-array">
+                <legend *ngIf="field.label">{{ field.label }}</legend>
+                <div *ngFor="let item of items; let i = index" class="bind-dynamic-item">
+                    <bind-dynamic-field [field]="field.item" [control]="item" [columns]="columns"></bind-dynamic-field>
+                    <button type="button" class="bind-dynamic-remove" [disabled]="control.disabled" (click)="removeItem(i)">{{ field.removeLabel || 'Remove' }}</button>
+                </div>
+                <button type="button" class="bind-dynamic-add" [disabled]="control.disabled" (click)="addItem()">{{ field.addLabel || 'Add' }}</button>
+            </fieldset>
+            <ng-container *ngSwitchDefault [ngSwitch]="field.type">
+                <label *ngSwitchCase="'checkbox'" class="bind-dynamic-label">
+                    <input type="checkbox" [id]="id" [formBindControl]="control" />
+                    {{ field.label }}
+                </label>
+                <div *ngSwitchCase="'radio'" role="radiogroup" [attr.aria-labelledby]="id">
+                    <span *ngIf="field.label" class="bind-dynamic-label" [id]="id">{{ field.label }}</span>
+                    <label *ngFor="let option of field.options">
+                        <input type="radio" [name]="id" [value]="option.value" [formBindControl]="control" [attr.disabled]="option.disabled ? '' : null" />
+                        {{ option.label }}
+                    </label>
+                </div>
+                <ng-container *ngSwitchDefault>
+                    <label *ngIf="field.label" class="bind-dynamic-label" [attr.for]="id">{{ field.label }}</label>
+                    <ng-container [ngSwitch]="field.type">
+                        <input
+                            *ngSwitchCase="'number'"
+                            type="number"
+                            [id]="id"
+                            [formBindControl]="control"
+                            [attr.min]="field.min"
+                            [attr.max]="field.max"
+                            [attr.step]="field.step"
+                            [attr.placeholder]="field.placeholder"
+                        />
+                        <input *ngSwitchCase="'range'" type="range" [id]="id" [formBindControl]="control" [attr.min]="field.min" [attr.max]="field.max" [attr.step]="field.step" />
+                        <select *ngSwitchCase="'select'" [id]="id" [formBindControl]="control">
+                            <option *ngFor="let option of field.options" [ngValue]="option.value" [disabled]="option.disabled">{{ option.label }}</option>
+                        </select>
+                        <textarea *ngSwitchCase="'textarea'" [id]="id" [formBindControl]="control" [attr.placeholder]="field.placeholder"></textarea>
+                        <input *ngSwitchDefault [type]="field.inputType || 'text'" [id]="id" [formBindControl]="control" [attr.placeholder]="field.placeholder" />
+                    </ng-container>
+                </ng-container>
+            </ng-container>
+            <small *ngIf="field.hint" class="bind-dynamic-hint">{{ field.hint }}</small>
+        </ng-container>
+    `,
+})
+export class BindDynamicFieldOutletComponent implements OnChanges {
+    @Input() field!: BindDynamicField;
+    @Input() control!: AbstractBindControl;
+    @Input() columns = 12;
+
+    /**
+     * The id of the input of the field, also naming its radio group.
+     */
+    readonly id = `bind-dynamic-field-${nextId++}`;
+
+    kind: 'custom' | 'group' | 'array' | 'control' = 'control';
+    component: Type<BindDynamicFieldComponent> | null = null;
+
+    constructor(private _registry: BindDynamicFieldRegistry) {}
+
+    get items(): AbstractBindControl[] {
+        return (this.control as BindFormArray).controls;
+    }
+
+    ngOnChanges(changes: SimpleChanges): void {
+        if (changes.field) {
+            this.component = this._registry.get(this.field.type);
+            this.kind = this.component ? 'custom' : this.field.type === 'group' || this.field.type === 'array' ? this.field.type : 'control';
+        }
+    }
+
+    gridStyle(): { [property: string]: string } {
+        return _gridStyle(this.columns);
+    }
+
+    cellStyle(field: BindDynamicField): { [property: string]: string } {
+        return _cellStyle(field, this.columns);
+    }
+
+    addItem(): void {
+        (this.control as BindFormArray).push(createDynamicControl(this.field.item || { name: '', type: 'text' }));
+        this.control.markAsDirty();
+    }
+
+    removeItem(index: number): void {
+        (this.control as BindFormArray).removeAt(index);
+        this.control.markAsDirty();
+    }
+}
+
+/**
+ * @description
+ * Renders a form from a list of field definitions, binding each field to its control with the
+ * value accessor matching its type: the default, number, checkbox, radio, select and range
+ * accessors. Groups are rendered as fieldsets and arrays as repeatable lists of items. Other
+ * field types are rendered by the components registered in the `BindDynamicFieldRegistry`.
+ *
+ * The form is bound with a `BindFormGroupDirective`. When no `form` is bound to the component,
+ * one is built from the fields with `createDynamicControl`.
+ *
+ * @usageNotes
+ *
+ * ### Render a form
+ *
+ * ```ts
+ * fields: BindDynamicField[] = [
+ *   { name: 'name', type: 'text', label: 'Name', required: true, layout: { span: 8 } },
+ *   { name: 'age', type: 'number', label: 'Age', min: 0, layout: { span: 4 } },
+ *   { name: 'plan', type: 'select', label: 'Plan', options: [{ label: 'Free', value: 'free' }, { label: 'Pro', value: 'pro' }] },
+ *   {
+ *     name: 'phones',
+ *     type: 'array',
+ *     label: 'Phones',
+ *     item: { name: 'phone', type: 'text', inputType: 'tel' },
+ *   },
+ * ];
+ * ```
+ *
+ * ```
+ * <bind-dynamic-form [fields]="fields" (formSubmit)="save($event)" #dynamicForm="bindDynamicForm">
+ *   <button [disabled]="dynamicForm.form.invalid">Save</button>
+ * </bind-dynamic-form>
+ * ```
+ *
+ * @ngModule BindDynamicFormsModule
+ * @publicApi
+ */
+@Component({
+    // tslint:disable-next-line: component-selector
+    selector: 'bind-dynamic-form',
+    exportAs: 'bindDynamicForm',
+    template: `
+        <form class="bind-dynamic-form" [bindFormGroup]="form" (ngSubmit)="formSubmit.emit(form.value)">
+            <div class="bind-dynamic-grid" [ngStyle]="gridStyle()">
+                <bind-dynamic-field
+                    *ngFor="let field of fields"
+                    [field]="field"
+                    [control]="form.get(field.name)"
+                    [columns]="columns"
+                    [ngStyle]="cellStyle(field)"
+                    [ngClass]="field.layout?.className"
+                ></bind-dynamic-field>
+            </div>
+            <ng-content></ng-content>
+        </form>
+    `,
+})
+export class BindDynamicFormComponent implements OnChanges {
+    /**
+     * @description
+     * The fields of the form.
+     */
+    @Input() fields: BindDynamicField[] = [];
+
+    /**
+     * @description
+     * The group the fields are bound to, each field being bound to the control of its name.
+     * Built from the fields when not supplied.
+     */
+    @Input() form: BindFormGroup = new BindFormGroup({});
+
+    /**
+     * @description
+     * The number of columns of the grid the fields are laid out on. Defaults to 12.
+     */
+    @Input() columns = 12;
+
+    /**
+     * @description
+     * Emits the value of the form when it's submitted.
+     */
+    @Output() formSubmit = new EventEmitter<any>();
+
+    private _ownForm = true;
+
+    ngOnChanges(changes: SimpleChanges): void {
+        if (changes.form) {
+            this._ownForm = !this.form;
+        }
+        if (this._ownForm && (changes.fields || changes.form)) {
+            this.form = createDynamicControl({ name: '', type: 'group', fields: this.fields }) as BindFormGroup;
+        }
+    }
+
+    gridStyle(): { [property: string]: string } {
+        return _gridStyle(this.columns);
+    }
+
+    cellStyle(field: BindDynamicField): { [property: string]: string } {
+        return _cellStyle(field, this.columns);
+    }
+}
@@ -0,0 +1,119 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { BindFormControlType } from './control_types';
+import { BindFormBuilder } from './form_builder';
+import { BindJsonSchema, BindSchemaIssue } from './json_schema';
+import { BindFormArray, BindFormControl, BindFormGroup } from './model';
+
+describe('BindFormBuilder.fromSchema', () => {
+    const fb = new BindFormBuilder();
+    let issues: BindSchemaIssue[];
+
+    const schema: BindJsonSchema = {
+        $schema: 'http://json-schema.org/draft-07/schema#',
+        type: 'object',
+        required: ['reference', 'lines'],
+        definitions: {
+            address: {
+                type: 'object',
+                properties: { city: { type: 'string', default: 'Paris' } },
+            },
+        },
+        properties: {
+            reference: { type: 'string', pattern: '[A-Z]-\\d+', maxLength: 8 },
+            signedOn: { type: ['string', 'null'], format: 'date' },
+            currency: { type: 'string', enum: ['EUR', 'USD'] },
+            password: { type: 'string', writeOnly: true },
+            address: { $ref: '#/definitions/address' },
+            lines: {
+                type: 'array',
+                minItems: 1,
+                items: { type: 'object', properties: { quantity: { type: 'integer', minimum: 1 } } },
+            },
+        },
+    };
+
+    beforeEach(() => {
+        issues = [];
+    });
+
+    function build(value?: any): BindFormGroup {
+        return fb.fromSchema(schema, { value, onUnsupported: (issue) => issues.push(issue) });
+    }
+
+    it('should build nested groups, arrays and controls', () => {
+        const form = build({ lines: [{ quantity: 2 }] });
+
+        expect(form.get('address') instanceof BindFormGroup).toBe(true);
+        expect(form.get('lines') instanceof BindFormArray).toBe(true);
+        expect(form.get('lines.0.quantity') instanceof BindFormControl).toBe(true);
+        expect(form.value).toEqual({ reference: null, signedOn: null, currency: null, password: null, address: { city: 'Paris' }, lines: [{ quantity: 2 }] });
+        expect(issues).toEqual([]);
+    });
+
+    it('should map types and formats to control types', () => {
+        const form = build({ lines: [{ quantity: '3' }] });
+
+        expect((form.get('signedOn') as BindFormControl).type).toEqual(BindFormControlType.date);
+        expect((form.get('lines.0.quantity') as BindFormControl).type).toEqual(BindFormControlType.number);
+        expect(form.get('lines.0.quantity')!.value).toEqual(3);
+    });
+
+    it('should translate the keywords into validators', () => {
+        const form = build({ reference: 'contract A-12', currency: 'GBP', lines: [{ quantity: 1.5 }] });
+
+        expect(form.get('reference')!.errors).toEqual({ maxlength: { requiredLength: 8, actualLength: 13 } });
+        expect(form.get('currency')!.errors).toEqual({ allowedValues: { allowedValues: ['EUR', 'USD'], actualValue: 'GBP' } });
+        expect(form.get('lines.0.quantity')!.errors).toEqual({ integer: { actual: 1.5 } });
+
+        form.get('reference')!.setValue('');
+        expect(form.get('reference')!.errors).toEqual({ required: true });
+        form.get('lines.0.quantity')!.setValue(0);
+        expect(form.get('lines.0.quantity')!.hasError('min')).toBe(true);
+        (form.get('lines') as BindFormArray).removeAt(0);
+        expect(form.get('lines')!.hasError('required')).toBe(true);
+    });
+
+    it('should make write-only properties sensitive', () => {
+        const form = build();
+
+        expect(form.get('password')!.sensitive).toBe(true);
+        expect(form.get('reference')!.sensitive).toBe(false);
+    });
+
+    it('should report the unsupported keywords', () => {
+        fb.fromSchema(
+            { type: 'object', properties: { price: { type: 'number', multipleOf: 0.01 }, site: { type: 'string', format: 'uri' } } },
+            { onUnsupported: (issue) => issues.push(issue) }
+        );
+
+        expect(issues).toEqual([
+            { path: '/properties/price', keyword: 'multipleOf', message: 'The "multipleOf" keyword is not supported.' },
+            { path: '/properties/site', keyword: 'format', message: 'The "uri" format is not supported.' },
+        ]);
+    });
+
+    it('should report the patterns that are not valid regular expressions', () => {
+        const form = fb.fromSchema({ type: 'object', properties: { code: { type: 'string', pattern: '[a-z' } } }, { onUnsupported: (issue) => issues.push(issue) });
+
+        expect(issues).toEqual([{ path: '/properties/code', keyword: 'pattern', message: 'The "[a-z" pattern is not a valid regular expression.' }]);
+        expect(form.get('code')!.validator).toBeNull();
+    });
+
+    it('should warn about unsupported keywords without handler in development mode', () => {
+        spyOn(console, 'warn');
+        fb.fromSchema({ type: 'object', properties: { kind: { oneOf: [{ const: 'a' }, { const: 'b' }] } } });
+
+        expect(console.warn).toHaveBeenCalledWith('Unsupported JSON Schema keywords:\n  /properties/kind: The "oneOf" keyword is not supported.');
+    });
+
+    it('should throw for schemas not describing an object', () => {
+        expect(() => fb.fromSchema({ type: 'string' })).toThrowError('The schema of a form must describe an object.');
+    });
+});
@@ -6,17 +6,32 @@
  * found in the LICENSE file at https://angular.io/license
  */
 
-import { Injectable } from '@angular/core';
+import { Injectable, isDevMode } from '@angular/core';
 
 import { AsyncBindValidatorFn, BindValidatorFn } from './directives/validators';
-import { AbstractBindControl, AbstractBindControlOptions, BindFormArray, BindFormControl, BindFormGroup, BindFormHooks } from './model';
-import { BindFormControlType } from './model';
+import {
+    AbstractBindControl,
+    AbstractBindControlOptions,
+    BindControlsArrayOf,
+    BindControlsOf,
+    BindFormArray,
+    BindFormControl,
+    BindFormGroup,
+    BindFormHooks,
+    BindFormRecord,
+    BindFormRecordOptions,
+    BindFormState,
+    BindNoInfer,
+} from './model';
+import { BindFormControlType } from './control_types';
+import { BindJsonSchema, BindSchemaIssue, BindSchemaOptions, SchemaControlBuilder } from './json_schema';
 
 function isAbstractControlOptions(options: AbstractBindControlOptions | { [key: string]: any }): options is AbstractBindControlOptions {
     return (
         (options as AbstractBindControlOptions).asyncValidators !== undefined ||
         (options as AbstractBindControlOptions).validators !== undefined ||
-        (options as AbstractBindControlOptions).updateOn !== undefined
+        (options as AbstractBindControlOptions).updateOn !== undefined ||
+        (options as AbstractBindControlOptions).dependsOn !== undefined
     );
 }
 
@@ -39,7 +54,8 @@ export class BindFormBuilder {
      * Construct a new `BindFormGroup` instance.
      *
      * @param controlsConfig A collection of child controls. The key for each child is the name
-     * under which it is registered.
+     * under which it is registered. Pass the value type `T` explicitly to get a typed group
+     * whose keys are checked against it.
      *
      * @param options Configuration options object for the `BindFormGroup`. The object can
      * have two shapes:
@@ -49,18 +65,23 @@ export class BindFormBuilder {
      * * `asyncValidators`: A single async validator or array of async validator functions
      * * `updateOn`: The event upon which the control should be updated (options: 'change' | 'blur' |
      * submit')
+     * * `dependsOn`: The paths of the controls the group depends on
      *
      * 2) Legacy configuration object, which consists of:
      * * `validator`: A synchronous validator function, or an array of validator functions
      * * `asyncValidator`: A single async validator or array of async validator functions
      *
      */
-    group(controlsConfig: { [key: string]: any }, options: AbstractBindControlOptions | { [key: string]: any } | null = null): BindFormGroup {
-        const controls = this._reduceControls(controlsConfig);
+    group<T extends { [key: string]: any } = any>(
+        controlsConfig: { [K in keyof BindNoInfer<T>]: any },
+        options: AbstractBindControlOptions | { [key: string]: any } | null = null
+    ): BindFormGroup<T> {
+        const controls = this._reduceControls<BindNoInfer<T>>(controlsConfig);
 
         let validators: BindValidatorFn | BindValidatorFn[] | null = null;
         let asyncValidators: AsyncBindValidatorFn | AsyncBindValidatorFn[] | null = null;
         let updateOn: BindFormHooks | undefined = undefined;
+        let dependsOn: string[] | undefined = undefined;
 
         if (options != null) {
             if (isAbstractControlOptions(options)) {
@@ -68,6 +89,7 @@ export class BindFormBuilder {
                 validators = options.validators != null ? options.validators : null;
                 asyncValidators = options.asyncValidators != null ? options.asyncValidators : null;
                 updateOn = options.updateOn != null ? options.updateOn : undefined;
+                dependsOn = options.dependsOn != null ? options.dependsOn : undefined;
             } else {
                 // `options` are legacy form group options
                 validators = options.validator != null ? options.validator : null;
@@ -75,7 +97,7 @@ export class BindFormBuilder {
             }
         }
 
-        return new BindFormGroup(controls, { asyncValidators, updateOn, validators });
+        return new BindFormGroup<T>(controls, { asyncValidators, updateOn, validators, dependsOn });
     }
 
     /**
@@ -83,7 +105,8 @@ export class BindFormBuilder {
      * Construct a new `BindFormControl` with the given state, validators and options.
      *
      * @param formState Initializes the control with an initial state value, or
-     * with an object that contains both a value and a disabled status.
+     * with an object that contains both a value and a disabled status. Pass the value
+     * type `T` explicitly to get a typed control.
      *
      * @param validatorOrOpts A synchronous validator function, or an array of
      * such functions, or an `AbstractBindControlOptions` object that contains
@@ -101,14 +124,14 @@ export class BindFormBuilder {
      * <code-example path="forms/ts/formBuilder/form_builder_example.ts" region="disabled-control">
      * </code-example>
      */
-    control(
-        formState: any,
+    control<T = any>(
+        formState: BindFormState<BindNoInfer<T>> | null,
         type?: BindFormControlType,
         disabled?: boolean,
         validatorOrOpts?: BindValidatorFn | BindValidatorFn[] | AbstractBindControlOptions | null,
         asyncValidator?: AsyncBindValidatorFn | AsyncBindValidatorFn[] | null
-    ): BindFormControl {
-        return new BindFormControl(formState, type, disabled, validatorOrOpts, asyncValidator);
+    ): BindFormControl<T> {
+        return new BindFormControl<T>(formState, type, disabled, validatorOrOpts, asyncValidator);
     }
 
     /**
@@ -116,7 +139,8 @@ export class BindFormBuilder {
      * validators and options.
      *
      * @param controlsConfig An array of child controls or control configs. Each
-     * child control is given an index when it is registered.
+     * child control is given an index when it is registered. Pass the item value
+     * type `T` explicitly to get a typed array.
      *
      * @param validatorOrOpts A synchronous validator function, or an array of
      * such functions, or an `AbstractBindControlOptions` object that contains
@@ -125,27 +149,95 @@ export class BindFormBuilder {
      * @param asyncValidator A single async validator or array of async validator
      * functions.
      */
-    array(
+    array<T = any>(
         controlsConfig: any[],
         validatorOrOpts?: BindValidatorFn | BindValidatorFn[] | AbstractBindControlOptions | null,
         asyncValidator?: AsyncBindValidatorFn | AsyncBindValidatorFn[] | null
-    ): BindFormArray {
-        const controls = controlsConfig.map((c) => this._createControl(c));
-        return new BindFormArray(controls, validatorOrOpts, asyncValidator);
+    ): BindFormArray<T> {
+        return new BindFormArray<T>(this._createControls<BindNoInfer<T>>(controlsConfig), validatorOrOpts, asyncValidator);
+    }
+
+    /**
+     * @description
+     * Constructs a new `BindFormRecord`, whose keys follow the values it is set to.
+     *
+     * @param controlsConfig The initial child controls or control configs, by key. Pass the
+     * value type `V` of the keys explicitly to get a typed record.
+     *
+     * @param options Configuration options object for the `BindFormRecord`: validators, the
+     * `controlFactory` creating the controls of the added keys and the `keyPattern` the keys
+     * must match.
+     */
+    record<V = any>(controlsConfig: { [key: string]: any } = {}, options: BindFormRecordOptions<V> | null = null): BindFormRecord<V> {
+        return new BindFormRecord<V>(this._reduceControls<{ [key: string]: V }>(controlsConfig), options);
+    }
+
+    /**
+     * @description
+     * Constructs a new `BindFormGroup` from a JSON Schema describing an object.
+     *
+     * The `properties` become controls, groups and arrays, `integer` and `number` properties
+     * becoming `number` controls, checked by `BindValidators.integer` for `integer` ones, and
+     * the `date` and `date-time` formats `date` controls. The
+     * `required`, `minLength`, `maxLength`, `pattern`, `minimum`, `maximum`, `enum`, `const`,
+     * `minItems` and `maxItems` keywords become `BindValidators`, `writeOnly` properties become
+     * `sensitive` and `$ref` references to the same document are followed. Arrays get a control
+     * for each item of their value.
+     *
+     * The keywords that cannot be translated, such as `multipleOf` or `oneOf`, are reported to
+     * `options.onUnsupported`, or logged as a warning in development mode.
+     *
+     * @usageNotes
+     *
+     * ### Build a form from a schema
+     *
+     * ```ts
+     * const form = fb.fromSchema({
+     *   type: 'object',
+     *   required: ['email'],
+     *   properties: {
+     *     email: { type: 'string', format: 'email' },
+     *     age: { type: 'integer', minimum: 18 },
+     *   },
+     * });
+     *
+     * console.log(form.get('email').errors); // {required: true}
+     * ```
+     *
+     * @param schema The schema of the form, of type `object`.
+     * @param options The initial value of the form and the handler of the unsupported keywords.
+     */
+    fromSchema<T extends { [key: string]: any } = any>(schema: BindJsonSchema, options: BindSchemaOptions = {}): BindFormGroup<T> {
+        const builder = new SchemaControlBuilder(schema);
+        const form = builder.build(schema, options.value, '', false);
+        if (!(form instanceof BindFormGroup)) {
+            throw new Error('The schema of a form must describe an object.');
+        }
+        if (options.onUnsupported) {
+            builder.issues.forEach(options.onUnsupported);
+        } else if (builder.issues.length && isDevMode()) {
+            console.warn(`Unsupported JSON Schema keywords:\n${builder.issues.map((issue: BindSchemaIssue) => `  ${issue.path || '/'}: ${issue.message}`).join('\n')}`);
+        }
+        return form as BindFormGroup<T>;
     }
 
     /** @internal */
-    _reduceControls(controlsConfig: { [k: string]: any }): { [key: string]: AbstractBindControl } {
+    _reduceControls<T>(controlsConfig: { [K in keyof T]: any }): BindControlsOf<T> {
         const controls: { [key: string]: AbstractBindControl } = {};
         Object.keys(controlsConfig).forEach((controlName) => {
-            controls[controlName] = this._createControl(controlsConfig[controlName]);
+            controls[controlName] = this._createControl(controlsConfig[controlName as keyof T]);
         });
-        return controls;
+        return controls as BindControlsOf<T>;
+    }
+
+    /** @internal */
+    _createControls<T>(controlsConfig: any[]): BindControlsArrayOf<T> {
+        return controlsConfig.map((c) => this._createControl<T>(c)) as BindControlsArrayOf<T>;
     }
 
     /** @internal */
-    _createControl(controlConfig: any): AbstractBindControl {
-        if (controlConfig instanceof BindFormControl || controlConfig instanceof BindFormGroup || controlConfig instanceof BindFormArray) {
+    _createControl<T = any>(controlConfig: any): AbstractBindControl<T> {
+        if (controlConfig instanceof AbstractBindControl) {
             return controlConfig;
         } else if (Array.isArray(controlConfig)) {
             const value = controlConfig[0];
@@ -153,9 +245,9 @@ export class BindFormBuilder {
             const disabled = controlConfig[2] as boolean;
             const validator: BindValidatorFn = controlConfig.length > 2 ? controlConfig[3] : null;
             const asyncValidator: AsyncBindValidatorFn = controlConfig.length > 3 ? controlConfig[4] : null;
-            return this.control(value, type, disabled, validator, asyncValidator);
+            return this.control<T>(value, type, disabled, validator, asyncValidator);
         } else {
-            return this.control(controlConfig);
+            return this.control<T>(controlConfig);
         }
     }
 }
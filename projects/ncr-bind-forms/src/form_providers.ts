@@ -6,11 +6,14 @@
  * found in the LICENSE file at https://angular.io/license
  */
 
-import { ModuleWithProviders, NgModule } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ANALYZE_FOR_ENTRY_COMPONENTS, ModuleWithProviders, NgModule, Type } from '@angular/core';
 
 // tslint:disable-next-line: max-line-length
 import { InternalBindFormsSharedModule, NG_MODEL_WITH_FORM_CONTROL_WARNING, BIND_REACTIVE_DRIVEN_DIRECTIVES, BIND_TEMPLATE_DRIVEN_DIRECTIVES } from './directives';
 import { RadioControlRegistry } from './directives/radio_control_value_accessor';
+import { BindDynamicFieldHostDirective, BindDynamicFieldOutletComponent, BindDynamicFormComponent } from './dynamic_form/dynamic_form';
+import { BIND_DYNAMIC_FIELDS, BindDynamicFieldComponent, BindDynamicFieldRegistry } from './dynamic_form/dynamic_field';
 import { BindFormBuilder } from './form_builder';
 
 /**
@@ -63,3 +66,44 @@ export class BindReactiveFormsModule {
         };
     }
 }
+
+/**
+ * Exports the `<bind-dynamic-form>` component, rendering forms from field definitions.
+ *
+ * @see `BindDynamicFormComponent`
+ *
+ * @publicApi
+ */
+@NgModule({
+    imports: [CommonModule, BindReactiveFormsModule],
+    declarations: [BindDynamicFormComponent, BindDynamicFieldOutletComponent, BindDynamicFieldHostDirective],
+    providers: [BindDynamicFieldRegistry],
+    exports: [BindDynamicFormComponent],
+})
+export class BindDynamicFormsModule {
+    /**
+     * @description
+     * Registers the components rendering the fields of custom types, declaring them as entry
+     * components for the applications compiled with View Engine.
+     *
+     * @param components The components, by field type.
+     */
+    static withFields(components: { [type: string]: Type<BindDynamicFieldComponent> }): ModuleWithProviders<BindDynamicFormsModule> {
+        return {
+            ngModule: BindDynamicFormsModule,
+            providers: [
+                {
+                    provide: BIND_DYNAMIC_FIELDS,
+                    useValue: components,
+                    multi: true,
+                },
+                {
+                    // tslint:disable-next-line: deprecation
+                    provide: ANALYZE_FOR_ENTRY_COMPONENTS,
+                    useValue: components,
+                    multi: true,
+                },
+            ],
+        };
+    }
+}
@@ -20,11 +20,14 @@
 export { ɵInternalBindFormsSharedModule } from './directives';
 export { AbstractBindControlDirective } from './directives/abstract_control_directive';
 export { AbstractBindFormGroupDirective } from './directives/abstract_form_group_directive';
+export { BindAutosaveDirective } from './directives/autosave';
 export { CheckboxControlBindValueAccessor } from './directives/checkbox_value_accessor';
 export { BindControlContainer } from './directives/control_container';
 export { ControlBindValueAccessor, NG_BIND_VALUE_ACCESSOR } from './directives/control_value_accessor';
+export { DateBindValueAccessor } from './directives/date_value_accessor';
 export { COMPOSITION_BUFFER_MODE, DefaultBindValueAccessor } from './directives/default_value_accessor';
 export { BindForm } from './directives/form_interface';
+export { MaskBindValueAccessor } from './directives/mask_value_accessor';
 export { NgBindControl } from './directives/ng_control';
 export { NgControlStatus, NgBindControlStatusGroup } from './directives/ng_control_status';
 export { NgBindFormDirective } from './directives/ng_form';
@@ -39,12 +42,15 @@ export { BindFormControlName } from './directives/reactive_directives/form_contr
 export { BindFormGroupDirective } from './directives/reactive_directives/form_group_directive';
 export { BindFormArrayName } from './directives/reactive_directives/form_group_name';
 export { BindFormGroupName } from './directives/reactive_directives/form_group_name';
+export { BindFormRecordName } from './directives/reactive_directives/form_group_name';
 export { NgSelectOption, SelectControlBindValueAccessor } from './directives/select_control_value_accessor';
 export { SelectMultipleControlBindValueAccessor } from './directives/select_multiple_control_value_accessor';
 export { ɵNgSelectMultipleOption } from './directives/select_multiple_control_value_accessor';
+export { BindVisibleDirective } from './directives/visible';
 export {
     AsyncBindValidator,
     AsyncBindValidatorFn,
+    AsyncBindValidatorOptions,
     CheckboxRequiredValidator,
     EmailValidator,
     MaxLengthValidator,
@@ -52,14 +58,70 @@ export {
     PatternValidator,
     RequiredValidator,
     ValidationBindErrors,
+    ValidationBindErrorItem,
     ErrorItemType,
     BindValidator,
     BindValidatorFn,
 } from './directives/validators';
 
+export { AsyncBindValidatorFailure, AsyncBindValidatorFailurePolicy, setAsyncValidatorFailureHandler } from './async_validation';
+export { BindFormControlType } from './control_types';
+export { BindServerError, BindServerErrorMapper } from './server_errors';
+export { BindControlSnapshot, BindControlState, BindStateMismatch } from './snapshot';
 export { BindFormBuilder } from './form_builder';
-// tslint:disable-next-line: max-line-length
-export { AbstractBindControl, AbstractBindControlOptions, BindFormArray, BindFormControl, BindFormGroup, BindFormControlType } from './model';
+export { BindFormHistory, BindFormHistoryOptions } from './history';
+export { BIND_DRAFT_STORAGE, BindDraft, BindDraftStorage, BindIndexedDbDraftStorage, BindWebDraftStorage } from './draft_storage';
+export { BindControlFactory, BindJsonPatchOperation } from './json_patch';
+export { BindJsonSchema, BindJsonSchemaType, BindSchemaIssue, BindSchemaOptions } from './json_schema';
+export {
+    BIND_DYNAMIC_FIELDS,
+    BindDynamicField,
+    BindDynamicFieldComponent,
+    BindDynamicFieldLayout,
+    BindDynamicFieldOption,
+    BindDynamicFieldRegistry,
+    BindDynamicFieldType,
+    createDynamicControl,
+} from './dynamic_form/dynamic_field';
+export { BindDynamicFieldHostDirective, BindDynamicFieldOutletComponent, BindDynamicFormComponent } from './dynamic_form/dynamic_form';
+export {
+    AbstractBindControl,
+    AbstractBindControlOptions,
+    BindAsyncComposeMode,
+    BindAsyncMode,
+    BindControlKey,
+    BindControlsArrayOf,
+    BindControlsOf,
+    BindErrorSource,
+    BindFormArray,
+    BindFormControl,
+    BindFormGroup,
+    BindFormHooks,
+    BindFormRecord,
+    BindFormRecordOptions,
+    BindFormState,
+    BindNoInfer,
+    BindPartialValue,
+    BindRecordControlFactory,
+    BindUntypedPath,
+    BindVisibilityRule,
+    visibleWhen,
+} from './model';
+export {
+    AbstractToggleBindTransformer,
+    BindTransformer,
+    CollapseWhitespaceTransformer,
+    CurrencyTransformer,
+    DecimalTransformer,
+    EmptyToNullTransformer,
+    LowercaseTransformer,
+    MaskTransformer,
+    PhoneTransformer,
+    StripNonDigitsTransformer,
+    TrimTransformer,
+    UppercaseTransformer,
+} from './directives/transformers';
+export { BindTransformerPair, BindTransformers, NG_BIND_TRANSFORMERS } from './transformers';
 export { NG_ASYNC_BIND_VALIDATORS, NG_BIND_VALIDATORS, BindValidators } from './validators';
 export { VERSION } from './version';
 
@@ -0,0 +1,135 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { BindFormHistory } from './history';
+import { BindFormArray, BindFormControl, BindFormGroup, BindFormRecord } from './model';
+
+describe('BindFormHistory', () => {
+    let form: BindFormGroup;
+    let history: BindFormHistory;
+
+    beforeEach(() => {
+        jasmine.clock().install();
+        jasmine.clock().mockDate(new Date(2020, 0, 1));
+        form = new BindFormGroup({
+            title: new BindFormControl('Draft'),
+            clauses: new BindFormArray([new BindFormControl('Payment')]),
+        });
+        history = new BindFormHistory(form);
+    });
+
+    afterEach(() => {
+        history.destroy();
+        jasmine.clock().uninstall();
+    });
+
+    it('should undo and redo value changes', () => {
+        form.get('title')!.setValue('Contract');
+        jasmine.clock().tick(1000);
+        form.get('title')!.setValue('Lease');
+
+        history.undo();
+        expect(form.value.title).toEqual('Contract');
+        history.undo();
+        expect(form.value.title).toEqual('Draft');
+        expect(history.canUndo).toBe(false);
+
+        history.redo();
+        expect(form.value.title).toEqual('Contract');
+        expect(history.canRedo).toBe(true);
+    });
+
+    it('should coalesce rapid changes into a single step', () => {
+        form.get('title')!.setValue('C');
+        jasmine.clock().tick(100);
+        form.get('title')!.setValue('Co');
+        jasmine.clock().tick(100);
+        form.get('title')!.setValue('Con');
+
+        history.undo();
+
+        expect(form.value.title).toEqual('Draft');
+        expect(history.canUndo).toBe(false);
+    });
+
+    it('should restore the controls of arrays', () => {
+        const clauses = form.get('clauses') as BindFormArray;
+        const payment = clauses.at(0);
+        clauses.push(new BindFormControl('Termination'));
+        clauses.insert(0, new BindFormControl('Scope'));
+        clauses.removeAt(1);
+        expect(clauses.value).toEqual(['Scope', 'Termination']);
+
+        history.undo();
+        expect(clauses.value).toEqual(['Scope', 'Payment', 'Termination']);
+        expect(clauses.at(1)).toBe(payment);
+
+        history.undo();
+        history.undo();
+        expect(clauses.value).toEqual(['Payment']);
+        expect(form.value).toEqual({ title: 'Draft', clauses: ['Payment'] });
+
+        history.redo();
+        expect(clauses.value).toEqual(['Payment', 'Termination']);
+    });
+
+    it('should restore the keys of records', () => {
+        const labels = new BindFormRecord<string>({ en: new BindFormControl('Contract') });
+        form.addControl('labels', labels);
+        history.clear();
+        const en = labels.get('en');
+
+        labels.setValue({ fr: 'Contrat' });
+        expect(Object.keys(labels.controls)).toEqual(['fr']);
+
+        history.undo();
+        expect(labels.value).toEqual({ en: 'Contract' });
+        expect(labels.get('en')).toBe(en);
+
+        history.redo();
+        expect(labels.value).toEqual({ fr: 'Contrat' });
+    });
+
+    it('should restore the dirty and touched flags', () => {
+        const title = form.get('title')!;
+        title.setValue('Contract');
+        title.markAsDirty();
+        title.markAsTouched();
+
+        history.undo();
+        expect(title.pristine).toBe(true);
+        expect(title.touched).toBe(false);
+        expect(form.pristine).toBe(true);
+
+        history.redo();
+        expect(title.dirty).toBe(true);
+        expect(title.touched).toBe(true);
+        expect(form.dirty).toBe(true);
+    });
+
+    it('should emit whether steps can be undone and redone', () => {
+        const canUndo: boolean[] = [];
+        const canRedo: boolean[] = [];
+        history.canUndo$.subscribe((value) => canUndo.push(value));
+        history.canRedo$.subscribe((value) => canRedo.push(value));
+
+        form.get('title')!.setValue('Contract');
+        history.undo();
+
+        expect(canUndo).toEqual([false, true, false]);
+        expect(canRedo).toEqual([false, true]);
+    });
+
+    it('should clear the redo steps on a new change', () => {
+        form.get('title')!.setValue('Contract');
+        history.undo();
+        form.get('title')!.setValue('Lease');
+
+        expect(history.canRedo).toBe(false);
+    });
+});
@@ -0,0 +1,277 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { BehaviorSubject, Observable, Subscription } from 'rxjs';
+
+import { AbstractBindControl, BindFormArray, BindFormGroup, BindFormRecord } from './model';
+
+/**
+ * @description
+ * Options of a `BindFormHistory`.
+ *
+ * @publicApi
+ */
+export interface BindFormHistoryOptions {
+    /**
+     * @description
+     * Changes following each other within this delay, in milliseconds, are recorded as a single
+     * step, as long as no control is added or removed. `500` by default, `0` records every change.
+     */
+    coalesce?: number;
+    /**
+     * @description
+     * The maximum number of steps that can be undone, `100` by default.
+     */
+    maxSize?: number;
+}
+
+/**
+ * The state of a control at a step of the history.
+ */
+interface HistoryNode {
+    control: AbstractBindControl;
+    value?: any;
+    pristine: boolean;
+    touched: boolean;
+    children?: { [key: string]: HistoryNode };
+}
+
+function _takeSnapshot(control: AbstractBindControl): HistoryNode {
+    const node: HistoryNode = { control, pristine: control.pristine, touched: control.touched };
+    if (control instanceof BindFormGroup || control instanceof BindFormArray) {
+        const children: { [key: string]: HistoryNode } = {};
+        control._forEachChild((child: AbstractBindControl, key: string | number) => (children[key] = _takeSnapshot(child)));
+        node.children = children;
+    } else {
+        node.value = control.value;
+    }
+    return node;
+}
+
+function _controlsOf(node: HistoryNode, res: AbstractBindControl[] = []): AbstractBindControl[] {
+    res.push(node.control);
+    if (node.children) {
+        Object.keys(node.children).forEach((key) => _controlsOf(node.children![key], res));
+    }
+    return res;
+}
+
+function _sameControls(a: HistoryNode, b: HistoryNode): boolean {
+    const controlsA = _controlsOf(a);
+    const controlsB = _controlsOf(b);
+    return controlsA.length === controlsB.length && controlsA.every((control, i) => control === controlsB[i]);
+}
+
+/**
+ * Restores the values, the controls of the arrays and records and the `pristine`/`touched` flags of a
+ * step, without validating. Flags are restored before the children as marking a control
+ * `pristine` or `untouched` also marks its descendants.
+ */
+function _restoreSnapshot(node: HistoryNode, isRoot: boolean): void {
+    const control = node.control;
+    const opts = { onlySelf: !isRoot };
+    if (node.pristine) {
+        control.markAsPristine(opts);
+    } else {
+        control.markAsDirty(opts);
+    }
+    if (node.touched) {
+        control.markAsTouched(opts);
+    } else {
+        control.markAsUntouched(opts);
+    }
+
+    if (!node.children) {
+        control.setValue(node.value, { onlySelf: true, emitEvent: false });
+        return;
+    }
+    const children = node.children;
+    if (control instanceof BindFormArray) {
+        const controls = Object.keys(children).map((key) => children[key].control);
+        if (controls.length !== control.length || controls.some((child, i) => child !== control.at(i))) {
+            control._setControls(controls);
+        }
+    } else if (control instanceof BindFormRecord) {
+        const keys = Object.keys(children);
+        if (keys.length !== Object.keys(control.controls).length || keys.some((key) => control.controls[key] !== children[key].control)) {
+            const controls: { [key: string]: AbstractBindControl } = {};
+            keys.forEach((key) => (controls[key] = children[key].control));
+            control._setControls(controls);
+        }
+    }
+    Object.keys(children).forEach((key) => _restoreSnapshot(children[key], false));
+}
+
+/**
+ * @description
+ * Records the changes of a control tree, such as a `BindFormGroup` or a `BindFormArray`, so
+ * that they can be undone and redone.
+ *
+ * Each step records the values of the tree, the controls added to or removed from its arrays
+ * with `push`, `insert` or `removeAt` and from its records, and the `pristine` and `touched`
+ * flags of its controls, which are restored with the values. Rapid changes, such as typing,
+ * are coalesced into a single step, see `BindFormHistoryOptions`.
+ *
+ * @usageNotes
+ *
+ * ### Undo the changes of a form
+ *
+ * ```ts
+ * const form = new BindFormGroup({ title: new BindFormControl('Draft') });
+ * const history = new BindFormHistory(form);
+ *
+ * form.get('title').setValue('Contract');
+ * history.undo();
+ *
+ * console.log(form.value); // {title: 'Draft'}
+ * ```
+ *
+ * ```
+ * <button [disabled]="!(history.canUndo$ | async)" (click)="history.undo()">Undo</button>
+ * ```
+ *
+ * Call `destroy()` once the history is no longer needed.
+ *
+ * @publicApi
+ */
+export class BindFormHistory {
+    /**
+     * @description
+     * Emits whether a step can be undone, each time it changes.
+     */
+    readonly canUndo$: Observable<boolean>;
+
+    /**
+     * @description
+     * Emits whether a step can be redone, each time it changes.
+     */
+    readonly canRedo$: Observable<boolean>;
+
+    private _past: HistoryNode[] = [];
+    private _present: HistoryNode;
+    private _future: HistoryNode[] = [];
+    private _lastChange = 0;
+    private _restoring = false;
+    private _canUndo = new BehaviorSubject<boolean>(false);
+    private _canRedo = new BehaviorSubject<boolean>(false);
+    private _subscription: Subscription;
+
+    /**
+     * Starts recording the changes of a control tree.
+     *
+     * @param control The control whose changes are recorded, with its descendants.
+     * @param options The options of the history.
+     */
+    constructor(readonly control: AbstractBindControl, private _options: BindFormHistoryOptions = {}) {
+        this.canUndo$ = this._canUndo.asObservable();
+        this.canRedo$ = this._canRedo.asObservable();
+        this._present = _takeSnapshot(control);
+        this._subscription = control.valueChanges.subscribe(() => this._record());
+    }
+
+    /**
+     * @description
+     * Whether a step can be undone.
+     */
+    get canUndo(): boolean {
+        return this._past.length > 0;
+    }
+
+    /**
+     * @description
+     * Whether a step can be redone.
+     */
+    get canRedo(): boolean {
+        return this._future.length > 0;
+    }
+
+    /**
+     * @description
+     * Restores the control tree to the previous step.
+     */
+    undo(): void {
+        if (this.canUndo) {
+            this._future.push(_takeSnapshot(this.control));
+            this._restore(this._past.pop()!);
+        }
+    }
+
+    /**
+     * @description
+     * Restores the control tree to the step undone last.
+     */
+    redo(): void {
+        if (this.canRedo) {
+            this._past.push(_takeSnapshot(this.control));
+            this._restore(this._future.pop()!);
+        }
+    }
+
+    /**
+     * @description
+     * Forgets the recorded steps, e.g. once the form is saved.
+     */
+    clear(): void {
+        this._past = [];
+        this._future = [];
+        this._present = _takeSnapshot(this.control);
+        this._lastChange = 0;
+        this._notify();
+    }
+
+    /**
+     * @description
+     * Stops recording the changes of the control tree.
+     */
+    destroy(): void {
+        this._subscription.unsubscribe();
+        this._canUndo.complete();
+        this._canRedo.complete();
+    }
+
+    private _record(): void {
+        if (this._restoring) {
+            return;
+        }
+        const now = Date.now();
+        const snapshot = _takeSnapshot(this.control);
+        const coalesce = this._options.coalesce != null ? this._options.coalesce : 500;
+        if (this._past.length === 0 || now - this._lastChange >= coalesce || !_sameControls(this._present, snapshot)) {
+            this._past.push(this._present);
+            const maxSize = this._options.maxSize != null ? this._options.maxSize : 100;
+            if (this._past.length > maxSize) {
+                this._past.splice(0, this._past.length - maxSize);
+            }
+        }
+        this._present = snapshot;
+        this._future = [];
+        this._lastChange = now;
+        this._notify();
+    }
+
+    private _restore(snapshot: HistoryNode): void {
+        this._restoring = true;
+        try {
+            _restoreSnapshot(snapshot, true);
+            this.control._updateTreeValidity({ emitEvent: true });
+            if (this.control.parent) {
+                this.control.parent.updateValueAndValidity();
+            }
+        } finally {
+            this._restoring = false;
+        }
+        this._present = snapshot;
+        this._lastChange = 0;
+        this._notify();
+    }
+
+    private _notify(): void {
+        if (this._canUndo.value !== this.canUndo) this._canUndo.next(this.canUndo);
+        if (this._canRedo.value !== this.canRedo) this._canRedo.next(this.canRedo);
+    }
+}
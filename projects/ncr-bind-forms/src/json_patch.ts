@@ -0,0 +1,61 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { AbstractBindControl } from './model';
+
+/**
+ * @description
+ * A JSON Patch (RFC 6902) operation, see `AbstractBindControl.toJsonPatch`.
+ *
+ * @publicApi
+ */
+export interface BindJsonPatchOperation {
+    op: 'add' | 'remove' | 'replace' | 'move' | 'copy' | 'test';
+    /**
+     * @description
+     * The JSON pointer of the target location.
+     */
+    path: string;
+    /**
+     * @description
+     * The JSON pointer of the source location of `move` and `copy` operations.
+     */
+    from?: string;
+    value?: any;
+}
+
+/**
+ * @description
+ * Creates the control holding a value added by a JSON Patch, see `AbstractBindControl.applyJsonPatch`.
+ *
+ * @param value The added value
+ * @param path The JSON pointer of the added value
+ *
+ * @publicApi
+ */
+export type BindControlFactory = (value: any, path: string) => AbstractBindControl;
+
+/**
+ * Escapes a control name to be used as a segment of a JSON pointer.
+ */
+export function escapePointerSegment(name: string | number): string {
+    return String(name).replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * Splits a JSON pointer, optionally in its URI fragment form (`#/...`), into control names.
+ * Only the URI fragment form is percent-decoded: `%` is a plain character of a JSON pointer.
+ */
+export function parsePointer(pointer: string): string[] {
+    const fragment = /^#/.test(pointer);
+    return pointer
+        .replace(/^#/, '')
+        .split('/')
+        .slice(1)
+        .map((name) => (fragment ? decodeURIComponent(name) : name).replace(/~1/g, '/').replace(/~0/g, '~'));
+}
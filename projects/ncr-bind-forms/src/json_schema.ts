@@ -0,0 +1,269 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { BindFormControlType } from './control_types';
+import { BindValidatorFn } from './directives/validators';
+import { escapePointerSegment, parsePointer } from './json_patch';
+import { AbstractBindControl, BindFormArray, BindFormControl, BindFormGroup } from './model';
+import { BindValidators } from './validators';
+
+/**
+ * @description
+ * The JSON Schema types.
+ *
+ * @publicApi
+ */
+export type BindJsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+/**
+ * @description
+ * A JSON Schema, as read by `BindFormBuilder.fromSchema`. Only the keywords listed here are
+ * translated, the others being reported.
+ *
+ * @publicApi
+ */
+export interface BindJsonSchema {
+    type?: BindJsonSchemaType | BindJsonSchemaType[];
+    /**
+     * @description
+     * `date` and `date-time` give `date` controls, `email` adds `BindValidators.email`.
+     */
+    format?: string;
+    properties?: { [name: string]: BindJsonSchema };
+    required?: string[];
+    items?: BindJsonSchema;
+    default?: any;
+    enum?: any[];
+    const?: any;
+    minLength?: number;
+    maxLength?: number;
+    pattern?: string;
+    minimum?: number;
+    maximum?: number;
+    minItems?: number;
+    maxItems?: number;
+    /**
+     * @description
+     * Makes the control `sensitive`, e.g. for passwords.
+     */
+    writeOnly?: boolean;
+    /**
+     * @description
+     * A JSON pointer to a schema of the same document, such as `#/definitions/address`.
+     */
+    $ref?: string;
+    definitions?: { [name: string]: BindJsonSchema };
+    $defs?: { [name: string]: BindJsonSchema };
+    [keyword: string]: any;
+}
+
+/**
+ * @description
+ * A keyword of a JSON Schema that `BindFormBuilder.fromSchema` could not translate.
+ *
+ * @publicApi
+ */
+export interface BindSchemaIssue {
+    /**
+     * @description
+     * The JSON pointer of the schema holding the keyword, empty for the root schema.
+     */
+    path: string;
+    keyword: string;
+    message: string;
+}
+
+/**
+ * @description
+ * Options of `BindFormBuilder.fromSchema`.
+ *
+ * @publicApi
+ */
+export interface BindSchemaOptions {
+    /**
+     * @description
+     * The initial value of the form, taking precedence over the `default` keywords.
+     */
+    value?: any;
+    /**
+     * @description
+     * Called for each keyword that could not be translated. The issues are logged as a
+     * warning in development mode when not supplied.
+     */
+    onUnsupported?: (issue: BindSchemaIssue) => void;
+}
+
+/**
+ * The keywords read by the builder, the annotations being accepted as they don't constrain
+ * the values.
+ */
+const SUPPORTED_KEYWORDS = [
+    'type',
+    'format',
+    'properties',
+    'required',
+    'items',
+    'default',
+    'enum',
+    'const',
+    'minLength',
+    'maxLength',
+    'pattern',
+    'minimum',
+    'maximum',
+    'minItems',
+    'maxItems',
+    'writeOnly',
+    '$ref',
+    'definitions',
+    '$defs',
+    '$schema',
+    '$id',
+    '$comment',
+    'title',
+    'description',
+    'examples',
+];
+
+/**
+ * Builds the control tree described by a JSON Schema, see `BindFormBuilder.fromSchema`.
+ */
+export class SchemaControlBuilder {
+    readonly issues: BindSchemaIssue[] = [];
+    private _refs: string[] = [];
+
+    constructor(private _root: BindJsonSchema) {}
+
+    build(schema: BindJsonSchema, value: any, path: string, required: boolean): AbstractBindControl {
+        if (schema.$ref != null) {
+            return this._buildRef(schema, value, path, required);
+        }
+        Object.keys(schema)
+            .filter((keyword) => SUPPORTED_KEYWORDS.indexOf(keyword) === -1)
+            .forEach((keyword) => this._report(path, keyword, `The "${keyword}" keyword is not supported.`));
+
+        if (value === undefined) {
+            value = schema.default;
+        }
+        const type = this._type(schema, path);
+        if (type === 'object') {
+            return this._buildGroup(schema, value, path);
+        }
+        if (type === 'array') {
+            return this._buildArray(schema, value, path);
+        }
+        return this._buildControl(schema, type, value, path, required);
+    }
+
+    private _buildRef(schema: BindJsonSchema, value: any, path: string, required: boolean): AbstractBindControl {
+        const ref = schema.$ref!;
+        const others = Object.keys(schema).filter((keyword) => keyword !== '$ref');
+        if (others.length) {
+            this._report(path, others[0], 'Keywords next to "$ref" are not supported.');
+        }
+        const target = /^#/.test(ref) ? parsePointer(ref).reduce((res: any, name) => (res != null ? res[name] : res), this._root) : null;
+        if (target == null || typeof target !== 'object') {
+            this._report(path, '$ref', `Cannot resolve the reference "${ref}".`);
+            return new BindFormControl(value === undefined ? null : value);
+        }
+        if (this._refs.indexOf(ref) !== -1) {
+            this._report(path, '$ref', `The recursive reference "${ref}" is not supported.`);
+            return new BindFormControl(value === undefined ? null : value);
+        }
+        this._refs.push(ref);
+        try {
+            return this.build(target, value, path, required);
+        } finally {
+            this._refs.pop();
+        }
+    }
+
+    private _buildGroup(schema: BindJsonSchema, value: any, path: string): BindFormGroup {
+        const properties = schema.properties || {};
+        const required = schema.required || [];
+        const controls: { [name: string]: AbstractBindControl } = {};
+        Object.keys(properties).forEach((name) => {
+            const childValue = value != null ? value[name] : undefined;
+            controls[name] = this.build(properties[name], childValue, `${path}/properties/${escapePointerSegment(name)}`, required.indexOf(name) !== -1);
+        });
+        required
+            .filter((name) => !properties.hasOwnProperty(name))
+            .forEach((name) => this._report(path, 'required', `The required property "${name}" is not described.`));
+        return new BindFormGroup(controls, { sensitive: schema.writeOnly });
+    }
+
+    private _buildArray(schema: BindJsonSchema, value: any, path: string): BindFormArray {
+        const validators: BindValidatorFn[] = [];
+        if (schema.minItems != null) validators.push(BindValidators.minLength(schema.minItems));
+        // `minLength` skips empty arrays
+        if (schema.minItems) validators.push(BindValidators.required);
+        if (schema.maxItems != null) validators.push(BindValidators.maxLength(schema.maxItems));
+        const items: any[] = Array.isArray(value) ? value : [];
+        let itemSchema: BindJsonSchema = schema.items || {};
+        if (Array.isArray(itemSchema)) {
+            this._report(path, 'items', 'Tuple schemas are not supported.');
+            itemSchema = {};
+        }
+        const controls = items.map((item) => this.build(itemSchema, item, `${path}/items`, false));
+        return new BindFormArray(controls, { validators, sensitive: schema.writeOnly });
+    }
+
+    private _buildControl(schema: BindJsonSchema, type: BindJsonSchemaType | undefined, value: any, path: string, required: boolean): BindFormControl {
+        let controlType = BindFormControlType.default;
+        const validators: BindValidatorFn[] = [];
+        if (required) validators.push(BindValidators.required);
+        if (type === 'number' || type === 'integer') controlType = BindFormControlType.number;
+        if (type === 'integer') validators.push(BindValidators.integer);
+        if (schema.format != null) {
+            if (schema.format === 'date' || schema.format === 'date-time') {
+                controlType = BindFormControlType.date;
+            } else if (schema.format === 'email') {
+                validators.push(BindValidators.email);
+            } else {
+                this._report(path, 'format', `The "${schema.format}" format is not supported.`);
+            }
+        }
+        if (schema.minLength != null) validators.push(BindValidators.minLength(schema.minLength));
+        if (schema.maxLength != null) validators.push(BindValidators.maxLength(schema.maxLength));
+        if (schema.pattern != null) {
+            try {
+                // JSON Schema patterns are not anchored
+                validators.push(BindValidators.pattern(new RegExp(schema.pattern)));
+            } catch (e) {
+                this._report(path, 'pattern', `The "${schema.pattern}" pattern is not a valid regular expression.`);
+            }
+        }
+        if (schema.minimum != null) validators.push(BindValidators.min(schema.minimum));
+        if (schema.maximum != null) validators.push(BindValidators.max(schema.maximum));
+        if (schema.enum != null) validators.push(BindValidators.allowedValues(schema.enum));
+        if (schema.hasOwnProperty('const')) validators.push(BindValidators.allowedValues([schema.const]));
+        return new BindFormControl(value === undefined ? null : value, controlType, undefined, { validators, sensitive: schema.writeOnly });
+    }
+
+    /**
+     * Reads the type of a schema, nullable types such as `['string', 'null']` giving the
+     * non-null type.
+     */
+    private _type(schema: BindJsonSchema, path: string): BindJsonSchemaType | undefined {
+        if (schema.type == null) {
+            return schema.properties ? 'object' : schema.items ? 'array' : undefined;
+        }
+        if (!Array.isArray(schema.type)) {
+            return schema.type;
+        }
+        const types = schema.type.filter((type) => type !== 'null');
+        if (types.length > 1) {
+            this._report(path, 'type', `Union types are not supported, "${types[0]}" is used.`);
+        }
+        return types[0];
+    }
+
+    private _report(path: string, keyword: string, message: string): void {
+        this.issues.push({ path, keyword, message });
+    }
+}
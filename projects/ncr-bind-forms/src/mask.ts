@@ -0,0 +1,117 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+/**
+ * The placeholders of a mask pattern. Any other character of the pattern is a literal.
+ *
+ * * `9`: a digit.
+ * * `a`: a letter.
+ * * `*`: a letter or a digit.
+ */
+const MASK_TOKENS: { [token: string]: RegExp } = {
+    9: /\d/,
+    a: /[a-zA-Z]/,
+    '*': /[a-zA-Z0-9]/,
+};
+
+function _isToken(char: string): boolean {
+    return MASK_TOKENS.hasOwnProperty(char);
+}
+
+function _hasTokenFrom(mask: string, index: number): boolean {
+    for (let i = index; i < mask.length; i++) {
+        if (_isToken(mask[i])) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Returns the number of placeholders of a mask pattern, which is the length of a complete
+ * unmasked value.
+ */
+export function maskLength(mask: string): number {
+    return mask.split('').filter(_isToken).length;
+}
+
+/**
+ * Extracts the characters filling the placeholders of a mask from a masked or partially masked
+ * value. Typed literals are skipped, as well as characters that fit no placeholder.
+ */
+export function unmaskValue(value: string, mask: string): string {
+    let res = '';
+    let i = 0;
+    for (const char of value) {
+        while (i < mask.length && !_isToken(mask[i]) && char !== mask[i]) {
+            i++;
+        }
+        if (i >= mask.length) {
+            break;
+        }
+        if (!_isToken(mask[i])) {
+            i++;
+        } else if (MASK_TOKENS[mask[i]].test(char)) {
+            res += char;
+            i++;
+        }
+    }
+    return res;
+}
+
+/**
+ * Writes an unmasked value through a mask. Literals are written up to the last filled
+ * placeholder, and up to the end of the mask once the value is complete.
+ *
+ * @param keepOverflow Whether to append the characters that do not fit in the mask.
+ */
+export function applyMask(raw: string, mask: string, keepOverflow: boolean = false): string {
+    let res = '';
+    let j = 0;
+    for (let i = 0; i < mask.length; i++) {
+        if (j >= raw.length && _hasTokenFrom(mask, i)) {
+            break;
+        }
+        if (!_isToken(mask[i])) {
+            res += mask[i];
+            continue;
+        }
+        while (j < raw.length && !MASK_TOKENS[mask[i]].test(raw[j])) {
+            j++;
+        }
+        if (j >= raw.length) {
+            break;
+        }
+        res += raw[j++];
+    }
+    return keepOverflow ? res + raw.substring(j) : res;
+}
+
+/**
+ * Returns whether an unmasked value fills every placeholder of a mask.
+ */
+export function isMaskComplete(raw: string, mask: string): boolean {
+    return unmaskValue(raw, mask).length === maskLength(mask);
+}
+
+/**
+ * Returns the caret position in a masked value following the given number of filled
+ * placeholders, which keeps the caret next to the character the user just typed.
+ */
+export function maskCaretPosition(masked: string, mask: string, filled: number): number {
+    if (filled <= 0) {
+        return 0;
+    }
+    let count = 0;
+    for (let i = 0; i < masked.length && i < mask.length; i++) {
+        if (_isToken(mask[i]) && ++count === filled) {
+            return i + 1;
+        }
+    }
+    return masked.length;
+}
@@ -0,0 +1,971 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { of } from 'rxjs';
+
+import { BindFormControlType } from './control_types';
+import { AbstractBindControl, BindFormArray, BindFormControl, BindFormGroup, BindFormRecord, visibleWhen } from './model';
+import { ErrorItemType, ValidationBindErrors } from './directives/validators';
+import { BindValidators } from './validators';
+
+const EU = ['FR', 'DE', 'IT'];
+
+function vatRequiredInEu(control: AbstractBindControl): ValidationBindErrors | null {
+    const country = control.root.get('country');
+    return country && EU.indexOf(country.value) !== -1 && !control.value ? { vatRequired: true } : null;
+}
+
+function reporting(errors: ValidationBindErrors | null) {
+    return () => errors;
+}
+
+describe('AbstractBindControl severity', () => {
+    it('should be invalid when any entry is blocking', () => {
+        const control = new BindFormControl('', null, null, reporting({ tooLong: { type: ErrorItemType.alert }, required: true }));
+
+        expect(control.status).toBe('INVALID');
+        expect(control.severity).toBe(ErrorItemType.error);
+    });
+
+    it('should be warned when the most severe entry is an alert', () => {
+        const control = new BindFormControl('', null, null, reporting({ tooLong: { type: ErrorItemType.alert }, hint: { type: ErrorItemType.help } }));
+
+        expect(control.status).toBe('WARNED');
+        expect(control.valid).toBe(false);
+        expect(control.invalid).toBe(false);
+        expect(control.severity).toBe(ErrorItemType.alert);
+    });
+
+    it('should stay valid with only informative entries', () => {
+        const control = new BindFormControl('', null, null, reporting({ hint: { type: ErrorItemType.info } }));
+
+        expect(control.status).toBe('VALID');
+        expect(control.severity).toBe(ErrorItemType.info);
+    });
+
+    it('should split the errors by severity', () => {
+        const control = new BindFormControl(
+            '',
+            null,
+            null,
+            reporting({ required: true, tooLong: { type: ErrorItemType.alert }, hint: { type: ErrorItemType.help }, done: { type: ErrorItemType.ok } })
+        );
+
+        expect(control.blockingErrors).toEqual({ required: true });
+        expect(control.warnings).toEqual({ tooLong: { type: ErrorItemType.alert } });
+        expect(control.infos).toEqual({ hint: { type: ErrorItemType.help }, done: { type: ErrorItemType.ok } });
+    });
+
+    it('should report the most severe entry of the enabled descendants', () => {
+        const form = new BindFormGroup({
+            name: new BindFormControl('', null, null, reporting({ hint: { type: ErrorItemType.info } })),
+            nick: new BindFormControl('', null, null, reporting({ tooLong: { type: ErrorItemType.alert } })),
+        });
+        expect(form.severity).toBe(ErrorItemType.alert);
+
+        form.get('nick')!.disable();
+
+        expect(form.severity).toBe(ErrorItemType.info);
+    });
+});
+
+describe('WARNED roll-up', () => {
+    const warn = reporting({ tooLong: { type: ErrorItemType.alert } });
+
+    it('should make the ancestors of a warned control warned', () => {
+        const form = new BindFormGroup({
+            name: new BindFormControl('', null, null, warn),
+            address: new BindFormGroup({ city: new BindFormControl('', null, null, warn) }),
+            tags: new BindFormArray([new BindFormControl('')]),
+        });
+        expect(form.status).toBe('WARNED');
+        expect(form.get('address')!.status).toBe('WARNED');
+        expect(form.get('tags')!.status).toBe('VALID');
+
+        form.get('name')!.disable();
+        form.get('address')!.disable();
+
+        expect(form.status).toBe('VALID');
+    });
+
+    it('should let an invalid child win over a warned one', () => {
+        const form = new BindFormArray([new BindFormControl('', null, null, warn), new BindFormControl('', null, null, BindValidators.required)]);
+
+        expect(form.status).toBe('INVALID');
+    });
+
+    it('should list the warned descendants', () => {
+        const form = new BindFormGroup({
+            name: new BindFormControl('', null, null, warn),
+            address: new BindFormGroup({ city: new BindFormControl('', null, null, warn), zip: new BindFormControl('') }),
+            tags: new BindFormArray([new BindFormControl(''), new BindFormControl('', null, null, warn)]),
+        });
+
+        expect(form.warnedControls).toEqual([form.get('name')!, form.get('address.city')!, form.get('tags.1')!]);
+        expect((form.get('tags') as BindFormArray).warnedControls).toEqual([form.get('tags.1')!]);
+
+        form.get('address')!.disable();
+
+        expect(form.warnedControls).toEqual([form.get('name')!, form.get('tags.1')!]);
+    });
+});
+
+describe('AbstractBindControl dependencies', () => {
+    it('should validate dependents against their sources once the group is built', () => {
+        const form = new BindFormGroup({
+            vat: new BindFormControl('', null, null, { validators: vatRequiredInEu, dependsOn: ['../country'] }),
+            country: new BindFormControl('FR'),
+        });
+
+        expect(form.get('vat')!.errors).toEqual({ vatRequired: true });
+        expect(form.invalid).toBe(true);
+    });
+
+    it('should revalidate dependents when a source changes', () => {
+        const form = new BindFormGroup({
+            country: new BindFormControl('US'),
+            vat: new BindFormControl('', null, null, { validators: vatRequiredInEu, dependsOn: ['../country'] }),
+        });
+        expect(form.valid).toBe(true);
+
+        form.get('country')!.setValue('DE');
+
+        expect(form.get('vat')!.errors).toEqual({ vatRequired: true });
+        expect(form.invalid).toBe(true);
+
+        form.get('country')!.setValue('US');
+
+        expect(form.get('vat')!.errors).toBeNull();
+        expect(form.valid).toBe(true);
+    });
+
+    it('should emit the status of dependents', () => {
+        const form = new BindFormGroup({
+            country: new BindFormControl('US'),
+            vat: new BindFormControl('', null, null, { validators: vatRequiredInEu, dependsOn: ['../country'] }),
+        });
+        const statuses: string[] = [];
+        form.get('vat')!.statusChanges.subscribe((status) => statuses.push(status));
+
+        form.get('country')!.setValue('DE');
+
+        expect(statuses).toEqual(['INVALID']);
+    });
+
+    it('should resolve paths across nested groups and from the root', () => {
+        const relative = jasmine.createSpy('relative').and.returnValue(null);
+        const absolute = jasmine.createSpy('absolute').and.returnValue(null);
+        const form = new BindFormGroup({
+            billing: new BindFormGroup({ country: new BindFormControl('US') }),
+            shipping: new BindFormGroup({
+                vat: new BindFormControl('', null, null, { validators: relative, dependsOn: ['../../billing/country'] }),
+                siret: new BindFormControl('', null, null, { validators: absolute, dependsOn: ['/billing/country'] }),
+            }),
+        });
+        relative.calls.reset();
+        absolute.calls.reset();
+
+        form.get('billing.country')!.setValue('FR');
+
+        expect(relative).toHaveBeenCalledTimes(1);
+        expect(absolute).toHaveBeenCalledTimes(1);
+    });
+
+    it('should resolve paths through arrays', () => {
+        const validator = jasmine.createSpy('validator').and.returnValue(null);
+        const form = new BindFormGroup({
+            lines: new BindFormArray([new BindFormControl(1), new BindFormControl(2)]),
+            total: new BindFormControl(3, null, null, { validators: validator, dependsOn: ['../lines/1'] }),
+        });
+        validator.calls.reset();
+
+        (form.get('lines') as BindFormArray).at(0).setValue(5);
+        expect(validator).not.toHaveBeenCalled();
+
+        (form.get('lines') as BindFormArray).at(1).setValue(5);
+        expect(validator).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not look for dependents in forms that declare none', () => {
+        const form = new BindFormGroup({ address: new BindFormGroup({ city: new BindFormControl('Paris') }) });
+        const lookup = spyOn(form, '_collectDependents').and.callThrough();
+
+        form.get('address.city')!.setValue('Lyon');
+
+        expect(lookup).not.toHaveBeenCalled();
+    });
+
+    it('should follow the dependents added, removed and declared at run time', () => {
+        const form = new BindFormGroup({ country: new BindFormControl('US'), address: new BindFormGroup({}) });
+        const address = form.get('address') as BindFormGroup;
+        const lookup = spyOn(form, '_collectDependents').and.callThrough();
+
+        address.addControl('vat', new BindFormControl('', null, null, { validators: vatRequiredInEu, dependsOn: ['/country'] }));
+        form.get('country')!.setValue('FR');
+        expect(form.get('address.vat')!.errors).toEqual({ vatRequired: true });
+
+        address.removeControl('vat');
+        lookup.calls.reset();
+        form.get('country')!.setValue('DE');
+        expect(lookup).not.toHaveBeenCalled();
+
+        const siret = new BindFormControl('', null, null, vatRequiredInEu);
+        address.addControl('siret', siret);
+        siret.setDependsOn(['/country']);
+        form.get('country')!.setValue('US');
+        expect(siret.errors).toBeNull();
+        form.get('country')!.setValue('IT');
+        expect(siret.errors).toEqual({ vatRequired: true });
+    });
+
+    it('should not revalidate dependents for onlySelf updates', () => {
+        const validator = jasmine.createSpy('validator').and.returnValue(null);
+        const form = new BindFormGroup({
+            country: new BindFormControl('US'),
+            vat: new BindFormControl('', null, null, { validators: validator, dependsOn: ['../country'] }),
+        });
+        validator.calls.reset();
+
+        form.get('country')!.setValue('FR', { onlySelf: true });
+
+        expect(validator).not.toHaveBeenCalled();
+    });
+
+    it('should detect cycles when the group is built', () => {
+        expect(
+            () =>
+                new BindFormGroup({
+                    a: new BindFormControl('', null, null, { dependsOn: ['../b'] }),
+                    b: new BindFormControl('', null, null, { dependsOn: ['../a'] }),
+                })
+        ).toThrowError('Cyclic dependency between form controls: a -> b -> a.');
+    });
+
+    it('should detect cycles set at run time', () => {
+        const form = new BindFormGroup({
+            a: new BindFormControl('', null, null, { dependsOn: ['../b'] }),
+            b: new BindFormControl(''),
+        });
+
+        expect(() => form.get('b')!.setDependsOn(['../a'])).toThrowError('Cyclic dependency between form controls: b -> a -> b.');
+    });
+
+    it('should reject dependencies on an ancestor', () => {
+        expect(
+            () =>
+                new BindFormGroup({
+                    a: new BindFormControl(1),
+                    sum: new BindFormControl(0, null, null, { dependsOn: ['..'] }),
+                })
+        ).toThrowError('A form control cannot depend on its ancestor: sum -> (root).');
+
+        const form = new BindFormGroup({ address: new BindFormGroup({ city: new BindFormControl('Paris') }) });
+        expect(() => form.get('address.city')!.setDependsOn(['/'])).toThrowError('A form control cannot depend on its ancestor: address.city -> (root).');
+
+        const address = new BindFormGroup({ city: new BindFormControl('Paris') });
+        const order = new BindFormGroup({ address });
+        expect(order.get('address.city')!.value).toBe('Paris');
+        expect(() => address.addControl('zip', new BindFormControl('', null, null, { dependsOn: ['..'] }))).toThrowError('A form control cannot depend on its ancestor: address.zip -> address.');
+    });
+});
+
+describe('AbstractBindControl error sources', () => {
+    it('should keep manual errors across validations until removed', () => {
+        const control = new BindFormControl('', null, null, BindValidators.required);
+        control.setErrors({ notUnique: true });
+
+        control.setValue('john');
+        expect(control.errors).toEqual({ notUnique: true });
+
+        control.setValue('');
+        expect(control.errors).toEqual({ required: true, notUnique: true });
+        expect(control.getErrors('sync')).toEqual({ required: true });
+        expect(control.getErrors('manual')).toEqual({ notUnique: true });
+
+        control.removeErrors(['notUnique']);
+        expect(control.errors).toEqual({ required: true });
+    });
+
+    it('should clear server errors once the value changes', () => {
+        const form = new BindFormGroup({ login: new BindFormControl('john') });
+        form.get('login')!.setErrors({ taken: true }, { source: 'server' });
+        form.setErrors({ rejected: true }, { source: 'server' });
+        expect(form.invalid).toBe(true);
+
+        form.get('login')!.updateValueAndValidity();
+        expect(form.get('login')!.errors).toEqual({ taken: true });
+        expect(form.errors).toEqual({ rejected: true });
+
+        form.get('login')!.setValue('jane');
+        expect(form.get('login')!.errors).toBeNull();
+        expect(form.errors).toBeNull();
+        expect(form.valid).toBe(true);
+    });
+
+    it('should merge async errors with the other sources', () => {
+        const control = new BindFormControl('taken', null, null, {
+            asyncValidators: (c: AbstractBindControl) => of(c.value === 'taken' ? { taken: true } : null),
+            asyncMode: 'parallel',
+        });
+        control.setErrors({ reviewed: { type: ErrorItemType.info } });
+
+        expect(control.errors).toEqual({ taken: true, reviewed: { type: ErrorItemType.info } });
+        expect(control.getErrors('async')).toEqual({ taken: true });
+
+        control.setValue('free');
+        expect(control.errors).toEqual({ reviewed: { type: ErrorItemType.info } });
+        expect(control.valid).toBe(true);
+    });
+
+    it('should expose an immutable view of the errors', () => {
+        const control = new BindFormControl('', null, null, BindValidators.required);
+        const errors = control.errors;
+
+        expect(Object.isFrozen(errors)).toBe(true);
+
+        control.removeErrors(['required']);
+        expect(errors).toEqual({ required: true });
+        expect(control.errors).toBeNull();
+    });
+});
+
+describe('AbstractBindControl.applyServerErrors', () => {
+    let form: BindFormGroup;
+
+    beforeEach(() => {
+        form = new BindFormGroup({
+            customer: new BindFormGroup({ email: new BindFormControl('john@example.com') }),
+            lines: new BindFormArray([new BindFormControl(1), new BindFormControl(5)]),
+        });
+    });
+
+    it('should set the entries on the matching controls', () => {
+        form.applyServerErrors([
+            { path: 'customer.email', code: 'taken', message: 'Already registered' },
+            { path: 'lines[1]', code: 'outOfStock', message: 'Only 2 left', severity: 'warning' },
+        ]);
+
+        expect(form.get('customer.email')!.errors).toEqual({ taken: { message: 'Already registered' } });
+        expect(form.get('customer.email')!.getErrors('server')).toEqual({ taken: { message: 'Already registered' } });
+        expect(form.get('lines.1')!.errors).toEqual({ outOfStock: { message: 'Only 2 left', type: ErrorItemType.alert } });
+        expect(form.invalid).toBe(true);
+    });
+
+    it('should resolve the JSON pointers of problem details', () => {
+        form.applyServerErrors({
+            type: 'https://example.com/probs/validation',
+            title: 'Invalid order',
+            errors: [{ pointer: '#/lines/0', detail: 'Must be positive', code: 'min' }],
+        });
+
+        expect(form.get('lines.0')!.errors).toEqual({ min: { message: 'Must be positive' } });
+    });
+
+    it('should report unmatched entries and form level errors on the form', () => {
+        form.applyServerErrors([
+            { path: 'customer.phone', code: 'required', message: 'Phone is required' },
+            { code: 'closed', message: 'Orders are closed', severity: ErrorItemType.info },
+        ]);
+
+        expect(form.errors).toEqual({
+            required: { message: 'Phone is required', path: 'customer.phone' },
+            closed: { message: 'Orders are closed', type: ErrorItemType.info },
+        });
+    });
+
+    it('should list the entries with the same code on one control', () => {
+        form.applyServerErrors([
+            { path: 'customer.email', code: 'invalid', message: 'Unknown domain', severity: 'warning' },
+            { path: 'customer.email', code: 'invalid', message: 'Blocked address' },
+            { path: 'customer.phone', code: 'required', message: 'Phone is required' },
+            { path: 'customer.fax', code: 'required', message: 'Fax is required', severity: 'info' },
+        ]);
+
+        expect(form.get('customer.email')!.errors).toEqual({
+            invalid: {
+                message: 'Unknown domain',
+                entries: [{ message: 'Unknown domain', type: ErrorItemType.alert }, { message: 'Blocked address' }],
+            },
+        });
+        expect(form.get('customer.email')!.invalid).toBe(true);
+        expect(form.errors).toEqual({
+            required: {
+                message: 'Phone is required',
+                path: 'customer.phone',
+                entries: [
+                    { message: 'Phone is required', path: 'customer.phone' },
+                    { message: 'Fax is required', type: ErrorItemType.info, path: 'customer.fax' },
+                ],
+            },
+        });
+    });
+
+    it('should use the mapper for other formats', () => {
+        form.applyServerErrors([{ propertyPath: 'customer.email', title: 'Invalid address' }], (entry) => ({ path: entry.propertyPath, code: 'email', message: entry.title }));
+
+        expect(form.get('customer.email')!.errors).toEqual({ email: { message: 'Invalid address' } });
+    });
+
+    it('should replace the previous server errors and clear them on change', () => {
+        form.applyServerErrors([{ path: 'customer.email', code: 'taken' }]);
+        form.applyServerErrors([{ path: 'lines.0', code: 'min' }]);
+
+        expect(form.get('customer.email')!.errors).toBeNull();
+        expect(form.get('lines.0')!.hasError('min')).toBe(true);
+
+        form.get('lines.0')!.setValue(2);
+        expect(form.valid).toBe(true);
+    });
+});
+
+describe('AbstractBindControl baseline', () => {
+    function type(control: AbstractBindControl, value: any): void {
+        control.markAsDirty();
+        control.setValue(value);
+    }
+
+    it('should become pristine again once the value is back to the baseline', () => {
+        const form = new BindFormGroup({ name: new BindFormControl('John'), tags: new BindFormControl(['a']) });
+
+        type(form.get('name')!, 'Jane');
+        type(form.get('tags')!, ['a', 'b']);
+        expect(form.dirty).toBe(true);
+
+        type(form.get('name')!, 'John');
+        expect(form.get('name')!.pristine).toBe(true);
+        expect(form.dirty).toBe(true);
+
+        type(form.get('tags')!, ['a']);
+        expect(form.get('tags')!.pristine).toBe(true);
+        expect(form.pristine).toBe(true);
+    });
+
+    it('should move the baseline on reset and markAsSaved', () => {
+        const control = new BindFormControl('John');
+
+        control.reset('Jane');
+        expect(control.baseline).toEqual('Jane');
+
+        type(control, 'Jim');
+        control.markAsSaved();
+        expect(control.pristine).toBe(true);
+        expect(control.baseline).toEqual('Jim');
+
+        type(control, 'Jane');
+        expect(control.dirty).toBe(true);
+    });
+
+    it('should save the descendants with the group', () => {
+        const form = new BindFormGroup({ name: new BindFormControl('John') });
+        type(form.get('name')!, 'Jane');
+
+        form.markAsSaved();
+
+        expect(form.baseline).toEqual({ name: 'Jane' });
+        expect(form.get('name')!.baseline).toEqual('Jane');
+        expect(form.pristine).toBe(true);
+    });
+
+    it('should use the comparator of the control', () => {
+        const control = new BindFormControl(' John', null, null, { compareWith: (value: string, baseline: string) => value.trim() === baseline.trim() });
+
+        type(control, 'John ');
+
+        expect(control.pristine).toBe(true);
+    });
+
+    it('should derive the pristine state of groups from their children', () => {
+        const form = new BindFormGroup({
+            name: new BindFormControl(' John', null, null, { compareWith: (value: string, baseline: string) => value.trim() === baseline.trim() }),
+            age: new BindFormControl(42),
+        });
+        form.get('age')!.disable();
+
+        type(form.get('name')!, 'Jane');
+        type(form.get('name')!, 'John ');
+        expect(form.get('name')!.pristine).toBe(true);
+        expect(form.pristine).toBe(true);
+
+        const zip = new BindFormControl('75001');
+        form.markAsDirty();
+        form.addControl('zip', zip);
+        type(form.get('name')!, ' John');
+        expect(form.dirty).toBe(true);
+
+        form.removeControl('zip');
+        type(form.get('name')!, ' John');
+        expect(form.pristine).toBe(true);
+    });
+});
+
+describe('changed values and JSON Patch', () => {
+    let form: BindFormGroup;
+    let tags: BindFormArray;
+
+    beforeEach(() => {
+        form = new BindFormGroup({
+            name: new BindFormControl('John'),
+            address: new BindFormGroup({ city: new BindFormControl('Paris'), zip: new BindFormControl('75001') }),
+            tags: new BindFormArray([new BindFormControl('a'), new BindFormControl('b'), new BindFormControl('c')]),
+        });
+        tags = form.get('tags') as BindFormArray;
+    });
+
+    it('should report the changed part of the value', () => {
+        expect(form.getChangedValue()).toEqual({});
+
+        form.get('address.city')!.setValue('Lyon');
+        expect(form.getChangedValue()).toEqual({ address: { city: 'Lyon' } });
+        expect(tags.getChangedValue()).toBeNull();
+
+        tags.removeAt(0);
+        expect(form.getChangedValue()).toEqual({ address: { city: 'Lyon' }, tags: ['b', 'c'] });
+
+        form.markAsSaved();
+        expect(form.getChangedValue()).toEqual({});
+    });
+
+    it('should report dirty controls', () => {
+        form.get('name')!.markAsDirty();
+
+        expect(form.getChangedValue()).toEqual({ name: 'John' });
+    });
+
+    it('should produce replace operations for changed values', () => {
+        form.get('name')!.setValue('Jane');
+        form.get('address.zip')!.setValue('69001');
+
+        expect(form.toJsonPatch()).toEqual([
+            { op: 'replace', path: '/name', value: 'Jane' },
+            { op: 'replace', path: '/address/zip', value: '69001' },
+        ]);
+    });
+
+    it('should produce add, remove and move operations for array mutations', () => {
+        const c = tags.at(2);
+        tags.removeAt(1);
+        tags.removeAt(1);
+        tags.insert(0, c);
+        tags.push(new BindFormControl('d'));
+        tags.at(1).setValue('A');
+
+        const patch = form.toJsonPatch();
+        expect(patch).toEqual([
+            { op: 'remove', path: '/tags/1' },
+            { op: 'move', from: '/tags/1', path: '/tags/0' },
+            { op: 'replace', path: '/tags/1', value: 'A' },
+            { op: 'add', path: '/tags/2', value: 'd' },
+        ]);
+
+        const copy = new BindFormGroup({ tags: new BindFormArray([new BindFormControl('a'), new BindFormControl('b'), new BindFormControl('c')]) });
+        copy.applyJsonPatch(patch);
+        expect(copy.value.tags).toEqual(['c', 'A', 'd']);
+    });
+
+    it('should produce add and remove operations for group mutations', () => {
+        const address = form.get('address') as BindFormGroup;
+        address.removeControl('zip');
+        address.addControl('country', new BindFormControl('FR'));
+        address.setControl('city', new BindFormControl('Lyon'));
+
+        const patch = form.toJsonPatch();
+        expect(patch).toEqual([
+            { op: 'remove', path: '/address/city' },
+            { op: 'remove', path: '/address/zip' },
+            { op: 'add', path: '/address/country', value: 'FR' },
+            { op: 'add', path: '/address/city', value: 'Lyon' },
+        ]);
+
+        const copy = new BindFormGroup({ address: new BindFormGroup({ city: new BindFormControl('Paris'), zip: new BindFormControl('75001') }) });
+        copy.applyJsonPatch(patch);
+        expect(copy.value.address).toEqual({ country: 'FR', city: 'Lyon' });
+    });
+
+    it('should apply patches to the tree', () => {
+        form.applyJsonPatch([
+            { op: 'test', path: '/name', value: 'John' },
+            { op: 'replace', path: '/address/city', value: 'Lyon' },
+            { op: 'add', path: '/tags/-', value: 'd' },
+            { op: 'remove', path: '/tags/0' },
+            { op: 'add', path: '/address/country', value: 'FR' },
+            { op: 'copy', from: '/name', path: '/nickname' },
+        ]);
+
+        expect(form.value).toEqual({
+            name: 'John',
+            nickname: 'John',
+            address: { city: 'Lyon', zip: '75001', country: 'FR' },
+            tags: ['b', 'c', 'd'],
+        });
+        expect(tags.at(2) instanceof BindFormControl).toBe(true);
+    });
+
+    it('should create added controls with the factory', () => {
+        form.applyJsonPatch([{ op: 'add', path: '/tags/0', value: 'z' }], (value) => new BindFormControl(value, null, null, BindValidators.maxLength(0)));
+
+        expect(tags.at(0).invalid).toBe(true);
+    });
+
+    it('should throw on failed tests and unknown paths', () => {
+        expect(() => form.applyJsonPatch([{ op: 'test', path: '/name', value: 'Jane' }])).toThrowError('JSON Patch test failed at "/name".');
+        expect(() => form.applyJsonPatch([{ op: 'replace', path: '/phone', value: '1' }])).toThrowError('Cannot find the control at "/phone".');
+    });
+
+    it('should round-trip control names containing percent signs and slashes', () => {
+        form.addControl('rate%', new BindFormControl(10));
+        form.addControl('a/b~c', new BindFormControl('x'));
+        form.markAsSaved();
+        form.get('rate%')!.setValue(20);
+        (form.get(['a/b~c']) as BindFormControl).setValue('y');
+
+        const patch = form.toJsonPatch();
+        expect(patch).toEqual([
+            { op: 'replace', path: '/rate%', value: 20 },
+            { op: 'replace', path: '/a~1b~0c', value: 'y' },
+        ]);
+
+        const copy = new BindFormGroup({ 'rate%': new BindFormControl(10), 'a/b~c': new BindFormControl('x') });
+        copy.applyJsonPatch(patch);
+        expect(copy.value).toEqual({ 'rate%': 20, 'a/b~c': 'y' });
+    });
+
+    it('should reject array indexes that are not numbers or are out of range', () => {
+        expect(() => form.applyJsonPatch([{ op: 'add', path: '/tags/x', value: 'd' }])).toThrowError('Cannot add a control at "/tags/x": "x" is not an index of the array.');
+        expect(() => form.applyJsonPatch([{ op: 'add', path: '/tags/01', value: 'd' }])).toThrowError('Cannot add a control at "/tags/01": "01" is not an index of the array.');
+        expect(() => form.applyJsonPatch([{ op: 'add', path: '/tags/4', value: 'd' }])).toThrowError('Cannot add a control at "/tags/4": "4" is not an index of the array.');
+        expect(tags.value).toEqual(['a', 'b', 'c']);
+
+        form.applyJsonPatch([{ op: 'add', path: '/tags/3', value: 'd' }]);
+        expect(tags.value).toEqual(['a', 'b', 'c', 'd']);
+    });
+});
+
+describe('state serialization', () => {
+    function createForm(): BindFormGroup {
+        return new BindFormGroup({
+            name: new BindFormControl('', null, null, { validators: BindValidators.required, updateOn: 'blur' }),
+            birthDate: new BindFormControl(null, BindFormControlType.date),
+            notes: new BindFormControl('none'),
+            lines: new BindFormArray([new BindFormControl(1)]),
+        });
+    }
+
+    it('should restore the state into another tree', () => {
+        const form = createForm();
+        form.get('name')!.setValue('John');
+        form.get('name')!.markAsDirty();
+        form.get('name')!.markAsTouched();
+        form.get('name')!.setErrors({ taken: true }, { source: 'server' });
+        form.get('birthDate')!.setValue(new Date(2000, 1, 29));
+        form.get('notes')!.disable();
+        (form.get('lines') as BindFormArray).push(new BindFormControl(2));
+        form.setErrors({ locked: true });
+
+        const snapshot = JSON.parse(JSON.stringify(form.serializeState()));
+        const restored = createForm();
+        const mismatches = restored.restoreState(snapshot);
+
+        expect(mismatches).toEqual([]);
+        expect(restored.getRawValue()).toEqual(form.getRawValue());
+        expect(restored.get('birthDate')!.value).toEqual(new Date(2000, 1, 29));
+        expect(restored.get('name')!.dirty).toBe(true);
+        expect(restored.get('name')!.touched).toBe(true);
+        expect(restored.touched).toBe(true);
+        expect(restored.get('name')!.errors).toEqual({ taken: true });
+        expect(restored.get('notes')!.disabled).toBe(true);
+        expect((restored.get('lines') as BindFormArray).length).toEqual(2);
+        expect(restored.errors).toEqual({ locked: true });
+        expect(restored.get('notes')!.updateOn).toEqual('change');
+        expect(restored.get('name')!.updateOn).toEqual('blur');
+    });
+
+    it('should restore the type of the controls', () => {
+        const snapshot = new BindFormControl('2020', BindFormControlType.year).serializeState();
+        const control = new BindFormControl('');
+
+        control.restoreState(snapshot);
+
+        expect(control.type).toEqual(BindFormControlType.year);
+    });
+
+    it('should report mismatches instead of throwing', () => {
+        const snapshot = createForm().serializeState();
+        const other = new BindFormGroup({ name: new BindFormGroup({}), lines: new BindFormArray([]), email: new BindFormControl('') });
+
+        const mismatches = other.restoreState(snapshot);
+
+        expect(mismatches).toEqual([
+            { path: 'name', reason: 'Expected the state of a group, got the state of a control.' },
+            { path: 'birthDate', reason: 'No control matches the state.' },
+            { path: 'notes', reason: 'No control matches the state.' },
+            { path: 'email', reason: 'The snapshot has no state for the control.' },
+        ]);
+        expect((other.get('lines') as BindFormArray).length).toEqual(1);
+    });
+
+    it('should reject unknown versions', () => {
+        const form = createForm();
+
+        expect(form.restoreState({ version: 99, state: form.serializeState().state })).toEqual([{ path: '', reason: 'Unsupported snapshot version: 99.' }]);
+    });
+});
+
+describe('BindFormRecord', () => {
+    let record: BindFormRecord<string>;
+
+    beforeEach(() => {
+        record = new BindFormRecord<string>(
+            { en: new BindFormControl('Hello') },
+            { controlFactory: (value) => new BindFormControl(value, null, false, BindValidators.required), keyPattern: /^[a-z]{2}$/ }
+        );
+    });
+
+    it('should add and remove the controls of the keys on setValue', () => {
+        const collectionChange = jasmine.createSpy('collectionChange');
+        record._registerOnCollectionChange(collectionChange);
+
+        record.setValue({ fr: 'Bonjour', de: '' });
+
+        expect(Object.keys(record.controls)).toEqual(['fr', 'de']);
+        expect(record.value).toEqual({ fr: 'Bonjour', de: '' });
+        expect(record.get('de')!.errors).toEqual({ required: true });
+        expect(record.get('de')!.parent).toBe(record);
+        expect(record.invalid).toBe(true);
+        expect(collectionChange).toHaveBeenCalledTimes(1);
+    });
+
+    it('should add new keys and remove undefined keys on patchValue', () => {
+        record.patchValue({ fr: 'Bonjour' });
+        expect(record.value).toEqual({ en: 'Hello', fr: 'Bonjour' });
+
+        record.patchValue({ en: undefined, fr: 'Salut' });
+        expect(record.value).toEqual({ fr: 'Salut' });
+    });
+
+    it('should follow the keys of the value on reset', () => {
+        record.setValue({ en: 'Hi', fr: 'Salut' });
+
+        record.reset({ it: 'Ciao' });
+        expect(record.value).toEqual({ it: 'Ciao' });
+        expect(record.pristine).toBe(true);
+
+        record.reset();
+        expect(record.value).toEqual({ it: null });
+    });
+
+    it('should validate the keys', () => {
+        expect(record.isValidKey('fr')).toBe(true);
+        expect(record.isValidKey('fr.ca')).toBe(false);
+        expect(() => record.setValue({ french: 'Bonjour' })).toThrowError(`Invalid key for the form record: 'french'.`);
+        expect(() => record.patchValue({ en: undefined, french: 'Bonjour' })).toThrowError(`Invalid key for the form record: 'french'.`);
+        expect(() => record.reset({ fr: 'Bonjour', french: 'Bonjour' })).toThrowError(`Invalid key for the form record: 'french'.`);
+        expect(() => record.addControl('', new BindFormControl(''))).toThrowError(`Invalid key for the form record: ''.`);
+        expect(() => new BindFormRecord({ 'a.b': new BindFormControl('') })).toThrowError(`Invalid key for the form record: 'a.b'.`);
+        expect(new BindFormRecord().isValidKey('__proto__')).toBe(false);
+        expect(Object.keys(record.controls)).toEqual(['en']);
+        expect(record.value).toEqual({ en: 'Hello' });
+    });
+
+    it('should accept keys named after the methods of objects', () => {
+        const labels = new BindFormRecord<string>({ toString: new BindFormControl('a') });
+
+        labels.setValue({ hasOwnProperty: 'x', toString: 'b' });
+
+        expect(labels.value).toEqual({ hasOwnProperty: 'x', toString: 'b' });
+        expect(labels.contains('hasOwnProperty')).toBe(true);
+        expect(labels.get('hasOwnProperty')!.value).toEqual('x');
+    });
+
+    it('should report the added and removed keys as changes', () => {
+        record.setValue({ fr: 'Salut' });
+
+        expect(record.toJsonPatch()).toEqual([
+            { op: 'remove', path: '/en' },
+            { op: 'add', path: '/fr', value: 'Salut' },
+        ]);
+        const changes = record.getChangedValue();
+        expect(changes).toEqual({ fr: 'Salut', en: undefined });
+        expect(changes.hasOwnProperty('en')).toBe(true);
+
+        const copy = new BindFormRecord<string>({ en: new BindFormControl('Hello') });
+        copy.patchValue(changes);
+        expect(copy.value).toEqual({ fr: 'Salut' });
+    });
+
+    it('should restore the keys of a snapshot', () => {
+        record.setValue({ en: 'Hello', fr: 'Bonjour' });
+        const snapshot = record.serializeState();
+        const restored = new BindFormRecord<string>({}, { controlFactory: (value) => new BindFormControl(value, null, false, BindValidators.required) });
+
+        expect(restored.restoreState(snapshot)).toEqual([]);
+        expect(restored.value).toEqual({ en: 'Hello', fr: 'Bonjour' });
+        restored.get('fr')!.setValue('');
+        expect(restored.get('fr')!.errors).toEqual({ required: true });
+    });
+});
+
+describe('readonly state', () => {
+    let form: BindFormGroup;
+
+    beforeEach(() => {
+        form = new BindFormGroup({
+            name: new BindFormControl('', null, null, BindValidators.required),
+            address: new BindFormGroup({ city: new BindFormControl('Paris'), zip: new BindFormControl('75001') }),
+        });
+    });
+
+    it('should keep readonly controls validated and in the value', () => {
+        form.get('name')!.setReadonly();
+
+        expect(form.get('name')!.readonly).toBe(true);
+        expect(form.get('name')!.errors).toEqual({ required: true });
+        expect(form.invalid).toBe(true);
+        expect(form.value).toEqual({ name: '', address: { city: 'Paris', zip: '75001' } });
+    });
+
+    it('should propagate to descendants and roll up to ancestors', () => {
+        const readonlyChanges: boolean[] = [];
+        (form.get('address.city') as BindFormControl).registerOnReadonlyChange((isReadonly) => readonlyChanges.push(isReadonly));
+
+        form.get('address')!.setReadonly();
+        expect(form.get('address.city')!.readonly).toBe(true);
+        expect(form.readonly).toBe(false);
+
+        form.get('name')!.setReadonly();
+        expect(form.readonly).toBe(true);
+
+        form.get('address.zip')!.setReadonly(false);
+        expect(form.get('address')!.readonly).toBe(false);
+        expect(form.readonly).toBe(false);
+        expect(form.get('address.city')!.readonly).toBe(true);
+        expect(readonlyChanges).toEqual([true]);
+    });
+
+    it('should make the controls added to a readonly parent readonly', () => {
+        const tags = new BindFormArray([new BindFormControl('a')]);
+        const labels = new BindFormRecord<string>({ en: new BindFormControl('Hello') });
+        form.addControl('tags', tags);
+        form.addControl('labels', labels);
+        form.setReadonly();
+
+        form.addControl('phone', new BindFormControl(''));
+        form.setControl('name', new BindFormControl(''));
+        tags.push(new BindFormControl('b'));
+        tags.insert(0, new BindFormControl('c'));
+        labels.setValue({ en: 'Hello', fr: 'Bonjour' });
+
+        expect(form.get('phone')!.readonly).toBe(true);
+        expect(form.get('name')!.readonly).toBe(true);
+        expect(tags.controls.map((control) => control.readonly)).toEqual([true, true, true]);
+        expect(labels.get('fr')!.readonly).toBe(true);
+        expect(form.readonly).toBe(true);
+    });
+
+    it('should roll up when the editable children are removed', () => {
+        const tags = new BindFormArray([new BindFormControl('a'), new BindFormControl('b')]);
+        const labels = new BindFormRecord<string>({ en: new BindFormControl('Hello'), fr: new BindFormControl('Bonjour') });
+        const readonlyName = new BindFormControl('');
+        readonlyName.setReadonly();
+        form.addControl('tags', tags);
+        form.addControl('labels', labels);
+        form.addControl('phone', new BindFormControl(''));
+        form.get('address')!.setReadonly();
+        tags.at(0).setReadonly();
+        labels.get('en')!.setReadonly();
+
+        tags.removeAt(1);
+        labels.setValue({ en: 'Hello' });
+        expect(tags.readonly).toBe(true);
+        expect(labels.readonly).toBe(true);
+        expect(form.readonly).toBe(false);
+
+        form.setControl('name', readonlyName);
+        expect(form.readonly).toBe(false);
+
+        form.removeControl('phone');
+        expect(form.readonly).toBe(true);
+    });
+
+    it('should be serialized with the state', () => {
+        form.get('address.city')!.setReadonly();
+        const snapshot = JSON.parse(JSON.stringify(form.serializeState()));
+        const restored = new BindFormGroup({
+            name: new BindFormControl(''),
+            address: new BindFormGroup({ city: new BindFormControl(''), zip: new BindFormControl('') }),
+        });
+
+        expect(restored.restoreState(snapshot)).toEqual([]);
+        expect(restored.get('address.city')!.readonly).toBe(true);
+        expect(restored.get('address.zip')!.readonly).toBe(false);
+    });
+});
+
+describe('visibility', () => {
+    let form: BindFormGroup;
+
+    beforeEach(() => {
+        form = new BindFormGroup({
+            maritalStatus: new BindFormControl('single'),
+            spouse: new BindFormGroup(
+                { name: new BindFormControl('', null, null, BindValidators.required), phone: new BindFormControl('') },
+                { visibleWhen: visibleWhen(([status]) => status === 'married', ['../maritalStatus']) }
+            ),
+            notes: new BindFormControl('none', null, null, { excludeWhenHidden: true }),
+        });
+    });
+
+    it('should follow the visibleWhen rules and skip the validation of hidden controls', () => {
+        expect(form.get('spouse')!.visible).toBe(false);
+        expect(form.get('spouse.name')!.visible).toBe(false);
+        expect(form.get('spouse.name')!.errors).toBeNull();
+        expect(form.valid).toBe(true);
+
+        form.get('maritalStatus')!.setValue('married');
+
+        expect(form.get('spouse.name')!.visible).toBe(true);
+        expect(form.get('spouse.name')!.errors).toEqual({ required: true });
+        expect(form.valid).toBe(false);
+    });
+
+    it('should leave out the values of hidden controls created with excludeWhenHidden', () => {
+        expect(form.value).toEqual({ maritalStatus: 'single', spouse: { name: '', phone: '' }, notes: 'none' });
+
+        form.get('notes')!.setVisible(false);
+
+        expect(form.value).toEqual({ maritalStatus: 'single', spouse: { name: '', phone: '' } });
+        expect(form.getRawValue()).toEqual({ maritalStatus: 'single', spouse: { name: '', phone: '' }, notes: 'none' });
+    });
+
+    it('should roll up like the disabled state', () => {
+        const visibleChanges: boolean[] = [];
+        form.visibleChanges.subscribe((visible) => visibleChanges.push(visible));
+        form.get('maritalStatus')!.setValue('married');
+
+        form.get('spouse.name')!.setVisible(false);
+        expect(form.get('spouse')!.visible).toBe(true);
+        form.get('spouse.phone')!.setVisible(false);
+        expect(form.get('spouse')!.visible).toBe(false);
+
+        form.get('spouse.phone')!.setVisible(true);
+        expect(form.get('spouse')!.visible).toBe(true);
+
+        form.get('spouse')!.setVisible(false);
+        expect(form.get('spouse.phone')!.visible).toBe(false);
+        expect(visibleChanges).toEqual([]);
+    });
+
+    it('should keep the children hidden by their rule when showing their parent', () => {
+        form.setVisible(false);
+        expect(form.visible).toBe(false);
+
+        form.setVisible(true);
+
+        expect(form.get('notes')!.visible).toBe(true);
+        expect(form.get('spouse')!.visible).toBe(false);
+    });
+});
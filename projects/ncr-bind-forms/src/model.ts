@@ -8,7 +8,7 @@
 
 import { EventEmitter } from '@angular/core';
 
-import { Observable } from 'rxjs';
+import { defer, Observable } from 'rxjs';
 import {
     composeAsyncValidators,
     composeValidators,
@@ -18,8 +18,14 @@ import {
     BindValidatorFn,
     ErrorItemType,
 } from './directives/public_api';
+import { applyAsyncFailurePolicy, AsyncBindValidatorFailurePolicy } from './async_validation';
+import { BindFormControlType, parseControlValue } from './control_types';
+import { BindControlFactory, BindJsonPatchOperation, escapePointerSegment, parsePointer } from './json_patch';
+import { BindServerErrorMapper, mergeServerErrors, resolveServerErrors } from './server_errors';
+import { BindControlSnapshot, BindControlState, BindStateMismatch, decodeStateValue, encodeStateValue, SNAPSHOT_VERSION } from './snapshot';
 import { toObservable } from './shared';
-import { BindTransformerFn } from './transformers';
+import { BindValidators, isAsyncValidatorDeferredTo } from './validators';
+import { BindTransformerPair } from './transformers';
 
 /**
  * Reports that a BindFormControl is valid, meaning that no errors exist in the input value.
@@ -73,7 +79,7 @@ function _find(control: AbstractBindControl, path: Array<string | number> | stri
     let controlToFind: AbstractBindControl | null = control;
     path.forEach((name: string | number) => {
         if (controlToFind instanceof BindFormGroup) {
-            controlToFind = controlToFind.controls.hasOwnProperty(name as string) ? controlToFind.controls[name] : null;
+            controlToFind = _hasOwn(controlToFind.controls, name as string) ? controlToFind.controls[name] : null;
         } else if (controlToFind instanceof BindFormArray) {
             controlToFind = controlToFind.at(name as number) || null;
         } else {
@@ -83,6 +89,82 @@ function _find(control: AbstractBindControl, path: Array<string | number> | stri
     return controlToFind;
 }
 
+/**
+ * Resolves a `dependsOn` path relative to a control: `..` moves to the parent, `.` stays on the
+ * current control, other segments select a child. A leading `/` starts from the root.
+ */
+function _findRelative(control: AbstractBindControl, path: string): AbstractBindControl | null {
+    let current: AbstractBindControl | null = path.charAt(0) === '/' ? control.root : control;
+    const segments = path.split('/');
+    for (let i = 0; i < segments.length && current; i++) {
+        const segment = segments[i];
+        if (segment === '..') {
+            current = current.parent || null;
+        } else if (segment !== '' && segment !== '.') {
+            current = _find(current, [segment], '/');
+        }
+    }
+    return current;
+}
+
+function _controlPath(control: AbstractBindControl): string {
+    const names: string[] = [];
+    let current = control;
+    while (current.parent) {
+        const child = current;
+        current.parent._forEachChild((sibling: AbstractBindControl, name: string | number) => {
+            if (sibling === child) names.unshift(String(name));
+        });
+        current = current.parent;
+    }
+    return names.length > 0 ? names.join('.') : '(root)';
+}
+
+function _cyclicDependencyError(chain: AbstractBindControl[]): Error {
+    return new Error(`Cyclic dependency between form controls: ${chain.map(_controlPath).join(' -> ')}.`);
+}
+
+function _isAncestor(ancestor: AbstractBindControl, control: AbstractBindControl): boolean {
+    let current = control.parent;
+    while (current && current !== ancestor) {
+        current = current.parent;
+    }
+    return current != null;
+}
+
+/** A control depending on its ancestor would be revalidated by its own updates forever. */
+function _ancestorDependencyError(control: AbstractBindControl, ancestor: AbstractBindControl): Error {
+    return new Error(`A form control cannot depend on its ancestor: ${_controlPath(control)} -> ${_controlPath(ancestor)}.`);
+}
+
+/**
+ * Throws when the `dependsOn` declarations of the given controls, followed through their
+ * sources, loop back to a control of the chain or point at an ancestor.
+ */
+function _checkDependencyCycles(controls: AbstractBindControl[]): void {
+    const visited: AbstractBindControl[] = [];
+    const visit = (control: AbstractBindControl, chain: AbstractBindControl[]) => {
+        const index = chain.indexOf(control);
+        if (index !== -1) {
+            throw _cyclicDependencyError([...chain.slice(index), control]);
+        }
+        if (visited.indexOf(control) !== -1) {
+            return;
+        }
+        visited.push(control);
+        control._resolveDependencies().forEach((source) => {
+            if (_isAncestor(source, control)) {
+                throw _ancestorDependencyError(control, source);
+            }
+            visit(source, [...chain, control]);
+        });
+    };
+    controls.forEach((control) => visit(control, []));
+}
+
+/** The controls whose dependents are being revalidated, outermost first. */
+const _updatingSources: AbstractBindControl[] = [];
+
 function coerceToValidator(validatorOrOpts?: BindValidatorFn | BindValidatorFn[] | AbstractBindControlOptions | null): BindValidatorFn | null {
     const validator = (isOptionsObj(validatorOrOpts) ? (validatorOrOpts as AbstractBindControlOptions).validators : validatorOrOpts) as BindValidatorFn | BindValidatorFn[] | null;
 
@@ -101,17 +183,215 @@ function coerceToAsyncValidator(
     return Array.isArray(origAsyncValidator) ? composeAsyncValidators(origAsyncValidator) : origAsyncValidator || null;
 }
 
-function coerceToTransformer(transformerOrOpts?: BindTransformerFn | BindTransformerFn[] | AbstractBindControlOptions | null): BindTransformerFn | null {
-    const transformer = (isOptionsObj(transformerOrOpts) ? (transformerOrOpts as AbstractBindControlOptions).transformers : transformerOrOpts) as
-        | BindTransformerFn
-        | BindTransformerFn[]
-        | null;
+function coerceToTypeValidator(type: BindFormControlType): BindValidatorFn | null {
+    switch (type) {
+        case BindFormControlType.date:
+            return BindValidators.date;
+        case BindFormControlType.year:
+            return BindValidators.year;
+        case BindFormControlType.number:
+            return BindValidators.number;
+        default:
+            return null;
+    }
+}
+
+function coerceToTransformer(
+    transformer?: BindTransformerPair | BindTransformerPair[] | null,
+    validatorOrOpts?: BindValidatorFn | BindValidatorFn[] | AbstractBindControlOptions | null
+): BindTransformerPair | null {
+    const origTransformer = isOptionsObj(validatorOrOpts) ? (validatorOrOpts as AbstractBindControlOptions).transformers : transformer;
+
+    return Array.isArray(origTransformer) ? composeTransformers(origTransformer) : origTransformer || null;
+}
+
+function _errorItemType(item: any): ErrorItemType {
+    return item != null && typeof item === 'object' && item.type != null ? item.type : ErrorItemType.error;
+}
+
+function _mostSevere(a: ErrorItemType | null, b: ErrorItemType | null): ErrorItemType | null {
+    if (a == null) return b;
+    if (b == null) return a;
+    return Math.min(a, b);
+}
+
+function _worstSeverity(errors: ValidationBindErrors | null): ErrorItemType | null {
+    let severity: ErrorItemType | null = null;
+    if (errors) {
+        Object.keys(errors).forEach((key) => (severity = _mostSevere(severity, _errorItemType(errors[key]))));
+    }
+    return severity;
+}
+
+function _filterErrors(errors: ValidationBindErrors | null, predicate: (type: ErrorItemType) => boolean): ValidationBindErrors | null {
+    if (!errors) return null;
+    const res: ValidationBindErrors = {};
+    Object.keys(errors).forEach((key) => {
+        if (predicate(_errorItemType(errors[key]))) res[key] = errors[key];
+    });
+    return Object.keys(res).length === 0 ? null : res;
+}
+
+/**
+ * The merge order of the error sources: later sources override the entries of earlier ones.
+ */
+const ERROR_SOURCES: BindErrorSource[] = ['sync', 'async', 'server', 'manual'];
+
+function _mergeErrorSources(errorsBySource: { [source: string]: ValidationBindErrors | null }): ValidationBindErrors | null {
+    let res: ValidationBindErrors | null = null;
+    ERROR_SOURCES.forEach((source) => {
+        const errors = errorsBySource[source];
+        if (errors && Object.keys(errors).length > 0) {
+            res = { ...res, ...errors };
+        }
+    });
+    return res ? Object.freeze(res) : null;
+}
 
-    return Array.isArray(transformer) ? composeTransformers(transformer) : transformer || null;
+/** Checks own keys without calling `hasOwnProperty` on the object, which may have a key of that name. */
+function _hasOwn(object: object, key: string): boolean {
+    return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+function _sameValue(a: any, b: any): boolean {
+    if (a === b) return true;
+    if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+    if (a == null || b == null || typeof a !== 'object' || typeof b !== 'object' || Array.isArray(a) !== Array.isArray(b)) return false;
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every((key) => _hasOwn(b, key) && _sameValue(a[key], b[key]));
 }
 
 export type BindFormHooks = 'change' | 'blur' | 'submit';
 
+/**
+ * The sources of the errors of a control, each with its own lifecycle:
+ *
+ * * `sync`: the result of the sync validators, replaced at each validation.
+ * * `async`: the result of the async validators, cleared at each validation.
+ * * `server`: errors reported by the server, cleared once the value changes.
+ * * `manual`: errors set by the application, kept until removed.
+ *
+ * @publicApi
+ */
+export type BindErrorSource = 'sync' | 'async' | 'server' | 'manual';
+
+/**
+ * Blocks type inference from the argument it wraps, so that controls created without an
+ * explicit type argument stay untyped (`any`).
+ *
+ * @publicApi
+ */
+export type BindNoInfer<T> = [T][T extends any ? 0 : never];
+
+/**
+ * The string keys of a typed `BindFormGroup` value. Resolves to `string` for untyped groups.
+ *
+ * @publicApi
+ */
+export type BindControlKey<T> = Extract<keyof T, string>;
+
+/**
+ * Maps the value type of a `BindFormGroup` to the type of its `controls`.
+ * Untyped (`any`) groups accept any map of controls.
+ *
+ * @publicApi
+ */
+export type BindControlsOf<T> = 0 extends 1 & T ? { [key: string]: AbstractBindControl } : { [K in keyof T]: AbstractBindControl<T[K]> };
+
+/**
+ * Maps the item type of a `BindFormArray` to the type of its `controls`.
+ * Untyped (`any`) arrays accept any list of controls.
+ *
+ * @publicApi
+ */
+export type BindControlsArrayOf<T> = 0 extends 1 & T ? AbstractBindControl[] : AbstractBindControl<T>[];
+
+/**
+ * A standalone value or a boxed form state object with both a value and a disabled status.
+ *
+ * @publicApi
+ */
+export type BindFormState<T> = T | { value: T; disabled: boolean };
+
+/**
+ * A value where every nested property is optional, as accepted by `patchValue`.
+ *
+ * @publicApi
+ */
+export type BindPartialValue<T> = T extends Date ? T : T extends object ? { [K in keyof T]?: BindPartialValue<T[K]> } : T;
+
+/**
+ * Resolves to the accepted type of untyped paths: anything for untyped (`any`) controls,
+ * nothing for typed ones, which must use key or tuple paths.
+ *
+ * @publicApi
+ */
+export type BindUntypedPath<T> = 0 extends 1 & T ? Array<string | number> | string : never;
+
+/**
+ * How the async validators of a control run relative to its sync validators.
+ *
+ * @publicApi
+ */
+export type BindAsyncMode = 'sequential' | 'parallel';
+
+/**
+ * How composed async validators report their results: `'join'` waits for all of them to
+ * complete, `'stream'` merges the latest result of each validator as it arrives.
+ *
+ * @publicApi
+ */
+export type BindAsyncComposeMode = 'join' | 'stream';
+
+/**
+ * A rule showing a control only while a predicate holds, see `visibleWhen()`.
+ *
+ * @publicApi
+ */
+export interface BindVisibilityRule {
+    /**
+     * @description
+     * Whether the control is visible, given the values of the `deps` controls, in order, and the
+     * control itself. The values of the controls that cannot be reached are undefined.
+     */
+    predicate: (values: any[], control: AbstractBindControl) => boolean;
+    /**
+     * @description
+     * The paths of the controls the predicate reads, relative to the control as with `dependsOn`.
+     */
+    deps: string[];
+}
+
+/**
+ * Creates a rule showing a control only while a predicate holds, for the `visibleWhen` option
+ * of the controls. The rule is evaluated each time one of the `deps` controls updates.
+ *
+ * @usageNotes
+ *
+ * ### Show the details of the spouse of married people
+ *
+ * ```ts
+ * const form = new BindFormGroup({
+ *   maritalStatus: new BindFormControl('single'),
+ *   spouse: new BindFormGroup(
+ *     { name: new BindFormControl('', null, false, BindValidators.required) },
+ *     { visibleWhen: visibleWhen(([status]) => status === 'married', ['../maritalStatus']) }
+ *   ),
+ * });
+ *
+ * console.log(form.get('spouse').visible); // false
+ * console.log(form.valid); // true, hidden controls are not validated
+ * ```
+ *
+ * @param predicate Whether the control is visible, given the values of the `deps` controls.
+ * @param deps The paths of the controls the predicate reads.
+ *
+ * @publicApi
+ */
+export function visibleWhen(predicate: (values: any[], control: AbstractBindControl) => boolean, deps: string[]): BindVisibilityRule {
+    return { predicate, deps };
+}
+
 /**
  * Interface for options provided to an `AbstractBindControl`.
  *
@@ -130,14 +410,57 @@ export interface AbstractBindControlOptions {
     asyncValidators?: AsyncBindValidatorFn | AsyncBindValidatorFn[] | null;
     /**
      * @description
-     * The list of validators applied to a control.
+     * The list of transformers applied between a control and its view, see `BindTransformers`.
      */
-    transformers?: BindTransformerFn | BindTransformerFn[] | null;
+    transformers?: BindTransformerPair | BindTransformerPair[] | null;
     /**
      * @description
      * The event name for control to update upon.
      */
     updateOn?: 'change' | 'blur' | 'submit';
+    /**
+     * @description
+     * How async validators run relative to the sync ones: `'sequential'` (the default) skips
+     * them while the control is invalid, `'parallel'` runs them with every validation.
+     */
+    asyncMode?: BindAsyncMode;
+    /**
+     * @description
+     * How the results of the composed async validators are reported, see `BindValidators.composeAsync`.
+     */
+    asyncCompose?: BindAsyncComposeMode;
+    /**
+     * @description
+     * What happens when the async validators fail, see `AsyncBindValidatorFailurePolicy`.
+     */
+    asyncFailurePolicy?: AsyncBindValidatorFailurePolicy;
+    /**
+     * @description
+     * Compares the value of the control with its `baseline`, deep equality by default.
+     */
+    compareWith?: (value: any, baseline: any) => boolean;
+    /**
+     * @description
+     * Whether the value of the control must never be persisted, e.g. in drafts, see `sensitive`.
+     */
+    sensitive?: boolean;
+    /**
+     * @description
+     * The paths of the controls this control depends on, relative to this control
+     * (e.g. `'../country'`). The control is revalidated each time one of them updates.
+     */
+    dependsOn?: string[];
+    /**
+     * @description
+     * Shows the control only while the rule holds, see `visibleWhen()`.
+     */
+    visibleWhen?: BindVisibilityRule;
+    /**
+     * @description
+     * Whether the value of the control is left out of the value of its parent while the
+     * control is hidden. False by default.
+     */
+    excludeWhenHidden?: boolean;
 }
 
 function isOptionsObj(validatorOrOpts?: BindValidatorFn | BindValidatorFn[] | AbstractBindControlOptions | null): boolean {
@@ -158,7 +481,7 @@ function isOptionsObj(validatorOrOpts?: BindValidatorFn | BindValidatorFn[] | Ab
  *
  * @publicApi
  */
-export abstract class AbstractBindControl {
+export abstract class AbstractBindControl<T = any> {
     /**
      * Initialize the AbstractBindControl instance.
      *
@@ -262,6 +585,26 @@ export abstract class AbstractBindControl {
         return !this.pristine;
     }
 
+    /**
+     * Whether the value of the control must never be persisted, e.g. by the `bindAutosave`
+     * directive. The descendants of a sensitive control are sensitive as well.
+     */
+    get sensitive(): boolean {
+        return this._sensitive || (!!this._parent && this._parent.sensitive);
+    }
+
+    set sensitive(value: boolean) {
+        this._sensitive = value;
+    }
+
+    /**
+     * The value the control compares its value with to become `pristine` again: the value at
+     * construction, at the last `reset()` or at the last `markAsSaved()`.
+     */
+    get baseline(): T {
+        return this._baseline;
+    }
+
     /**
      * True if the control has not been marked as touched
      *
@@ -272,6 +615,47 @@ export abstract class AbstractBindControl {
         return !this.touched;
     }
 
+    /**
+     * The entries of `errors` that block the control (severity `ErrorItemType.error`),
+     * or null if there are none.
+     */
+    get blockingErrors(): ValidationBindErrors | null {
+        return _filterErrors(this.errors, (type) => type <= ErrorItemType.error);
+    }
+
+    /**
+     * The entries of `errors` with severity `ErrorItemType.alert`, or null if there are none.
+     *
+     * Warnings put the control in the `WARNED` state but don't make it invalid.
+     */
+    get warnings(): ValidationBindErrors | null {
+        return _filterErrors(this.errors, (type) => type > ErrorItemType.error && type <= ErrorItemType.alert);
+    }
+
+    /**
+     * The entries of `errors` with severity `ErrorItemType.help`, `ErrorItemType.info` or
+     * `ErrorItemType.ok`, or null if there are none.
+     *
+     * These are hints to display next to the control; they don't affect its status.
+     */
+    get infos(): ValidationBindErrors | null {
+        return _filterErrors(this.errors, (type) => type > ErrorItemType.alert);
+    }
+
+    /**
+     * The most severe `ErrorItemType` found in the errors of this control and of its
+     * enabled descendants, or null if there are no errors at all.
+     */
+    get severity(): ErrorItemType | null {
+        if (this.disabled) return null;
+
+        let severity = _worstSeverity(this.errors);
+        this._forEachChild((control: AbstractBindControl) => {
+            severity = _mostSevere(severity, control.severity);
+        });
+        return severity;
+    }
+
     /**
      * Reports the update strategy of the `AbstractBindControl` (meaning
      * the event on which the control updates itself).
@@ -282,6 +666,32 @@ export abstract class AbstractBindControl {
         return this._updateOn ? this._updateOn : this.parent ? this.parent.updateOn : 'change';
     }
 
+    /**
+     * Reports how the async validators of the `AbstractBindControl` run.
+     * Possible values: `'sequential'` | `'parallel'`
+     * Default value: `'sequential'`
+     */
+    get asyncMode(): BindAsyncMode {
+        return this._asyncMode ? this._asyncMode : this.parent ? this.parent.asyncMode : 'sequential';
+    }
+
+    /**
+     * Reports how the results of the composed async validators of the `AbstractBindControl` are reported.
+     * Possible values: `'join'` | `'stream'`
+     * Default value: `'join'`
+     */
+    get asyncCompose(): BindAsyncComposeMode {
+        return this._asyncCompose ? this._asyncCompose : this.parent ? this.parent.asyncCompose : 'join';
+    }
+
+    /**
+     * Reports what happens when the async validators of the `AbstractBindControl` fail.
+     * Default value: `{}`, reporting an `asyncValidatorFailed` error without retry.
+     */
+    get asyncFailurePolicy(): AsyncBindValidatorFailurePolicy {
+        return this._asyncFailurePolicy ? this._asyncFailurePolicy : this.parent ? this.parent.asyncFailurePolicy : {};
+    }
+
     /**
      * Retrieves the top-level ancestor of this control.
      */
@@ -305,6 +715,69 @@ export abstract class AbstractBindControl {
     /** @internal */
     _updateOn: BindFormHooks;
 
+    /** @internal */
+    _asyncMode: BindAsyncMode;
+
+    /** @internal */
+    _asyncCompose: BindAsyncComposeMode;
+
+    /** @internal */
+    _asyncFailurePolicy: AsyncBindValidatorFailurePolicy;
+
+    /** @internal */
+    _baseline: T;
+
+    /** @internal */
+    _sensitive = false;
+
+    /** @internal */
+    _visibleWhen: BindVisibilityRule | null = null;
+
+    /**
+     * The last result of the `visibleWhen` rule.
+     *
+     * @internal
+     */
+    _ruleVisible = true;
+
+    /** @internal */
+    _excludeWhenHidden = false;
+
+    /** @internal */
+    _compareWith: (value: any, baseline: any) => boolean = _sameValue;
+
+    /**
+     * The event running the async validators, read by `BindValidators.withAsyncOptions`.
+     *
+     * @internal
+     */
+    _asyncTrigger: BindFormHooks = 'change';
+
+    /**
+     * The errors of the control by source, merged into `errors`.
+     *
+     * @internal
+     */
+    _errorsBySource: { [source: string]: ValidationBindErrors | null } = {};
+
+    /**
+     * The value of the control when the server errors were set.
+     *
+     * @internal
+     */
+    _serverErrorsValue: any;
+
+    /**
+     * The number of controls of this subtree, this one included, that declare dependencies.
+     * Updates skip the lookup of dependents while the root counts none.
+     *
+     * @internal
+     */
+    _dependentCount = 0;
+
+    private _declaresDependencies = false;
+    /** The collection whose `_dependentCount` includes this subtree. */
+    private _countedIn: AbstractBindControl | null = null;
     private _parent: BindFormGroup | BindFormArray;
     private _asyncValidationSubscription: any;
 
@@ -319,16 +792,25 @@ export abstract class AbstractBindControl {
      * * For a `BindFormArray`, the values of enabled controls as an array.
      *
      */
-    public readonly value: any;
+    public readonly value: T;
+
+    /**
+     * The `{ parse, format }` pair converting the value between the view and the control.
+     */
+    public transformer: BindTransformerPair | null = null;
 
-    public transformer: BindTransformerFn | null;
+    /**
+     * The paths of the controls this control depends on, see `AbstractBindControlOptions.dependsOn`.
+     * Use `setDependsOn` to change them.
+     */
+    public dependsOn: string[] = [];
 
     /**
      * The validation status of the control. There are four possible
      * validation status values:
      *
      * * **VALID**: This control has passed all validation checks.
-     * * **INVALID**: This control has failed at least one validation check.
+     * * **INVALID**: This control has failed at least one blocking (`ErrorItemType.error`) check.
      * * **WARNED**: This control has failed at least one not-blocking alert check.
      * * **PENDING**: This control is in the midst of conducting a validation check.
      * * **DISABLED**: This control is exempt from validation checks.
@@ -341,16 +823,28 @@ export abstract class AbstractBindControl {
     /**
      * An object containing any errors generated by failing validation,
      * or null if there are no errors.
+     *
+     * Each entry may carry its own `ErrorItemType` severity, see `blockingErrors`,
+     * `warnings` and `infos`.
      */
     // TODO(issue/24571): remove '!'.
     public readonly errors!: ValidationBindErrors | null;
 
+    /**
+     * The names of the composed async validators still running, see `BindValidators.composeAsync`.
+     * A validator is named after its function, or after its position when the function is anonymous.
+     * The control stays `PENDING` while the list isn't empty.
+     */
+    public readonly pendingValidators: string[] = [];
+
     /**
      * A control is `pristine` if the user has not yet changed
      * the value in the UI.
      *
      * @returns True if the user has not yet changed the value in the UI; compare `dirty`.
-     * Programmatic changes to a control's value do not mark it dirty.
+     * Programmatic changes to a control's value do not mark it dirty. A dirty control becomes
+     * pristine again when its value changes back to its `baseline`, a group or an array when
+     * all its children are pristine again.
      */
     public readonly pristine: boolean = true;
 
@@ -362,12 +856,36 @@ export abstract class AbstractBindControl {
      */
     public readonly touched: boolean = false;
 
+    /**
+     * A control is `readonly` when its value is shown but cannot be edited in the UI, see
+     * `setReadonly()`.
+     *
+     * Unlike disabled controls, readonly controls are validated and included in the
+     * aggregate value of their ancestor controls.
+     */
+    public readonly readonly: boolean = false;
+
+    /**
+     * A control is `visible` unless hidden with `setVisible(false)` or by its `visibleWhen`
+     * rule.
+     *
+     * Hidden controls are exempt from validation checks. They are included in the aggregate
+     * value of their ancestor controls, unless created with the `excludeWhenHidden` option.
+     */
+    public readonly visible: boolean = true;
+
+    /**
+     * A multicasting observable that emits the `visible` state of the control each time it
+     * changes. It emits regardless of the `emitEvent` options, for the view to follow the state.
+     */
+    public readonly visibleChanges: Observable<boolean>;
+
     /**
      * A multicasting observable that emits an event every time the value of the control changes, in
      * the UI or programmatically. It also emits an event each time you call enable() or disable()
      * without passing along {emitEvent: false} as a function argument.
      */
-    public readonly valueChanges: Observable<any>;
+    public readonly valueChanges: Observable<T>;
 
     /**
      * A multicasting observable that emits an event every time the validation `status` of the control
@@ -381,6 +899,9 @@ export abstract class AbstractBindControl {
     /** @internal */
     _onDisabledChange: Function[] = [];
 
+    /** @internal */
+    _onReadonlyChange: Function[] = [];
+
     /** @internal */
     _onCollectionChange = () => {};
 
@@ -397,17 +918,32 @@ export abstract class AbstractBindControl {
     }
 
     /**
-     * Sets the synchronous validators that are active on this control.  Calling
-     * this overwrites any existing sync validators.
+     * Sets the transformers that are active on this control. Calling
+     * this overwrites any existing transformers.
      *
-     * When you add or remove a validator at run time, you must call
-     * `updateValueAndValidity()` for the new validation to take effect.
+     * Transformers apply to the next value exchanged with the view.
      *
      */
-    setTransformers(newTransformer: BindTransformerFn | BindTransformerFn[] | null): void {
+    setTransformers(newTransformer: BindTransformerPair | BindTransformerPair[] | null): void {
         this.transformer = coerceToTransformer(newTransformer);
     }
 
+    /**
+     * Sets the paths of the controls this control depends on. Calling this
+     * overwrites any existing dependencies.
+     *
+     * Paths are relative to this control: `..` is the parent, and a leading `/` starts
+     * from the root. The control is revalidated each time one of the resolved controls
+     * updates, e.g. a VAT number control depending on `'../country'`.
+     *
+     * @throws An error when the dependencies form a cycle.
+     */
+    setDependsOn(paths: string[] | null): void {
+        this.dependsOn = paths || [];
+        this._countDependencies();
+        _checkDependencyCycles([this]);
+    }
+
     /**
      * Sets the async validators that are active on this control. Calling this
      * overwrites any existing async validators.
@@ -551,6 +1087,107 @@ export abstract class AbstractBindControl {
         }
     }
 
+    /**
+     * Marks the current value of the control and its descendants as saved: it becomes their
+     * `baseline` and the controls are marked `pristine`.
+     *
+     * @param opts Configuration options that determine how the control propagates changes
+     * and emits events after marking is applied.
+     * * `onlySelf`: When true, mark only this control. When false or not supplied,
+     * marks all direct ancestors. Default is false.
+     */
+    markAsSaved(opts: { onlySelf?: boolean } = {}): void {
+        this._forEachChild((control: AbstractBindControl) => control.markAsSaved({ onlySelf: true }));
+        this._saveBaseline();
+        this.markAsPristine(opts);
+    }
+
+    /**
+     * Reports the JSON Patch (RFC 6902) operations turning the `baseline` of the control into its
+     * value: `replace` operations for the changed values, `add` and `remove` operations for the
+     * controls added to or removed from its groups, and `add`, `remove` and `move` operations for
+     * the controls added to, removed from or moved within its arrays. Disabled controls are ignored.
+     *
+     * @usageNotes
+     * ### Send the changes of a form
+     *
+     * ```
+     * const form = new BindFormGroup({
+     *   name: new BindFormControl('John'),
+     *   tags: new BindFormArray([new BindFormControl('a')]),
+     * });
+     * form.get('name').setValue('Jane');
+     * (form.get('tags') as BindFormArray).push(new BindFormControl('b'));
+     *
+     * console.log(form.toJsonPatch());
+     * // [{op: 'replace', path: '/name', value: 'Jane'}, {op: 'add', path: '/tags/1', value: 'b'}]
+     * ```
+     */
+    toJsonPatch(): BindJsonPatchOperation[] {
+        const operations: BindJsonPatchOperation[] = [];
+        this._collectPatch('', operations);
+        return operations;
+    }
+
+    /**
+     * Applies JSON Patch (RFC 6902) operations to the control tree. Values are set on the
+     * existing controls, while `add` operations targeting a new array item or group member
+     * create its control, and `remove` and `move` operations remove or move controls.
+     *
+     * @param operations The operations, applied in order.
+     * @param createControl Creates the controls of the added values, a `BindFormControl`
+     * holding the value by default.
+     *
+     * @throws When a path doesn't resolve to a control, or when a `test` operation fails.
+     */
+    applyJsonPatch(operations: BindJsonPatchOperation[], createControl: BindControlFactory = _createPatchControl): void {
+        operations.forEach((operation) => _applyPatchOperation(this, operation, createControl));
+    }
+
+    /**
+     * Serializes the state of the control tree: the values and types of the controls, their
+     * `disabled`, `pristine` and `touched` flags, their `manual` and `server` errors, their own
+     * `updateOn` option and the items of the arrays. The snapshot is versioned and only holds
+     * JSON values, see `restoreState()`.
+     *
+     * @param opts Configuration options:
+     * * `omitSensitive`: When true, the values of the `sensitive` controls are left out of the
+     * snapshot, restoring it leaving them unchanged. Default is false.
+     */
+    serializeState(opts: { omitSensitive?: boolean } = {}): BindControlSnapshot {
+        return { version: SNAPSHOT_VERSION, state: _serializeControlState(this, !!opts.omitSensitive) };
+    }
+
+    /**
+     * Restores the state of the control tree from a snapshot returned by `serializeState()`.
+     * Arrays are resized to match the snapshot, new items getting controls built from their
+     * state. The differences between the snapshot and the tree, e.g. a control the snapshot
+     * has no state for, are reported rather than thrown, and the rest of the tree is restored.
+     *
+     * @param snapshot The snapshot to restore.
+     * @param opts Configuration options:
+     * * `emitEvent`: When true or not supplied (the default), the `statusChanges` and
+     * `valueChanges` observables emit events once the tree is restored.
+     *
+     * @returns The differences between the snapshot and the tree, empty if it fully matched.
+     */
+    restoreState(snapshot: BindControlSnapshot, opts: { emitEvent?: boolean } = {}): BindStateMismatch[] {
+        const mismatches: BindStateMismatch[] = [];
+        if (!snapshot || snapshot.version !== SNAPSHOT_VERSION) {
+            mismatches.push({ path: '', reason: `Unsupported snapshot version: ${snapshot ? snapshot.version : snapshot}.` });
+            return mismatches;
+        }
+        _restoreControlState(this, snapshot.state, [], mismatches);
+        // errors are restored once the values are, server errors recording the value they apply to
+        this._updateTreeValidity({ emitEvent: false });
+        _restoreControlErrors(this, snapshot.state);
+        this._updateTreeValidity({ emitEvent: opts.emitEvent });
+        if (this.parent) {
+            this.parent.updateValueAndValidity({ emitEvent: opts.emitEvent });
+        }
+        return mismatches;
+    }
+
     /**
      * Marks the control as `pending`.
      *
@@ -603,6 +1240,7 @@ export abstract class AbstractBindControl {
 
         (this as { status: string }).status = DISABLED;
         (this as { errors: ValidationBindErrors | null }).errors = null;
+        this._cancelExistingSubscription();
         this._forEachChild((control: AbstractBindControl) => {
             control.disable({ ...opts, onlySelf: true });
         });
@@ -612,42 +1250,159 @@ export abstract class AbstractBindControl {
             (this.valueChanges as EventEmitter<any>).emit(this.value);
             (this.statusChanges as EventEmitter<string>).emit(this.status);
         }
-
-        this._updateAncestors({ ...opts, skipPristineCheck });
-        this._onDisabledChange.forEach((changeFn) => changeFn(true));
+
+        this._updateAncestors({ ...opts, skipPristineCheck });
+        this._onDisabledChange.forEach((changeFn) => changeFn(true));
+    }
+
+    /**
+     * Enables the control. This means the control is included in validation checks and
+     * the aggregate value of its parent. Its status recalculates based on its value and
+     * its validators.
+     *
+     * By default, if the control has children, all children are enabled.
+     *
+     * @see {@link AbstractBindControl.status}
+     *
+     * @param opts Configure options that control how the control propagates changes and
+     * emits events when marked as untouched
+     * * `onlySelf`: When true, mark only this control. When false or not supplied,
+     * marks all direct ancestors. Default is false..
+     * * `emitEvent`: When true or not supplied (the default), both the `statusChanges` and
+     * `valueChanges`
+     * observables emit events with the latest status and value when the control is enabled.
+     * When false, no events are emitted.
+     */
+    enable(opts: { onlySelf?: boolean; emitEvent?: boolean } = {}): void {
+        // If parent has been marked artificially dirty we don't want to re-calculate the
+        // parent's dirtiness based on the children.
+        const skipPristineCheck = this._parentMarkedDirty(opts.onlySelf);
+
+        (this as { status: string }).status = VALID;
+        this._forEachChild((control: AbstractBindControl) => {
+            control.enable({ ...opts, onlySelf: true });
+        });
+        this.updateValueAndValidity({ onlySelf: true, emitEvent: opts.emitEvent });
+
+        this._updateAncestors({ ...opts, skipPristineCheck });
+        this._onDisabledChange.forEach((changeFn) => changeFn(false));
+    }
+
+    /**
+     * Makes the control readonly, or editable again. A readonly control is shown but cannot be
+     * edited in the UI, while its value is still validated and included in the value of its
+     * parent, unlike a disabled control.
+     *
+     * If the control has children, all children are also made readonly or editable. A parent
+     * becomes readonly once all its children are readonly, and editable again as soon as one of
+     * them is. The controls added to a readonly parent are made readonly, and the parent is
+     * updated when its children are removed.
+     *
+     * @param readonly Whether the control is readonly. Default is true.
+     * @param opts Configuration options that determine how the control propagates the change.
+     * * `onlySelf`: When true, only this control and its descendants change. When false or not
+     * supplied, the readonly state of the direct ancestors is updated as well. Default is false.
+     */
+    setReadonly(readonly: boolean = true, opts: { onlySelf?: boolean } = {}): void {
+        this._forEachChild((control: AbstractBindControl) => control.setReadonly(readonly, { onlySelf: true }));
+        this._setReadonlyState(readonly);
+        if (this._parent && !opts.onlySelf) {
+            this._parent._updateReadonly();
+        }
+    }
+
+    /**
+     * Shows or hides the control. Hidden controls are exempt from validation checks, and left
+     * out of the value of their parent when created with the `excludeWhenHidden` option. The
+     * view follows the state through the `*bindVisible` directive.
+     *
+     * If the control has children, all children are also shown or hidden, except the children
+     * whose `visibleWhen` rule doesn't hold, which stay hidden. A parent is hidden once all its
+     * children are hidden, and shown again as soon as one of them is shown.
+     *
+     * The state set by this method lasts until the result of the `visibleWhen` rule of the
+     * control, if any, changes.
+     *
+     * @param visible Whether the control is visible. Default is true.
+     * @param opts Configuration options that determine how the control propagates changes and
+     * emits events after the change.
+     * * `onlySelf`: When true, mark only this control. When false or not supplied,
+     * marks all direct ancestors. Default is false.
+     * * `emitEvent`: When true or not supplied (the default), both the `statusChanges` and
+     * `valueChanges` observables emit events with the latest status and value.
+     * When false, no events are emitted.
+     */
+    setVisible(visible: boolean = true, opts: { onlySelf?: boolean; emitEvent?: boolean } = {}): void {
+        this._applyVisible(visible);
+        this._forEachChild((control: AbstractBindControl) => control._updateTreeValidity({ emitEvent: opts.emitEvent }));
+        this.updateValueAndValidity(opts);
+    }
+
+    /**
+     * Sets the visibility of the control and its descendants, without updating their value
+     * and validity.
+     *
+     * @internal
+     */
+    _applyVisible(visible: boolean): void {
+        this._forEachChild((control: AbstractBindControl) => control._applyVisible(visible && control._ruleVisible));
+        this._setVisibleState(visible);
+    }
+
+    /**
+     * Whether the value of the control is left out of the value of its parent, as it is
+     * hidden with the `excludeWhenHidden` option.
+     *
+     * @internal
+     */
+    _isExcludedWhenHidden(): boolean {
+        return !this.visible && this._excludeWhenHidden;
+    }
+
+    private _setVisibleState(visible: boolean): void {
+        if (this.visible !== visible) {
+            (this as { visible: boolean }).visible = visible;
+            (this.visibleChanges as EventEmitter<boolean>).emit(visible);
+        }
+    }
+
+    /**
+     * Rolls up the readonly state of the children, a control with children being readonly
+     * when all of them are.
+     *
+     * @internal
+     */
+    _updateReadonly(): void {
+        let count = 0;
+        let readonly = true;
+        this._forEachChild((control: AbstractBindControl) => {
+            count++;
+            readonly = readonly && control.readonly;
+        });
+        if (count > 0 && readonly !== this.readonly) {
+            this._setReadonlyState(readonly);
+            if (this._parent) {
+                this._parent._updateReadonly();
+            }
+        }
     }
 
     /**
-     * Enables the control. This means the control is included in validation checks and
-     * the aggregate value of its parent. Its status recalculates based on its value and
-     * its validators.
-     *
-     * By default, if the control has children, all children are enabled.
-     *
-     * @see {@link AbstractBindControl.status}
+     * Makes a control added to a readonly collection readonly as well.
      *
-     * @param opts Configure options that control how the control propagates changes and
-     * emits events when marked as untouched
-     * * `onlySelf`: When true, mark only this control. When false or not supplied,
-     * marks all direct ancestors. Default is false..
-     * * `emitEvent`: When true or not supplied (the default), both the `statusChanges` and
-     * `valueChanges`
-     * observables emit events with the latest status and value when the control is enabled.
-     * When false, no events are emitted.
+     * @internal
      */
-    enable(opts: { onlySelf?: boolean; emitEvent?: boolean } = {}): void {
-        // If parent has been marked artificially dirty we don't want to re-calculate the
-        // parent's dirtiness based on the children.
-        const skipPristineCheck = this._parentMarkedDirty(opts.onlySelf);
-
-        (this as { status: string }).status = VALID;
-        this._forEachChild((control: AbstractBindControl) => {
-            control.enable({ ...opts, onlySelf: true });
-        });
-        this.updateValueAndValidity({ onlySelf: true, emitEvent: opts.emitEvent });
+    _adoptReadonly(parent: AbstractBindControl): void {
+        if (parent.readonly && !this.readonly) {
+            this.setReadonly(true, { onlySelf: true });
+        }
+    }
 
-        this._updateAncestors({ ...opts, skipPristineCheck });
-        this._onDisabledChange.forEach((changeFn) => changeFn(false));
+    private _setReadonlyState(readonly: boolean): void {
+        if (this.readonly !== readonly) {
+            (this as { readonly: boolean }).readonly = readonly;
+            this._onReadonlyChange.forEach((changeFn) => changeFn(readonly));
+        }
     }
 
     private _updateAncestors(opts: { onlySelf?: boolean; emitEvent?: boolean; skipPristineCheck?: boolean }) {
@@ -665,6 +1420,7 @@ export abstract class AbstractBindControl {
      */
     setParent(parent: BindFormGroup | BindFormArray): void {
         this._parent = parent;
+        this._countDependentsIn(parent);
     }
 
     /**
@@ -675,12 +1431,12 @@ export abstract class AbstractBindControl {
     /**
      * Sets the value of the control. Abstract method (implemented in sub-classes).
      */
-    abstract setValue(value: any, options?: Object): void;
+    abstract setValue(value: T, options?: Object): void;
 
     /**
      * Patches the value of the control. Abstract method (implemented in sub-classes).
      */
-    abstract patchValue(value: any, options?: Object): void;
+    abstract patchValue(value: T | BindPartialValue<T>, options?: Object): void;
 
     /**
      * Resets the control. Abstract method (implemented in sub-classes).
@@ -702,17 +1458,29 @@ export abstract class AbstractBindControl {
      * When false, no events are emitted.
      */
     updateValueAndValidity(opts: { onlySelf?: boolean; emitEvent?: boolean } = {}): void {
+        this._evaluateVisibility(opts.emitEvent);
         this._setInitialStatus();
+        this._updateVisible();
         this._updateValue();
+        // a dirty control becomes pristine again once it is back to its baseline
+        if (!this.pristine && !this._anyControlsDirty() && this._matchesBaseline()) {
+            (this as { pristine: boolean }).pristine = true;
+        }
 
         if (this.enabled) {
             this._cancelExistingSubscription();
+            if (this._errorsBySource.server && !_sameValue(this.value, this._serverErrorsValue)) {
+                this._errorsBySource.server = null;
+            }
+            // hidden controls are not validated, their errors coming back once shown
+            this._errorsBySource.sync = this.visible ? this._runValidator() : null;
+            this._errorsBySource.async = null;
             (this as {
                 errors: ValidationBindErrors | null;
-            }).errors = this._runValidator();
+            }).errors = this.visible ? _mergeErrorSources(this._errorsBySource) : null;
             (this as { status: string }).status = this._calculateStatus();
 
-            if (this.status === VALID || this.status === PENDING) {
+            if (this.visible && this._shouldRunAsyncValidator()) {
                 this._runAsyncValidator(opts.emitEvent);
             }
         }
@@ -725,6 +1493,107 @@ export abstract class AbstractBindControl {
         if (this._parent && !opts.onlySelf) {
             this._parent.updateValueAndValidity(opts);
         }
+
+        if (!opts.onlySelf) {
+            this._updateDependents(opts.emitEvent);
+        }
+    }
+
+    /**
+     * Revalidates the controls of the form that depend on this control.
+     *
+     * @internal
+     */
+    _updateDependents(emitEvent?: boolean): void {
+        const root = this.root;
+        if (root._dependentCount === 0) {
+            return;
+        }
+        const dependents: AbstractBindControl[] = [];
+        root._collectDependents(this, dependents);
+        if (dependents.length === 0) {
+            return;
+        }
+        _updatingSources.push(this);
+        try {
+            dependents.forEach((dependent) => {
+                const index = _updatingSources.indexOf(dependent);
+                if (index !== -1) {
+                    throw _cyclicDependencyError([..._updatingSources.slice(index), dependent]);
+                }
+                if (_isAncestor(this, dependent)) {
+                    throw _ancestorDependencyError(dependent, this);
+                }
+                dependent.updateValueAndValidity({ emitEvent });
+            });
+        } finally {
+            _updatingSources.pop();
+        }
+    }
+
+    /**
+     * Collects the enabled descendants that depend on `source`, only visiting the subtrees
+     * that declare dependencies.
+     *
+     * @internal
+     */
+    _collectDependents(source: AbstractBindControl, dependents: AbstractBindControl[]): void {
+        this._forEachChild((control: AbstractBindControl) => {
+            if (control.enabled && control._dependentCount > 0) {
+                if (control._declaresDependencies && control._resolveDependencies().indexOf(source) !== -1) dependents.push(control);
+                control._collectDependents(source, dependents);
+            }
+        });
+    }
+
+    /**
+     * Counts the dependencies declared by the control in the subtrees it belongs to.
+     *
+     * @internal
+     */
+    _countDependencies(): void {
+        const declares = this._dependencyPaths().length > 0;
+        if (declares !== this._declaresDependencies) {
+            this._declaresDependencies = declares;
+            this._addDependentCount(declares ? 1 : -1);
+        }
+    }
+
+    /**
+     * The controls matching the `dependsOn` paths that are currently reachable.
+     *
+     * @internal
+     */
+    _resolveDependencies(): AbstractBindControl[] {
+        return this._dependencyPaths()
+            .map((path) => _findRelative(this, path))
+            .filter((control) => control != null && control !== this) as AbstractBindControl[];
+    }
+
+    /**
+     * The `dependsOn` paths and the paths read by the `visibleWhen` rule.
+     *
+     * @internal
+     */
+    _dependencyPaths(): string[] {
+        return this._visibleWhen ? this.dependsOn.concat(this._visibleWhen.deps) : this.dependsOn;
+    }
+
+    /**
+     * Revalidates the descendants once the tree is built, as the sources of their
+     * dependencies may not have been reachable when they were created.
+     *
+     * @internal
+     */
+    _updateDependentsValidity(): void {
+        if (this._dependentCount === 0) {
+            return;
+        }
+        const dependents = this._findControls((control) => control._dependencyPaths().length > 0);
+        if (dependents.length > 0) {
+            _checkDependencyCycles(dependents);
+            this._forEachChild((control: AbstractBindControl) => control._updateTreeValidity({ emitEvent: false }));
+        }
     }
 
     /** @internal */
@@ -737,16 +1606,139 @@ export abstract class AbstractBindControl {
         (this as { status: string }).status = this._allControlsDisabled() ? DISABLED : VALID;
     }
 
+    private _countDependentsIn(collection: AbstractBindControl | null): void {
+        if (this._countedIn) this._countedIn._addDependentCount(-this._dependentCount);
+        this._countedIn = collection;
+        if (collection) collection._addDependentCount(this._dependentCount);
+    }
+
+    private _addDependentCount(delta: number): void {
+        let control: AbstractBindControl | null = this;
+        while (control) {
+            control._dependentCount += delta;
+            control = control._countedIn;
+        }
+    }
+
+    /**
+     * Evaluates the `visibleWhen` rule of the control, showing or hiding the control and its
+     * descendants when its result changes.
+     */
+    private _evaluateVisibility(emitEvent?: boolean): void {
+        if (!this._visibleWhen) {
+            return;
+        }
+        const values = this._visibleWhen.deps.map((path) => {
+            const control = _findRelative(this, path);
+            return control ? control.value : undefined;
+        });
+        const visible = !!this._visibleWhen.predicate(values, this);
+        if (visible !== this._ruleVisible) {
+            this._ruleVisible = visible;
+            this._applyVisible(visible && this._ancestorsVisibleByRule());
+            this._forEachChild((control: AbstractBindControl) => control._updateTreeValidity({ emitEvent }));
+        }
+    }
+
+    /**
+     * Rolls up the visibility of the children, a control with children being visible as long
+     * as one of them is.
+     */
+    private _updateVisible(): void {
+        let count = 0;
+        let visible = false;
+        this._forEachChild((control: AbstractBindControl) => {
+            count++;
+            visible = visible || control.visible;
+        });
+        if (count > 0) {
+            this._setVisibleState(visible);
+        }
+    }
+
+    private _ancestorsVisibleByRule(): boolean {
+        for (let parent = this.parent; parent; parent = parent.parent) {
+            if (!parent._ruleVisible) return false;
+        }
+        return true;
+    }
+
     private _runValidator(): ValidationBindErrors | null {
-        return this.validator ? this.validator(this) : null;
+        const errors = this.validator ? this.validator(this) : null;
+        const typeErrors = this._runTypeValidator();
+        return typeErrors ? { ...typeErrors, ...errors } : errors;
+    }
+
+    /**
+     * Runs the built-in validator matching the type of the control, if any.
+     *
+     * @internal
+     */
+    _runTypeValidator(): ValidationBindErrors | null {
+        return null;
+    }
+
+    private _shouldRunAsyncValidator(): boolean {
+        return this.asyncMode === 'parallel' || this.status !== INVALID;
     }
 
     private _runAsyncValidator(emitEvent?: boolean): void {
         if (this.asyncValidator) {
-            (this as { status: string }).status = PENDING;
-            const obs = toObservable(this.asyncValidator(this));
-            this._asyncValidationSubscription = obs.subscribe((errors: ValidationBindErrors | null) => this.setErrors(errors, { emitEvent }));
+            if (this.status !== INVALID) {
+                (this as { status: string }).status = PENDING;
+            }
+            const trigger = this._asyncTrigger;
+            // retries run the validators again, for the same event
+            const validation = defer(() => {
+                const previousTrigger = this._asyncTrigger;
+                this._asyncTrigger = trigger;
+                try {
+                    return toObservable(this.asyncValidator!(this));
+                } finally {
+                    this._asyncTrigger = previousTrigger;
+                }
+            });
+            const obs = applyAsyncFailurePolicy(validation, this, this.asyncFailurePolicy);
+            this._asyncValidationSubscription = obs.subscribe((errors: ValidationBindErrors | null) =>
+                this.setErrors(errors, { emitEvent, source: 'async' })
+            );
+        }
+    }
+
+    /**
+     * Runs the async validators of the control and its descendants that are deferred to the
+     * given event, see `AsyncBindValidatorOptions.trigger`, and updates the status of the
+     * ancestors, which become pending with them.
+     *
+     * @internal
+     */
+    _runAsyncValidatorOn(trigger: BindFormHooks, emitEvent?: boolean): void {
+        if (this._startAsyncValidatorOn(trigger, emitEvent) && this._parent) {
+            this._parent._updateControlsErrors(emitEvent !== false);
+        }
+    }
+
+    /** Returns whether async validators of the control or of its descendants started. */
+    private _startAsyncValidatorOn(trigger: BindFormHooks, emitEvent?: boolean): boolean {
+        let started = false;
+        this._forEachChild((control: AbstractBindControl) => (started = control._startAsyncValidatorOn(trigger, emitEvent) || started));
+        if (started) {
+            (this as { status: string }).status = this._calculateStatus();
         }
+        if (this.enabled && this.visible && this.asyncValidator && isAsyncValidatorDeferredTo(this.asyncValidator, trigger) && this._shouldRunAsyncValidator()) {
+            this._cancelExistingSubscription();
+            this._asyncTrigger = trigger;
+            try {
+                this._runAsyncValidator(emitEvent);
+            } finally {
+                this._asyncTrigger = 'change';
+            }
+            started = true;
+        }
+        if (started && emitEvent !== false) {
+            (this.statusChanges as EventEmitter<string>).emit(this.status);
+        }
+        return started;
     }
 
     private _cancelExistingSubscription(): void {
@@ -756,9 +1748,17 @@ export abstract class AbstractBindControl {
     }
 
     /**
-     * Sets errors on a form control when running validations manually, rather than automatically.
+     * Sets the errors of a source on a form control, e.g. when running validations manually,
+     * rather than automatically.
+     *
+     * The errors of the other sources are kept, see `BindErrorSource`: `errors` reports the
+     * merge of all the sources. Calling `setErrors` also updates the validity of the parent control.
      *
-     * Calling `setErrors` also updates the validity of the parent control.
+     * @param errors The errors of the source, or null to clear them.
+     * @param opts Configuration options:
+     * * `emitEvent`: When true or not supplied (the default), the `statusChanges`
+     * observable emits an event with the latest status.
+     * * `source`: The source of the errors, `'manual'` by default.
      *
      * @usageNotes
      * ### Manually set the errors for a control
@@ -774,27 +1774,45 @@ export abstract class AbstractBindControl {
      *
      * login.setValue('someOtherLogin');
      *
+     * expect(login.valid).toEqual(false);
+     *
+     * login.setErrors(null);
+     *
+     * expect(login.valid).toEqual(true);
+     * ```
+     *
+     * ### Set errors reported by the server
+     *
+     * ```
+     * login.setErrors({ notUnique: true }, { source: 'server' });
+     * login.setValue('someOtherLogin');
+     *
      * expect(login.valid).toEqual(true);
      * ```
      */
-    setErrors(errors: ValidationBindErrors | null, opts: { emitEvent?: boolean } = {}): void {
-        (this as { errors: ValidationBindErrors | null }).errors = errors;
+    setErrors(errors: ValidationBindErrors | null, opts: { emitEvent?: boolean; source?: BindErrorSource } = {}): void {
+        const source = opts.source || 'manual';
+        this._errorsBySource[source] = errors;
+        if (source === 'server') {
+            this._serverErrorsValue = this.value;
+        }
+        (this as { errors: ValidationBindErrors | null }).errors = _mergeErrorSources(this._errorsBySource);
         this._updateControlsErrors(opts.emitEvent !== false);
     }
 
     /**
-     * Remove errors on a form control when running validations manually, rather than automatically.
+     * Removes errors from a form control, from the given source or from all of them.
      *
      * Calling `removeErrors` also updates the validity of the parent control.
      *
      * @usageNotes
-     * ### Manually set the errors for a control
+     * ### Manually remove the errors of a control
      *
      * ```
      * const login = new BindFormControl('someLogin');
-     * login.setErrors([
-     *   'notUnique'
-     *  ]);
+     * login.setErrors({
+     *   notUnique: true
+     * });
      *
      * expect(login.valid).toEqual(false);
      * expect(login.errors).toEqual({ notUnique: true });
@@ -802,21 +1820,88 @@ export abstract class AbstractBindControl {
      * login.removeErrors(['notUnique']);
      *
      * expect(login.valid).toEqual(true);
-     * expect(login.errors).toEqual({ });
+     * expect(login.errors).toEqual(null);
      * ```
      */
-    removeErrors(errors: string[], opts: { emitEvent?: boolean } = {}): void {
-        let currents = (this as { errors: ValidationBindErrors | null }).errors;
-        if (currents && errors) {
-            errors.forEach((e) => {
-                delete currents[e];
-            });
+    removeErrors(errors: string[], opts: { emitEvent?: boolean; source?: BindErrorSource } = {}): void {
+        (opts.source ? [opts.source] : ERROR_SOURCES).forEach((source) => {
+            const currents = this._errorsBySource[source];
+            if (currents && errors) {
+                const rest = { ...currents };
+                errors.forEach((e) => delete rest[e]);
+                this._errorsBySource[source] = Object.keys(rest).length === 0 ? null : rest;
+            }
+        });
+        (this as { errors: ValidationBindErrors | null }).errors = _mergeErrorSources(this._errorsBySource);
+        this._updateControlsErrors(opts.emitEvent !== false);
+    }
 
-            if (Object.keys(currents).length === 0) currents = null;
-        }
+    /**
+     * Reports the errors of the control coming from the given source.
+     *
+     * @param source The source of the errors, see `BindErrorSource`.
+     */
+    getErrors(source: BindErrorSource): ValidationBindErrors | null {
+        return this._errorsBySource[source] || null;
+    }
 
-        (this as { errors: ValidationBindErrors | null }).errors = currents;
-        this._updateControlsErrors(opts.emitEvent !== false);
+    /**
+     * Sets the validation failures returned by the server as `'server'` errors on the matching
+     * controls of this control tree, replacing the previous server errors of the tree.
+     *
+     * The payload is a list of `{path, code, message, severity}` entries, or RFC 7807 problem
+     * details listing them in `errors` (with JSON `pointer`s) or `invalid-params`. Each entry is
+     * resolved to a control as with `get()`, paths may also be JSON pointers or use brackets for
+     * array indexes. Entries whose control is not found are set on this control, with their
+     * `path`. Several entries with the same code on one control are listed in the `entries` of
+     * the error, which takes the most severe `type`.
+     *
+     * Server errors are cleared once the value of their control changes.
+     *
+     * @param payload The body of the server response.
+     * @param mapper Converts the entries of the payload to `BindServerError`s, for other formats.
+     * @param opts Configuration options:
+     * * `emitEvent`: When true or not supplied (the default), the `statusChanges`
+     * observables emit events with the latest status.
+     *
+     * @usageNotes
+     * ### Apply the errors of a response
+     *
+     * ```
+     * this.http.post('/api/orders', form.value).subscribe({
+     *   error: (response: HttpErrorResponse) => form.applyServerErrors(response.error),
+     * });
+     * ```
+     *
+     * With a payload of `[{path: 'lines[0].quantity', code: 'outOfStock', message: 'Only 2 left'}]`,
+     * `form.get('lines.0.quantity').errors` is `{outOfStock: {message: 'Only 2 left'}}`.
+     */
+    applyServerErrors(payload: any, mapper?: BindServerErrorMapper, opts: { emitEvent?: boolean } = {}): void {
+        const errorsByControl = new Map<AbstractBindControl, ValidationBindErrors>();
+        resolveServerErrors(payload, mapper).forEach(({ path, code, error }) => {
+            let control: AbstractBindControl | null = path.length > 0 ? _find(this, path, '.') : this;
+            if (!control) {
+                control = this;
+                error = { ...error, path: path.join('.') };
+            }
+            const errors = errorsByControl.get(control) || {};
+            errors[code] = errors.hasOwnProperty(code) ? mergeServerErrors(errors[code], error) : error;
+            errorsByControl.set(control, errors);
+        });
+        this._setServerErrors(errorsByControl, opts.emitEvent);
+    }
+
+    /**
+     * Sets the given server errors on the control and its descendants, clearing the others.
+     *
+     * @internal
+     */
+    _setServerErrors(errorsByControl: Map<AbstractBindControl, ValidationBindErrors>, emitEvent?: boolean): void {
+        this._forEachChild((control: AbstractBindControl) => control._setServerErrors(errorsByControl, emitEvent));
+        const errors = errorsByControl.get(this) || null;
+        if (errors || this._errorsBySource.server) {
+            this.setErrors(errors, { emitEvent, source: 'server' });
+        }
     }
 
     /**
@@ -835,7 +1920,24 @@ export abstract class AbstractBindControl {
      * -OR-
      *
      * * `this.form.get(['person', 'name']);`
+     *
+     * ### Typed paths
+     *
+     * On a typed control (e.g. `BindFormGroup<Person>`), paths are checked against the value type:
+     * pass a key, or a tuple of keys up to four levels deep. The returned control is typed accordingly.
+     *
+     * * `this.form.get('name'); // AbstractBindControl<string> | null`
+     * * `this.form.get(['address', 'street']); // AbstractBindControl<string> | null`
+     *
+     * Dot-delimited strings and dynamic arrays are only accepted on untyped controls.
      */
+    get<K1 extends keyof T>(path: K1 | [K1]): AbstractBindControl<T[K1]> | null;
+    get<K1 extends keyof T, K2 extends keyof T[K1]>(path: [K1, K2]): AbstractBindControl<T[K1][K2]> | null;
+    get<K1 extends keyof T, K2 extends keyof T[K1], K3 extends keyof T[K1][K2]>(path: [K1, K2, K3]): AbstractBindControl<T[K1][K2][K3]> | null;
+    get<K1 extends keyof T, K2 extends keyof T[K1], K3 extends keyof T[K1][K2], K4 extends keyof T[K1][K2][K3]>(
+        path: [K1, K2, K3, K4]
+    ): AbstractBindControl<T[K1][K2][K3][K4]> | null;
+    get(path: BindUntypedPath<T>): AbstractBindControl | null;
     get(path: Array<string | number> | string): AbstractBindControl | null {
         return _find(this, path, '.');
     }
@@ -868,7 +1970,7 @@ export abstract class AbstractBindControl {
      * null is returned.
      */
     getError(errorCode: string, path?: Array<string | number> | string): any {
-        const control = path ? this.get(path) : this;
+        const control = path ? _find(this, path, '.') : this;
         return control && control.errors ? control.errors[errorCode] : null;
     }
 
@@ -922,23 +2024,25 @@ export abstract class AbstractBindControl {
     /** @internal */
     _initObservables() {
         (this as {
-            valueChanges: Observable<any>;
+            valueChanges: Observable<T>;
         }).valueChanges = new EventEmitter();
         (this as {
             statusChanges: Observable<any>;
         }).statusChanges = new EventEmitter();
+        (this as {
+            visibleChanges: Observable<boolean>;
+        }).visibleChanges = new EventEmitter();
     }
 
     private _calculateStatus(): string {
         if (this._allControlsDisabled()) return DISABLED;
-        if (this.errors) {
-            const hasAlerts = Object.values(this.errors).some((e) => typeof e === 'object' && e.hasOwnProperty('type') && e.type === ErrorItemType.alert);
-            if (hasAlerts) return WARNED;
-
-            return INVALID;
-        }
+        const severity = _worstSeverity(this.errors);
+        if (severity != null && severity <= ErrorItemType.error) return INVALID;
+        if (this.pendingValidators.length > 0) return PENDING;
         if (this._anyControlsHaveStatus(PENDING)) return PENDING;
         if (this._anyControlsHaveStatus(INVALID)) return INVALID;
+        if (severity != null && severity <= ErrorItemType.alert) return WARNED;
+        if (this._anyControlsHaveStatus(WARNED)) return WARNED;
         return VALID;
     }
 
@@ -962,6 +2066,53 @@ export abstract class AbstractBindControl {
         return this._anyControls((control: AbstractBindControl) => control.status === status);
     }
 
+    /** @internal */
+    _findControls(condition: (control: AbstractBindControl) => boolean): AbstractBindControl[] {
+        const res: AbstractBindControl[] = [];
+        this._forEachChild((control: AbstractBindControl) => {
+            if (control.enabled) {
+                if (condition(control)) res.push(control);
+                res.push(...control._findControls(condition));
+            }
+        });
+        return res;
+    }
+
+    /** @internal */
+    _saveBaseline(): void {
+        this._baseline = this.value;
+    }
+
+    /**
+     * Whether the control is back to its baseline. Groups and arrays compare their set of
+     * controls instead of their value, and let their children use their own comparator.
+     *
+     * @internal
+     */
+    _matchesBaseline(): boolean {
+        return this._compareWith(this.value, this._baseline);
+    }
+
+    /**
+     * Whether the control is dirty or its value differs from its baseline.
+     *
+     * @internal
+     */
+    _isChanged(): boolean {
+        return this.dirty || !this._compareWith(this.value, this._baseline);
+    }
+
+    /**
+     * Adds the operations turning the baseline of the control into its value.
+     *
+     * @internal
+     */
+    _collectPatch(path: string, operations: BindJsonPatchOperation[]): void {
+        if (!this._compareWith(this.value, this._baseline)) {
+            operations.push({ op: 'replace', path, value: this.value });
+        }
+    }
+
     /** @internal */
     _anyControlsDirty(): boolean {
         return this._anyControls((control: AbstractBindControl) => control.dirty);
@@ -1000,11 +2151,50 @@ export abstract class AbstractBindControl {
         this._onCollectionChange = fn;
     }
 
+    /**
+     * Detaches the control from the collection it was removed from.
+     *
+     * @internal
+     */
+    _detachFromCollection(): void {
+        this._registerOnCollectionChange(() => {});
+        this._countDependentsIn(null);
+    }
+
     /** @internal */
     _setUpdateStrategy(opts?: BindValidatorFn | BindValidatorFn[] | AbstractBindControlOptions | null): void {
         if (isOptionsObj(opts) && (opts as AbstractBindControlOptions).updateOn != null) {
             this._updateOn = (opts as AbstractBindControlOptions).updateOn!;
         }
+        if (isOptionsObj(opts) && (opts as AbstractBindControlOptions).asyncMode != null) {
+            this._asyncMode = (opts as AbstractBindControlOptions).asyncMode!;
+        }
+        if (isOptionsObj(opts) && (opts as AbstractBindControlOptions).asyncCompose != null) {
+            this._asyncCompose = (opts as AbstractBindControlOptions).asyncCompose!;
+        }
+        if (isOptionsObj(opts) && (opts as AbstractBindControlOptions).asyncFailurePolicy != null) {
+            this._asyncFailurePolicy = (opts as AbstractBindControlOptions).asyncFailurePolicy!;
+        }
+        if (isOptionsObj(opts) && (opts as AbstractBindControlOptions).sensitive != null) {
+            this._sensitive = (opts as AbstractBindControlOptions).sensitive!;
+        }
+        if (isOptionsObj(opts) && (opts as AbstractBindControlOptions).compareWith != null) {
+            this._compareWith = (opts as AbstractBindControlOptions).compareWith!;
+        }
+    }
+
+    /** @internal */
+    _setDependencies(opts?: BindValidatorFn | BindValidatorFn[] | AbstractBindControlOptions | null): void {
+        if (isOptionsObj(opts) && (opts as AbstractBindControlOptions).dependsOn != null) {
+            this.dependsOn = (opts as AbstractBindControlOptions).dependsOn!;
+        }
+        if (isOptionsObj(opts) && (opts as AbstractBindControlOptions).visibleWhen != null) {
+            this._visibleWhen = (opts as AbstractBindControlOptions).visibleWhen!;
+        }
+        if (isOptionsObj(opts) && (opts as AbstractBindControlOptions).excludeWhenHidden != null) {
+            this._excludeWhenHidden = (opts as AbstractBindControlOptions).excludeWhenHidden!;
+        }
+        this._countDependencies();
     }
 
     /**
@@ -1018,13 +2208,6 @@ export abstract class AbstractBindControl {
     }
 }
 
-export enum BindFormControlType {
-    'default' = 'default',
-    'date' = 'date',
-    'year' = 'year',
-    'number' = 'number',
-}
-
 /**
  * Tracks the value and validation status of an individual form control.
  *
@@ -1122,16 +2305,19 @@ export enum BindFormControlType {
  *
  * @publicApi
  */
-export class BindFormControl extends AbstractBindControl {
+export class BindFormControl<T = any> extends AbstractBindControl<T> {
     /** @internal */
     _onChange: Function[] = [];
 
     /** @internal */
-    _pendingValue: any;
+    _pendingValue: T;
 
     /** @internal */
     _pendingChange: any;
 
+    /**
+     * The kind of value held by the control, see `BindFormControlType`.
+     */
     type: BindFormControlType;
 
     /**
@@ -1139,6 +2325,9 @@ export class BindFormControl extends AbstractBindControl {
      *
      * @param formState Initializes the control with an initial value,
      * or an object that defines the initial value and disabled state.
+     * The value type is not inferred from it: pass `T` explicitly to get a typed control.
+     *
+     * @param type The kind of value held by the control. Defaults to `BindFormControlType.default`.
      *
      * @param validatorOrOpts A synchronous validator function, or an array of
      * such functions, or an `AbstractBindControlOptions` object that contains validation functions
@@ -1148,28 +2337,28 @@ export class BindFormControl extends AbstractBindControl {
      *
      */
     constructor(
-        formState: any = null,
+        formState: BindFormState<BindNoInfer<T>> | null = null,
         type?: BindFormControlType,
         disabled?: boolean,
         validatorOrOpts?: BindValidatorFn | BindValidatorFn[] | AbstractBindControlOptions | null,
         asyncValidator?: AsyncBindValidatorFn | AsyncBindValidatorFn[] | null
     ) {
         super(coerceToValidator(validatorOrOpts), coerceToAsyncValidator(asyncValidator, validatorOrOpts));
+        this._initObservables();
+        this.type = type || BindFormControlType.default;
+        this.transformer = coerceToTransformer(null, validatorOrOpts);
         this._applyFormState(formState);
         this._setUpdateStrategy(validatorOrOpts);
+        this._setDependencies(validatorOrOpts);
         this.updateValueAndValidity({ onlySelf: true, emitEvent: false });
-        this._initObservables();
-
-        if (!type) {
-            type = BindFormControlType.default;
-        }
-        this.type = type;
+        this._saveBaseline();
     }
 
     /**
      * Sets a new value for the form control.
      *
-     * @param value The new value for the control.
+     * @param value The new value for the control. It is coerced according to the control `type`,
+     * see `BindFormControlType`.
      * @param options Configuration options that determine how the control propagates changes
      * and emits events when the value changes.
      * The configuration options are passed to the {@link AbstractBindControl#updateValueAndValidity
@@ -1190,7 +2379,7 @@ export class BindFormControl extends AbstractBindControl {
      *
      */
     setValue(
-        value: any,
+        value: T,
         options: {
             onlySelf?: boolean;
             emitEvent?: boolean;
@@ -1198,7 +2387,7 @@ export class BindFormControl extends AbstractBindControl {
             emitViewToModelChange?: boolean;
         } = {}
     ): void {
-        (this as { value: any }).value = this._pendingValue = value;
+        (this as { value: T }).value = this._pendingValue = parseControlValue(this.type, value);
         if (this._onChange.length && options.emitModelToViewChange !== false) {
             this._onChange.forEach((changeFn) => changeFn(this.value, options.emitViewToModelChange !== false));
         }
@@ -1215,7 +2404,7 @@ export class BindFormControl extends AbstractBindControl {
      * @see `setValue` for options
      */
     patchValue(
-        value: any,
+        value: T,
         options: {
             onlySelf?: boolean;
             emitEvent?: boolean;
@@ -1244,11 +2433,12 @@ export class BindFormControl extends AbstractBindControl {
      * When false, no events are emitted.
      *
      */
-    reset(formState: any = null, options: { onlySelf?: boolean; emitEvent?: boolean } = {}): void {
+    reset(formState: BindFormState<T> | null = null, options: { onlySelf?: boolean; emitEvent?: boolean } = {}): void {
         this._applyFormState(formState);
         this.markAsPristine(options);
         this.markAsUntouched(options);
         this.setValue(this.value, options);
+        this._saveBaseline();
         this._pendingChange = false;
     }
 
@@ -1257,6 +2447,14 @@ export class BindFormControl extends AbstractBindControl {
      */
     _updateValue() {}
 
+    /**
+     * @internal
+     */
+    _runTypeValidator(): ValidationBindErrors | null {
+        const validator = coerceToTypeValidator(this.type);
+        return validator ? validator(this) : null;
+    }
+
     /**
      * @internal
      */
@@ -1293,6 +2491,7 @@ export class BindFormControl extends AbstractBindControl {
     _clearChangeFns(): void {
         this._onChange = [];
         this._onDisabledChange = [];
+        this._onReadonlyChange = [];
         this._onCollectionChange = () => {};
     }
 
@@ -1305,6 +2504,15 @@ export class BindFormControl extends AbstractBindControl {
         this._onDisabledChange.push(fn);
     }
 
+    /**
+     * Register a listener for readonly events.
+     *
+     * @param fn The method that is called when the readonly state changes.
+     */
+    registerOnReadonlyChange(fn: (isReadonly: boolean) => void): void {
+        this._onReadonlyChange.push(fn);
+    }
+
     /**
      * @internal
      */
@@ -1326,12 +2534,13 @@ export class BindFormControl extends AbstractBindControl {
         return false;
     }
 
-    private _applyFormState(formState: any) {
+    private _applyFormState(formState: BindFormState<T> | null) {
         if (this._isBoxedValue(formState)) {
-            (this as { value: any }).value = this._pendingValue = formState.value;
-            formState.disabled ? this.disable({ onlySelf: true, emitEvent: false }) : this.enable({ onlySelf: true, emitEvent: false });
+            const boxed = formState as { value: T; disabled: boolean };
+            (this as { value: T }).value = this._pendingValue = parseControlValue(this.type, boxed.value);
+            boxed.disabled ? this.disable({ onlySelf: true, emitEvent: false }) : this.enable({ onlySelf: true, emitEvent: false });
         } else {
-            (this as { value: any }).value = this._pendingValue = formState;
+            (this as { value: T }).value = this._pendingValue = parseControlValue(this.type, formState);
         }
     }
 }
@@ -1342,7 +2551,7 @@ export class BindFormControl extends AbstractBindControl {
  * A `BindFormGroup` aggregates the values of each child `BindFormControl` into one object,
  * with each control name as the key.  It calculates its status by reducing the status values
  * of its children. For example, if one of the controls in a group is invalid, the entire
- * group becomes invalid.
+ * group becomes invalid, and if one of them is only warned, the group becomes warned.
  *
  * `BindFormGroup` is one of the three fundamental building blocks used to define forms in Angular,
  * along with `BindFormControl` and `BindFormArray`.
@@ -1408,12 +2617,20 @@ export class BindFormControl extends AbstractBindControl {
  *
  * @publicApi
  */
-export class BindFormGroup extends AbstractBindControl {
+export class BindFormGroup<T = any> extends AbstractBindControl<T> {
+    /**
+     * The child controls when the baseline was saved.
+     *
+     * @internal
+     */
+    _baselineControls: { [key: string]: AbstractBindControl } = {};
+
     /**
      * Creates a new `BindFormGroup` instance.
      *
      * @param controls A collection of child controls. The key for each child is the name
-     * under which it is registered.
+     * under which it is registered. The value type is not inferred from it: pass `T`
+     * explicitly to get a typed group.
      *
      * @param validatorOrOpts A synchronous validator function, or an array of
      * such functions, or an `AbstractBindControlOptions` object that contains validation functions
@@ -1423,15 +2640,28 @@ export class BindFormGroup extends AbstractBindControl {
      *
      */
     constructor(
-        public controls: { [key: string]: AbstractBindControl },
+        public controls: BindControlsOf<BindNoInfer<T>>,
         validatorOrOpts?: BindValidatorFn | BindValidatorFn[] | AbstractBindControlOptions | null,
         asyncValidator?: AsyncBindValidatorFn | AsyncBindValidatorFn[] | null
     ) {
         super(coerceToValidator(validatorOrOpts), coerceToAsyncValidator(asyncValidator, validatorOrOpts));
         this._initObservables();
         this._setUpdateStrategy(validatorOrOpts);
+        this._setDependencies(validatorOrOpts);
         this._setUpControls();
+        this._updateDependentsValidity();
         this.updateValueAndValidity({ onlySelf: true, emitEvent: false });
+        this._saveBaseline();
+    }
+
+    /**
+     * The enabled descendant controls that carry their own warnings (entries with
+     * severity `ErrorItemType.alert`), in tree order.
+     *
+     * Useful to show a warning badge next to a section of the form.
+     */
+    get warnedControls(): AbstractBindControl[] {
+        return this._findControls((control) => control.warnings != null);
     }
 
     /**
@@ -1443,11 +2673,13 @@ export class BindFormGroup extends AbstractBindControl {
      * @param name The control name to register in the collection
      * @param control Provides the control for the given name
      */
-    registerControl(name: string, control: AbstractBindControl): AbstractBindControl {
-        if (this.controls[name]) return this.controls[name];
-        this.controls[name] = control;
+    registerControl<K extends BindControlKey<T>>(name: K, control: AbstractBindControl<T[K]>): AbstractBindControl<T[K]> {
+        const controls = this._controlsMap;
+        if (_hasOwn(controls, name)) return controls[name];
+        controls[name] = control;
         control.setParent(this);
         control._registerOnCollectionChange(this._onCollectionChange);
+        control._adoptReadonly(this);
         return control;
     }
 
@@ -1459,7 +2691,7 @@ export class BindFormGroup extends AbstractBindControl {
      * @param name The control name to add to the collection
      * @param control Provides the control for the given name
      */
-    addControl(name: string, control: AbstractBindControl): void {
+    addControl<K extends BindControlKey<T>>(name: K, control: AbstractBindControl<T[K]>): void {
         this.registerControl(name, control);
         this.updateValueAndValidity();
         this._onCollectionChange();
@@ -1470,9 +2702,11 @@ export class BindFormGroup extends AbstractBindControl {
      *
      * @param name The control name to remove from the collection
      */
-    removeControl(name: string): void {
-        if (this.controls[name]) this.controls[name]._registerOnCollectionChange(() => {});
-        delete this.controls[name];
+    removeControl(name: BindControlKey<T>): void {
+        const controls = this._controlsMap;
+        if (_hasOwn(controls, name)) controls[name]._detachFromCollection();
+        delete controls[name];
+        this._updateReadonly();
         this.updateValueAndValidity();
         this._onCollectionChange();
     }
@@ -1483,10 +2717,12 @@ export class BindFormGroup extends AbstractBindControl {
      * @param name The control name to replace in the collection
      * @param control Provides the control for the given name
      */
-    setControl(name: string, control: AbstractBindControl): void {
-        if (this.controls[name]) this.controls[name]._registerOnCollectionChange(() => {});
-        delete this.controls[name];
+    setControl<K extends BindControlKey<T>>(name: K, control: AbstractBindControl<T[K]>): void {
+        const controls = this._controlsMap;
+        if (_hasOwn(controls, name)) controls[name]._detachFromCollection();
+        delete controls[name];
         if (control) this.registerControl(name, control);
+        this._updateReadonly();
         this.updateValueAndValidity();
         this._onCollectionChange();
     }
@@ -1497,12 +2733,13 @@ export class BindFormGroup extends AbstractBindControl {
      * @param name The control name to find
      */
     findControl(name: string): AbstractBindControl {
+        const controls = this._controlsMap;
         let result;
-        for (const key in this.controls) {
-            if (this.controls.hasOwnProperty(name)) {
-                return this.controls[name];
-            } else if (this.controls[key] instanceof BindFormGroup) {
-                result = this.controls[key].findControl(name);
+        for (const key in controls) {
+            if (_hasOwn(controls, name)) {
+                return controls[name];
+            } else if (controls[key] instanceof BindFormGroup) {
+                result = controls[key].findControl(name);
             }
         }
 
@@ -1520,7 +2757,7 @@ export class BindFormGroup extends AbstractBindControl {
      * @returns false for disabled controls, true otherwise.
      */
     contains(controlName: string): boolean {
-        return this.controls.hasOwnProperty(controlName) && this.controls[controlName].enabled;
+        return _hasOwn(this._controlsMap, controlName) && this._controlsMap[controlName].enabled;
     }
 
     /**
@@ -1558,11 +2795,11 @@ export class BindFormGroup extends AbstractBindControl {
      * observables emit events with the latest status and value when the control value is updated.
      * When false, no events are emitted.
      */
-    setValue(value: { [key: string]: any }, options: { onlySelf?: boolean; emitEvent?: boolean } = {}): void {
+    setValue(value: T, options: { onlySelf?: boolean; emitEvent?: boolean } = {}): void {
         this._checkAllValuesPresent(value);
         Object.keys(value).forEach((name) => {
             this._throwIfControlMissing(name);
-            this.controls[name].setValue(value[name], {
+            this._controlsMap[name].setValue(value[name], {
                 onlySelf: true,
                 emitEvent: options.emitEvent,
             });
@@ -1603,10 +2840,10 @@ export class BindFormGroup extends AbstractBindControl {
      * The configuration options are passed to the {@link AbstractBindControl#updateValueAndValidity
      * updateValueAndValidity} method.
      */
-    patchValue(value: { [key: string]: any }, options: { onlySelf?: boolean; emitEvent?: boolean } = {}): void {
+    patchValue(value: BindPartialValue<T>, options: { onlySelf?: boolean; emitEvent?: boolean } = {}): void {
         Object.keys(value).forEach((name) => {
-            if (this.controls[name]) {
-                this.controls[name].patchValue(value[name], {
+            if (_hasOwn(this._controlsMap, name)) {
+                this._controlsMap[name].patchValue((value as { [key: string]: any })[name], {
                     onlySelf: true,
                     emitEvent: options.emitEvent,
                 });
@@ -1681,9 +2918,46 @@ export class BindFormGroup extends AbstractBindControl {
         });
         this._updatePristine(options);
         this._updateTouched(options);
+        this._updateValue();
+        this._saveBaseline();
         this.updateValueAndValidity(options);
     }
 
+    /**
+     * Reports the changed part of the value of the group: the values of the controls that are
+     * dirty or differ from their `baseline`, nested groups reporting their changed part in turn.
+     * Arrays are reported whole, see `BindFormArray.getChangedValue`. The controls added since the
+     * baseline are reported whole too, and the removed ones as `undefined`, which is how
+     * `BindFormRecord.patchValue` removes keys.
+     *
+     * @usageNotes
+     * ```
+     * const form = new BindFormGroup({
+     *   name: new BindFormControl('John'),
+     *   address: new BindFormGroup({ city: new BindFormControl('Paris'), zip: new BindFormControl('75001') }),
+     * });
+     * form.get('address.city').setValue('Lyon');
+     *
+     * console.log(form.getChangedValue()); // {address: {city: 'Lyon'}}
+     * ```
+     */
+    getChangedValue(): BindPartialValue<T> {
+        const baselineControls = this._baselineControls;
+        const changes = this._reduceChildren({}, (acc: { [k: string]: any }, control: AbstractBindControl, name: string) => {
+            if (!control.enabled || control._isExcludedWhenHidden()) return acc;
+            if (baselineControls[name] !== control) {
+                acc[name] = control.value;
+            } else if (control._isChanged()) {
+                acc[name] = control instanceof BindFormGroup ? control.getChangedValue() : control.value;
+            }
+            return acc;
+        });
+        Object.keys(baselineControls)
+            .filter((name) => !_hasOwn(this._controlsMap, name) && baselineControls[name].enabled && !baselineControls[name]._isExcludedWhenHidden())
+            .forEach((name) => (changes[name] = undefined));
+        return changes;
+    }
+
     /**
      * The aggregate value of the `BindFormGroup`, including any disabled controls.
      *
@@ -1691,8 +2965,8 @@ export class BindFormGroup extends AbstractBindControl {
      * The `value` property is the best way to get the value of the group, because
      * it excludes disabled controls in the `BindFormGroup`.
      */
-    getRawValue(): any {
-        return this._reduceChildren({}, (acc: { [k: string]: AbstractBindControl }, control: AbstractBindControl, name: string) => {
+    getRawValue(): T {
+        return this._reduceChildren({}, (acc: { [k: string]: any }, control: AbstractBindControl, name: string) => {
             acc[name] = control instanceof BindFormControl ? control.value : (control as any).getRawValue();
             return acc;
         });
@@ -1709,20 +2983,20 @@ export class BindFormGroup extends AbstractBindControl {
 
     /** @internal */
     _throwIfControlMissing(name: string): void {
-        if (!Object.keys(this.controls).length) {
+        if (!Object.keys(this._controlsMap).length) {
             throw new Error(`
         There are no form controls registered with this group yet.  If you're using ngBindModel,
         you may want to check next tick (e.g. use setTimeout).
       `);
         }
-        if (!this.controls[name]) {
+        if (!_hasOwn(this._controlsMap, name)) {
             throw new Error(`Cannot find form control with name: ${name}.`);
         }
     }
 
     /** @internal */
     _forEachChild(cb: (v: any, k: string) => void): void {
-        Object.keys(this.controls).forEach((k) => cb(this.controls[k], k));
+        Object.keys(this._controlsMap).forEach((k) => cb(this._controlsMap[k], k));
     }
 
     /** @internal */
@@ -1735,7 +3009,7 @@ export class BindFormGroup extends AbstractBindControl {
 
     /** @internal */
     _updateValue(): void {
-        (this as { value: any }).value = this._reduceValue();
+        (this as { value: T }).value = this._reduceValue();
     }
 
     /** @internal */
@@ -1750,13 +3024,60 @@ export class BindFormGroup extends AbstractBindControl {
     /** @internal */
     _reduceValue() {
         return this._reduceChildren({}, (acc: { [k: string]: AbstractBindControl }, control: AbstractBindControl, name: string) => {
-            if (control.enabled || this.disabled) {
+            if ((control.enabled || this.disabled) && !control._isExcludedWhenHidden()) {
                 acc[name] = control.value;
             }
             return acc;
         });
     }
 
+    /** @internal */
+    _saveBaseline(): void {
+        super._saveBaseline();
+        this._baselineControls = { ...this._controlsMap };
+    }
+
+    /** @internal */
+    _matchesBaseline(): boolean {
+        const names = Object.keys(this._controlsMap);
+        const baselineControls = this._baselineControls;
+        return (
+            names.length === Object.keys(baselineControls).length &&
+            names.every((name) => _hasOwn(baselineControls, name) && baselineControls[name] === this._controlsMap[name]) &&
+            !this._anyControls((control: AbstractBindControl) => control._isChanged())
+        );
+    }
+
+    /** @internal */
+    _isChanged(): boolean {
+        return !this._matchesBaseline();
+    }
+
+    /**
+     * Removes the baseline controls no longer registered under their name, then adds the
+     * controls registered since the baseline was saved.
+     *
+     * @internal
+     */
+    _collectPatch(path: string, operations: BindJsonPatchOperation[]): void {
+        const baselineControls = this._baselineControls;
+        Object.keys(baselineControls).forEach((name) => {
+            const control = baselineControls[name];
+            if (this._controlsMap[name] !== control && control.enabled && !control._isExcludedWhenHidden()) {
+                operations.push({ op: 'remove', path: `${path}/${escapePointerSegment(name)}` });
+            }
+        });
+        this._forEachChild((control: AbstractBindControl, name: string) => {
+            if (!control.enabled || control._isExcludedWhenHidden()) return;
+            const controlPath = `${path}/${escapePointerSegment(name)}`;
+            if (_hasOwn(baselineControls, name) && baselineControls[name] === control) {
+                control._collectPatch(controlPath, operations);
+            } else {
+                operations.push({ op: 'add', path: controlPath, value: control.value });
+            }
+        });
+    }
+
     /** @internal */
     _reduceChildren(initValue: any, fn: Function) {
         let res = initValue;
@@ -1768,12 +3089,12 @@ export class BindFormGroup extends AbstractBindControl {
 
     /** @internal */
     _allControlsDisabled(): boolean {
-        for (const controlName of Object.keys(this.controls)) {
-            if (this.controls[controlName].enabled) {
+        for (const controlName of Object.keys(this._controlsMap)) {
+            if (this._controlsMap[controlName].enabled) {
                 return false;
             }
         }
-        return Object.keys(this.controls).length > 0 || this.disabled;
+        return Object.keys(this._controlsMap).length > 0 || this.disabled;
     }
 
     /** @internal */
@@ -1784,6 +3105,233 @@ export class BindFormGroup extends AbstractBindControl {
             }
         });
     }
+
+    /** @internal */
+    get _controlsMap(): { [key: string]: AbstractBindControl } {
+        return this.controls as { [key: string]: AbstractBindControl };
+    }
+}
+
+/**
+ * Creates the control of a key added to a `BindFormRecord`.
+ *
+ * @param value The value of the key
+ * @param key The added key
+ *
+ * @publicApi
+ */
+export type BindRecordControlFactory<V = any> = (value: V, key: string) => AbstractBindControl<V>;
+
+/**
+ * Options of a `BindFormRecord`.
+ *
+ * @publicApi
+ */
+export interface BindFormRecordOptions<V = any> extends AbstractBindControlOptions {
+    /**
+     * @description
+     * Creates the controls of the keys added by `setValue`, `patchValue` and `reset`. Creates
+     * a `BindFormControl` by default.
+     */
+    controlFactory?: BindRecordControlFactory<V>;
+    /**
+     * @description
+     * The pattern the keys must match, in addition to being non-empty and free of dots.
+     */
+    keyPattern?: RegExp;
+}
+
+/**
+ * Tracks the value and validity state of a map of controls whose keys are not known in
+ * advance, such as the translations of a text by language.
+ *
+ * Unlike a `BindFormGroup`, a `BindFormRecord` accepts values with other keys than its
+ * controls: `setValue` adds the controls of the new keys and removes the controls of the
+ * missing ones, `patchValue` adds the controls of the new keys. The controls are created by the
+ * `controlFactory` of the record.
+ *
+ * Keys must be non-empty and free of dots, as dots separate the names of a path, must not be
+ * `__proto__`, and must match the `keyPattern` of the record if any. Adding an invalid key
+ * throws, see `isValidKey`.
+ *
+ * @usageNotes
+ *
+ * ### Edit the translations of a text
+ *
+ * ```
+ * const translations = new BindFormRecord<string>({ en: new BindFormControl('Hello') }, {
+ *   controlFactory: (value) => new BindFormControl(value, null, false, BindValidators.required),
+ *   keyPattern: /^[a-z]{2}$/,
+ * });
+ *
+ * translations.setValue({ en: 'Hello', fr: 'Bonjour' });
+ * console.log(Object.keys(translations.controls)); // ['en', 'fr']
+ *
+ * translations.setValue({ fr: 'Bonjour' });
+ * console.log(Object.keys(translations.controls)); // ['fr']
+ * ```
+ *
+ * @publicApi
+ */
+export class BindFormRecord<V = any> extends BindFormGroup<{ [key: string]: V }> {
+    /** @internal */
+    _keyPattern: RegExp | null = null;
+
+    /** @internal */
+    _controlFactory: BindRecordControlFactory<V> = (value: V) => new BindFormControl<V>(value);
+
+    /**
+     * Creates a new `BindFormRecord` instance.
+     *
+     * @param controls The initial controls, by key.
+     *
+     * @param validatorOrOpts A synchronous validator function, or an array of
+     * such functions, or a `BindFormRecordOptions` object that contains validation functions,
+     * a validation trigger, the factory of the controls and the pattern of the keys.
+     *
+     * @param asyncValidator A single async validator or array of async validator functions
+     */
+    constructor(
+        controls: { [key: string]: AbstractBindControl<V> } = {},
+        validatorOrOpts?: BindValidatorFn | BindValidatorFn[] | BindFormRecordOptions<V> | null,
+        asyncValidator?: AsyncBindValidatorFn | AsyncBindValidatorFn[] | null
+    ) {
+        super(controls, validatorOrOpts, asyncValidator);
+        if (isOptionsObj(validatorOrOpts) && (validatorOrOpts as BindFormRecordOptions<V>).controlFactory != null) {
+            this._controlFactory = (validatorOrOpts as BindFormRecordOptions<V>).controlFactory!;
+        }
+        if (isOptionsObj(validatorOrOpts) && (validatorOrOpts as BindFormRecordOptions<V>).keyPattern != null) {
+            this._keyPattern = (validatorOrOpts as BindFormRecordOptions<V>).keyPattern!;
+        }
+        Object.keys(controls).forEach((key) => this._checkKey(key));
+    }
+
+    /**
+     * Checks whether a key can be added to the record.
+     *
+     * @param key The key to check
+     */
+    isValidKey(key: string): boolean {
+        return (
+            typeof key === 'string' && key.length > 0 && key.indexOf('.') === -1 && key !== '__proto__' && (!this._keyPattern || this._keyPattern.test(key))
+        );
+    }
+
+    /**
+     * Registers a control with the record's list of controls.
+     *
+     * @throws When the key is not valid, see `isValidKey`.
+     *
+     * @param name The key of the control
+     * @param control Provides the control for the given key
+     */
+    registerControl(name: string, control: AbstractBindControl<V>): AbstractBindControl<V> {
+        this._checkKey(name);
+        return super.registerControl(name, control);
+    }
+
+    /**
+     * Sets the value of the `BindFormRecord`: the controls of the new keys are created, the
+     * controls of the keys missing from the value are removed and the other controls are set.
+     *
+     * @throws When a new key is not valid, see `isValidKey`.
+     *
+     * @param value The new value of the record.
+     * @param options Configuration options that determine how the control propagates changes
+     * and emits events after the value changes, see `BindFormGroup.setValue`.
+     */
+    setValue(value: { [key: string]: V }, options: { onlySelf?: boolean; emitEvent?: boolean } = {}): void {
+        const changed = this._syncKeys(value, true);
+        Object.keys(value).forEach((key) => this._controlsMap[key].setValue(value[key], { onlySelf: true, emitEvent: options.emitEvent }));
+        this.updateValueAndValidity(options);
+        if (changed) this._onCollectionChange();
+    }
+
+    /**
+     * Patches the value of the `BindFormRecord`: the controls of the new keys are created and the
+     * other controls are patched. The controls of the keys set to `undefined` are removed, the
+     * controls of the keys missing from the value are kept.
+     *
+     * @throws When a new key is not valid, see `isValidKey`.
+     *
+     * @param value The keys to patch.
+     * @param options Configuration options that determine how the control propagates changes
+     * and emits events after the value is patched, see `BindFormGroup.patchValue`.
+     */
+    patchValue(value: BindPartialValue<{ [key: string]: V }>, options: { onlySelf?: boolean; emitEvent?: boolean } = {}): void {
+        const patch = value as { [key: string]: any };
+        const kept: { [key: string]: any } = {};
+        Object.keys(patch)
+            .filter((key) => patch[key] !== undefined)
+            .forEach((key) => (kept[key] = patch[key]));
+        const added = this._syncKeys(kept, false);
+        const removed = Object.keys(patch).filter((key) => patch[key] === undefined && _hasOwn(this._controlsMap, key));
+        removed.forEach((key) => this._detachControl(key));
+        this._updateReadonly();
+        Object.keys(kept).forEach((key) => this._controlsMap[key].patchValue(kept[key], { onlySelf: true, emitEvent: options.emitEvent }));
+        this.updateValueAndValidity(options);
+        if (added || removed.length) this._onCollectionChange();
+    }
+
+    /**
+     * Resets the `BindFormRecord`. When a value is supplied, its keys become the keys of the
+     * record, as with `setValue`, before the controls are reset.
+     *
+     * @param value The value, or the form states, of the keys.
+     * @param options Configuration options that determine how the control propagates changes
+     * and emits events when the record is reset, see `BindFormGroup.reset`.
+     */
+    reset(value?: any, options: { onlySelf?: boolean; emitEvent?: boolean } = {}): void {
+        const changed = value != null && this._syncKeys(value, true);
+        super.reset(value != null ? value : {}, options);
+        if (changed) this._onCollectionChange();
+    }
+
+    /**
+     * Replaces the controls of the record without updating its value and validity.
+     *
+     * @internal
+     */
+    _setControls(controls: { [key: string]: AbstractBindControl<V> }): void {
+        Object.keys(controls).forEach((key) => this._checkKey(key));
+        Object.keys(this._controlsMap)
+            .filter((key) => this._controlsMap[key] !== controls[key])
+            .forEach((key) => this._detachControl(key));
+        Object.keys(controls).forEach((key) => this.registerControl(key, controls[key]));
+        this._updateReadonly();
+        this._onCollectionChange();
+    }
+
+    /**
+     * Creates the controls of the keys of a value missing from the record and, when `remove`
+     * is true, removes the controls of the keys missing from the value, without updating the
+     * value and validity. Returns whether the keys changed.
+     */
+    private _syncKeys(value: { [key: string]: any }, remove: boolean): boolean {
+        // the new keys are checked first, so that an invalid key leaves the record untouched
+        const added = Object.keys(value).filter((key) => !_hasOwn(this._controlsMap, key));
+        added.forEach((key) => this._checkKey(key));
+        const removed = remove ? Object.keys(this._controlsMap).filter((key) => !_hasOwn(value, key)) : [];
+        removed.forEach((key) => this._detachControl(key));
+        this._updateReadonly();
+        added.forEach((key) => {
+            const state = value[key];
+            const initial = state != null && typeof state === 'object' && Object.keys(state).length === 2 && 'value' in state && 'disabled' in state ? state.value : state;
+            this.registerControl(key, this._controlFactory(initial, key));
+        });
+        return added.length > 0 || removed.length > 0;
+    }
+
+    private _detachControl(key: string): void {
+        this._controlsMap[key]._detachFromCollection();
+        delete this._controlsMap[key];
+    }
+
+    private _checkKey(key: string): void {
+        if (!this.isValidKey(key)) {
+            throw new Error(`Invalid key for the form record: '${key}'.`);
+        }
+    }
 }
 
 /**
@@ -1792,7 +3340,8 @@ export class BindFormGroup extends AbstractBindControl {
  *
  * A `BindFormArray` aggregates the values of each child `BindFormControl` into an array.
  * It calculates its status by reducing the status values of its children. For example, if one of
- * the controls in a `BindFormArray` is invalid, the entire array becomes invalid.
+ * the controls in a `BindFormArray` is invalid, the entire array becomes invalid, and if one of
+ * them is only warned, the array becomes warned.
  *
  * `BindFormArray` is one of the three fundamental building blocks used to define forms in Angular,
  * along with `BindFormControl` and `BindFormGroup`.
@@ -1850,12 +3399,25 @@ export class BindFormGroup extends AbstractBindControl {
  *
  * @publicApi
  */
-export class BindFormArray extends AbstractBindControl {
+export class BindFormArray<T = any> extends AbstractBindControl<T[]> {
+    /**
+     * The child controls, in array order.
+     */
+    public controls: AbstractBindControl<T>[];
+
+    /**
+     * The child controls when the baseline was saved.
+     *
+     * @internal
+     */
+    _baselineControls: AbstractBindControl<T>[] = [];
+
     /**
      * Creates a new `BindFormArray` instance.
      *
      * @param controls An array of child controls. Each child control is given an index
-     * where it is registered.
+     * where it is registered. The item value type is not inferred from it: pass `T`
+     * explicitly to get a typed array.
      *
      * @param validatorOrOpts A synchronous validator function, or an array of
      * such functions, or an `AbstractBindControlOptions` object that contains validation functions
@@ -1865,15 +3427,29 @@ export class BindFormArray extends AbstractBindControl {
      *
      */
     constructor(
-        public controls: AbstractBindControl[],
+        controls: BindControlsArrayOf<BindNoInfer<T>>,
         validatorOrOpts?: BindValidatorFn | BindValidatorFn[] | AbstractBindControlOptions | null,
         asyncValidator?: AsyncBindValidatorFn | AsyncBindValidatorFn[] | null
     ) {
         super(coerceToValidator(validatorOrOpts), coerceToAsyncValidator(asyncValidator, validatorOrOpts));
+        this.controls = controls;
         this._initObservables();
         this._setUpdateStrategy(validatorOrOpts);
+        this._setDependencies(validatorOrOpts);
         this._setUpControls();
+        this._updateDependentsValidity();
         this.updateValueAndValidity({ onlySelf: true, emitEvent: false });
+        this._saveBaseline();
+    }
+
+    /**
+     * The enabled descendant controls that carry their own warnings (entries with
+     * severity `ErrorItemType.alert`), in array order.
+     *
+     * @see {@link BindFormGroup#warnedControls}
+     */
+    get warnedControls(): AbstractBindControl[] {
+        return this._findControls((control) => control.warnings != null);
     }
 
     /**
@@ -1881,7 +3457,7 @@ export class BindFormArray extends AbstractBindControl {
      *
      * @param index Index in the array to retrieve the control
      */
-    at(index: number): AbstractBindControl {
+    at(index: number): AbstractBindControl<T> {
         return this.controls[index];
     }
 
@@ -1890,7 +3466,7 @@ export class BindFormArray extends AbstractBindControl {
      *
      * @param control BindForm control to be inserted
      */
-    push(control: AbstractBindControl): void {
+    push(control: AbstractBindControl<T>): void {
         this.controls.push(control);
         this._registerControl(control);
         this.updateValueAndValidity();
@@ -1903,7 +3479,7 @@ export class BindFormArray extends AbstractBindControl {
      * @param index Index in the array to insert the control
      * @param control BindForm control to be inserted
      */
-    insert(index: number, control: AbstractBindControl): void {
+    insert(index: number, control: AbstractBindControl<T>): void {
         this.controls.splice(index, 0, control);
 
         this._registerControl(control);
@@ -1916,8 +3492,9 @@ export class BindFormArray extends AbstractBindControl {
      * @param index Index in the array to remove the control
      */
     removeAt(index: number): void {
-        if (this.controls[index]) this.controls[index]._registerOnCollectionChange(() => {});
+        if (this.controls[index]) this.controls[index]._detachFromCollection();
         this.controls.splice(index, 1);
+        this._updateReadonly();
         this.updateValueAndValidity();
     }
 
@@ -1927,8 +3504,8 @@ export class BindFormArray extends AbstractBindControl {
      * @param index Index in the array to replace the control
      * @param control The `AbstractBindControl` control to replace the existing control
      */
-    setControl(index: number, control: AbstractBindControl): void {
-        if (this.controls[index]) this.controls[index]._registerOnCollectionChange(() => {});
+    setControl(index: number, control: AbstractBindControl<T>): void {
+        if (this.controls[index]) this.controls[index]._detachFromCollection();
         this.controls.splice(index, 1);
 
         if (control) {
@@ -1936,6 +3513,7 @@ export class BindFormArray extends AbstractBindControl {
             this._registerControl(control);
         }
 
+        this._updateReadonly();
         this.updateValueAndValidity();
         this._onCollectionChange();
     }
@@ -1989,9 +3567,9 @@ export class BindFormArray extends AbstractBindControl {
      * The configuration options are passed to the {@link AbstractBindControl#updateValueAndValidity
      * updateValueAndValidity} method.
      */
-    setValue(value: any[], options: { onlySelf?: boolean; emitEvent?: boolean } = {}): void {
+    setValue(value: T[], options: { onlySelf?: boolean; emitEvent?: boolean } = {}): void {
         this._checkAllValuesPresent(value);
-        value.forEach((newValue: any, index: number) => {
+        value.forEach((newValue: T, index: number) => {
             this._throwIfControlMissing(index);
             this.at(index).setValue(newValue, {
                 onlySelf: true,
@@ -2035,8 +3613,8 @@ export class BindFormArray extends AbstractBindControl {
      * The configuration options are passed to the {@link AbstractBindControl#updateValueAndValidity
      * updateValueAndValidity} method.
      */
-    patchValue(value: any[], options: { onlySelf?: boolean; emitEvent?: boolean } = {}): void {
-        value.forEach((newValue: any, index: number) => {
+    patchValue(value: BindPartialValue<T>[], options: { onlySelf?: boolean; emitEvent?: boolean } = {}): void {
+        value.forEach((newValue: BindPartialValue<T>, index: number) => {
             if (this.at(index)) {
                 this.at(index).patchValue(newValue, {
                     onlySelf: true,
@@ -2102,17 +3680,28 @@ export class BindFormArray extends AbstractBindControl {
         });
         this._updatePristine(options);
         this._updateTouched(options);
+        this._updateValue();
+        this._saveBaseline();
         this.updateValueAndValidity(options);
     }
 
+    /**
+     * Reports the value of the array if it changed, i.e. if controls were added, removed or
+     * moved or if a child control is dirty or differs from its `baseline`, otherwise null.
+     * The array is reported whole, as the positions of the items may have changed.
+     */
+    getChangedValue(): T[] | null {
+        return this._isChanged() ? this.value : null;
+    }
+
     /**
      * The aggregate value of the array, including any disabled controls.
      *
      * Reports all values regardless of disabled status.
      * For enabled controls only, the `value` property is the best way to get the value of the array.
      */
-    getRawValue(): any[] {
-        return this.controls.map((control: AbstractBindControl) => {
+    getRawValue(): T[] {
+        return this.controls.map((control: AbstractBindControl<T>) => {
             return control instanceof BindFormControl ? control.value : (control as any).getRawValue();
         });
     }
@@ -2149,11 +3738,24 @@ export class BindFormArray extends AbstractBindControl {
      */
     clear(): void {
         if (this.controls.length < 1) return;
-        this._forEachChild((control: AbstractBindControl) => control._registerOnCollectionChange(() => {}));
+        this._forEachChild((control: AbstractBindControl) => control._detachFromCollection());
         this.controls.splice(0);
         this.updateValueAndValidity();
     }
 
+    /**
+     * Replaces the controls of the array without updating its value and validity.
+     *
+     * @internal
+     */
+    _setControls(controls: AbstractBindControl<T>[]): void {
+        this._forEachChild((control: AbstractBindControl) => control._detachFromCollection());
+        this.controls.splice(0, this.controls.length, ...controls);
+        this._setUpControls();
+        this._updateReadonly();
+        this._onCollectionChange();
+    }
+
     /** @internal */
     _syncPendingControls(): boolean {
         const subtreeUpdated = this.controls.reduce((updated: boolean, child: AbstractBindControl) => {
@@ -2185,7 +3787,9 @@ export class BindFormArray extends AbstractBindControl {
 
     /** @internal */
     _updateValue(): void {
-        (this as { value: any }).value = this.controls.filter((control) => control.enabled || this.disabled).map((control) => control.value);
+        (this as { value: T[] }).value = this.controls
+            .filter((control) => (control.enabled || this.disabled) && !control._isExcludedWhenHidden())
+            .map((control) => control.value);
     }
 
     /** @internal */
@@ -2215,8 +3819,281 @@ export class BindFormArray extends AbstractBindControl {
         return this.controls.length > 0 || this.disabled;
     }
 
+    /** @internal */
+    _saveBaseline(): void {
+        super._saveBaseline();
+        this._baselineControls = this.controls.slice();
+    }
+
+    /** @internal */
+    _matchesBaseline(): boolean {
+        const baselineControls = this._baselineControls;
+        return (
+            this.controls.length === baselineControls.length &&
+            this.controls.every((control, i) => control === baselineControls[i]) &&
+            !this._anyControls((control: AbstractBindControl) => control._isChanged())
+        );
+    }
+
+    /** @internal */
+    _isChanged(): boolean {
+        return !this._matchesBaseline();
+    }
+
+    /**
+     * Replays the mutations of the array from its baseline controls: removals first, then the
+     * insertions and moves in index order, so that each operation only shifts the items not
+     * processed yet.
+     *
+     * @internal
+     */
+    _collectPatch(path: string, operations: BindJsonPatchOperation[]): void {
+        const controls = this.controls.filter((control) => control.enabled && !control._isExcludedWhenHidden());
+        const current = this._baselineControls.filter((control) => control.enabled && !control._isExcludedWhenHidden());
+        for (let i = current.length - 1; i >= 0; i--) {
+            if (controls.indexOf(current[i]) === -1) {
+                operations.push({ op: 'remove', path: `${path}/${i}` });
+                current.splice(i, 1);
+            }
+        }
+        controls.forEach((control, i) => {
+            const index = current.indexOf(control);
+            if (index === -1) {
+                operations.push({ op: 'add', path: `${path}/${i}`, value: control.value });
+                current.splice(i, 0, control);
+                return;
+            }
+            if (index !== i) {
+                operations.push({ op: 'move', from: `${path}/${index}`, path: `${path}/${i}` });
+                current.splice(index, 1);
+                current.splice(i, 0, control);
+            }
+            control._collectPatch(`${path}/${i}`, operations);
+        });
+    }
+
     private _registerControl(control: AbstractBindControl) {
         control.setParent(this);
         control._registerOnCollectionChange(this._onCollectionChange);
+        control._adoptReadonly(this);
+    }
+}
+
+function _stateKind(control: AbstractBindControl): BindControlState['kind'] {
+    return control instanceof BindFormGroup ? 'group' : control instanceof BindFormArray ? 'array' : 'control';
+}
+
+function _serializeControlState(control: AbstractBindControl, omitSensitive: boolean): BindControlState {
+    const state: BindControlState = { kind: _stateKind(control), disabled: control.disabled, pristine: control.pristine, touched: control.touched };
+    if (control.readonly) {
+        state.readonly = true;
+    }
+    if (!control.visible) {
+        state.hidden = true;
+    }
+    if (control._updateOn) {
+        state.updateOn = control._updateOn;
+    }
+    const manual = control.getErrors('manual');
+    const server = control.getErrors('server');
+    if (manual || server) {
+        state.errors = {};
+        if (manual) state.errors.manual = encodeStateValue(manual);
+        if (server) state.errors.server = encodeStateValue(server);
+    }
+    if (control instanceof BindFormControl) {
+        state.type = control.type;
+        if (!omitSensitive || !control.sensitive) {
+            state.value = encodeStateValue(control.value);
+        }
+    } else {
+        const controls: any = state.kind === 'array' ? [] : {};
+        control._forEachChild((child: AbstractBindControl, key: string | number) => (controls[key] = _serializeControlState(child, omitSensitive)));
+        state.controls = controls;
+    }
+    return state;
+}
+
+function _createStateControl(state: BindControlState): AbstractBindControl {
+    if (state.kind === 'array') {
+        return new BindFormArray((state.controls as BindControlState[]).map(_createStateControl));
+    }
+    if (state.kind === 'group') {
+        const states = state.controls as { [key: string]: BindControlState };
+        const controls: { [key: string]: AbstractBindControl } = {};
+        Object.keys(states).forEach((key) => (controls[key] = _createStateControl(states[key])));
+        return new BindFormGroup(controls);
+    }
+    return new BindFormControl(decodeStateValue(state.value), state.type);
+}
+
+/**
+ * Restores the flags, values and items of a control and its descendants. Flags are restored
+ * before the children as disabling or hiding a control or marking it `pristine` or `untouched`
+ * also applies to its descendants.
+ */
+function _restoreControlState(control: AbstractBindControl, state: BindControlState, path: Array<string | number>, mismatches: BindStateMismatch[]): void {
+    const kind = _stateKind(control);
+    if (!state || state.kind !== kind) {
+        mismatches.push({ path: path.join('.'), reason: `Expected the state of a ${kind}, got ${state ? `the state of a ${state.kind}` : 'none'}.` });
+        return;
+    }
+    const opts = { onlySelf: path.length > 0, emitEvent: false };
+    if (state.updateOn) {
+        control._updateOn = state.updateOn;
+    }
+    if (state.disabled && control.enabled) {
+        control.disable(opts);
+    } else if (!state.disabled && control.disabled) {
+        control.enable(opts);
+    }
+    if (!!state.readonly !== control.readonly) {
+        control.setReadonly(!!state.readonly, opts);
+    }
+    if (!state.hidden !== control.visible) {
+        control._applyVisible(!state.hidden);
+    }
+    if (state.pristine) {
+        control.markAsPristine(opts);
+    } else {
+        control.markAsDirty(opts);
+    }
+    if (state.touched) {
+        control.markAsTouched(opts);
+    } else {
+        control.markAsUntouched(opts);
+    }
+
+    if (control instanceof BindFormControl) {
+        if (state.type) control.type = state.type;
+        // the value is left out of the states of sensitive controls, see `serializeState()`
+        if (state.hasOwnProperty('value')) {
+            control.setValue(decodeStateValue(state.value), { onlySelf: true, emitEvent: false });
+        }
+    } else if (control instanceof BindFormArray) {
+        const states = state.controls as BindControlState[];
+        if (states.length !== control.length) {
+            control._setControls(states.map((childState, i) => (i < control.length ? control.at(i) : _createStateControl(childState))));
+        }
+        states.forEach((childState, i) => _restoreControlState(control.at(i), childState, [...path, i], mismatches));
+    } else if (control instanceof BindFormGroup) {
+        const states = state.controls as { [key: string]: BindControlState };
+        if (control instanceof BindFormRecord) {
+            // the keys of a record follow the snapshot, the added controls being restored below
+            const current: { [key: string]: AbstractBindControl } = control.controls;
+            const keys = Object.keys(states);
+            if (keys.length !== Object.keys(current).length || keys.some((key) => !_hasOwn(current, key))) {
+                const next: { [key: string]: AbstractBindControl } = {};
+                keys.forEach((key) => (next[key] = _hasOwn(current, key) ? current[key] : control._controlFactory(null, key)));
+                control._setControls(next);
+            }
+        }
+        const controls: { [key: string]: AbstractBindControl } = control.controls;
+        Object.keys(states).forEach((key) => {
+            if (_hasOwn(controls, key)) {
+                _restoreControlState(controls[key], states[key], [...path, key], mismatches);
+            } else {
+                mismatches.push({ path: [...path, key].join('.'), reason: 'No control matches the state.' });
+            }
+        });
+        Object.keys(controls)
+            .filter((key) => !_hasOwn(states, key))
+            .forEach((key) => mismatches.push({ path: [...path, key].join('.'), reason: 'The snapshot has no state for the control.' }));
+    }
+}
+
+function _restoreControlErrors(control: AbstractBindControl, state: BindControlState): void {
+    if (!state || state.kind !== _stateKind(control) || control.disabled) {
+        return;
+    }
+    const errors = state.errors || {};
+    control.setErrors(errors.manual ? decodeStateValue(errors.manual) : null, { emitEvent: false, source: 'manual' });
+    control.setErrors(errors.server ? decodeStateValue(errors.server) : null, { emitEvent: false, source: 'server' });
+    const states: any = state.controls || {};
+    control._forEachChild((child: AbstractBindControl, key: string | number) => _restoreControlErrors(child, states[key]));
+}
+
+function _createPatchControl(value: any): AbstractBindControl {
+    return new BindFormControl(value);
+}
+
+function _patchTarget(root: AbstractBindControl, path: string): AbstractBindControl {
+    const names = parsePointer(path);
+    const control = names.length === 0 ? root : _find(root, names, '/');
+    if (!control) {
+        throw new Error(`Cannot find the control at "${path}".`);
+    }
+    return control;
+}
+
+function _patchParent(root: AbstractBindControl, path: string): { parent: AbstractBindControl; name: string } {
+    const names = parsePointer(path);
+    if (names.length === 0) {
+        throw new Error(`Cannot add or remove the root control.`);
+    }
+    return { parent: _patchTarget(root, path.substring(0, path.lastIndexOf('/'))), name: names[names.length - 1] };
+}
+
+function _addPatchControl(root: AbstractBindControl, path: string, control: AbstractBindControl): void {
+    const { parent, name } = _patchParent(root, path);
+    if (parent instanceof BindFormArray) {
+        if (name === '-') {
+            parent.push(control);
+        } else if (/^(0|[1-9]\d*)$/.test(name) && Number(name) <= parent.length) {
+            parent.insert(Number(name), control);
+        } else {
+            throw new Error(`Cannot add a control at "${path}": "${name}" is not an index of the array.`);
+        }
+    } else if (parent instanceof BindFormGroup) {
+        parent.setControl(name, control);
+    } else {
+        throw new Error(`Cannot add a control at "${path}".`);
+    }
+}
+
+function _addPatchValue(root: AbstractBindControl, path: string, value: any, createControl: BindControlFactory): void {
+    const { parent, name } = _patchParent(root, path);
+    if (parent instanceof BindFormGroup && parent.contains(name)) {
+        parent.get(name)!.setValue(value);
+    } else {
+        _addPatchControl(root, path, createControl(value, path));
+    }
+}
+
+function _removePatchControl(root: AbstractBindControl, path: string): AbstractBindControl {
+    const { parent, name } = _patchParent(root, path);
+    const control = _patchTarget(root, path);
+    if (parent instanceof BindFormArray) {
+        parent.removeAt(Number(name));
+    } else {
+        (parent as BindFormGroup).removeControl(name);
+    }
+    return control;
+}
+
+function _applyPatchOperation(root: AbstractBindControl, operation: BindJsonPatchOperation, createControl: BindControlFactory): void {
+    switch (operation.op) {
+        case 'add':
+            _addPatchValue(root, operation.path, operation.value, createControl);
+            break;
+        case 'remove':
+            _removePatchControl(root, operation.path);
+            break;
+        case 'replace':
+            _patchTarget(root, operation.path).setValue(operation.value);
+            break;
+        case 'move':
+            _addPatchControl(root, operation.path, _removePatchControl(root, operation.from!));
+            break;
+        case 'copy':
+            _addPatchValue(root, operation.path, _patchTarget(root, operation.from!).value, createControl);
+            break;
+        case 'test':
+            if (!_sameValue(_patchTarget(root, operation.path).value, operation.value)) {
+                throw new Error(`JSON Patch test failed at "${operation.path}".`);
+            }
+            break;
+        default:
+            throw new Error(`Unknown JSON Patch operation "${(operation as BindJsonPatchOperation).op}".`);
     }
 }
@@ -0,0 +1,142 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { ErrorItemType, ValidationBindErrors } from './directives/validators';
+import { parsePointer } from './json_patch';
+
+/**
+ * @description
+ * A validation failure reported by the server, see `AbstractBindControl.applyServerErrors`.
+ *
+ * @publicApi
+ */
+export interface BindServerError {
+    /**
+     * @description
+     * The path of the control, as a dot-delimited string (`lines.0.quantity` or
+     * `lines[0].quantity`), a JSON pointer (`/lines/0/quantity`) or an array of names.
+     * Entries without path apply to the form.
+     */
+    path?: string | Array<string | number> | null;
+    /**
+     * @description
+     * The key of the entry in `ValidationBindErrors`.
+     */
+    code: string;
+    /**
+     * @description
+     * The message to display.
+     */
+    message?: string;
+    /**
+     * @description
+     * The severity of the entry, as an `ErrorItemType` or one of `'error'`, `'warning'`,
+     * `'alert'`, `'help'`, `'info'` and `'ok'`. Defaults to `ErrorItemType.error`.
+     */
+    severity?: ErrorItemType | string;
+}
+
+/**
+ * @description
+ * Converts an entry of a server payload to a `BindServerError`, or returns null to skip it.
+ *
+ * @publicApi
+ */
+export type BindServerErrorMapper = (entry: any) => BindServerError | null;
+
+/**
+ * A server error resolved against a control tree: `path` lists the names of the control.
+ */
+export interface ResolvedServerError {
+    path: Array<string | number>;
+    code: string;
+    error: ValidationBindErrors[string];
+}
+
+const SEVERITIES: { [name: string]: ErrorItemType } = {
+    error: ErrorItemType.error,
+    warning: ErrorItemType.alert,
+    alert: ErrorItemType.alert,
+    help: ErrorItemType.help,
+    info: ErrorItemType.info,
+    ok: ErrorItemType.ok,
+};
+
+/**
+ * Lists the entries of a server payload: an array of entries, or RFC 7807 problem details
+ * listing them in `errors` or `invalid-params`. Problem details without entries give a
+ * single form level entry.
+ */
+function _payloadEntries(payload: any): any[] {
+    if (payload == null) return [];
+    if (Array.isArray(payload)) return payload;
+    if (Array.isArray(payload.errors)) return payload.errors;
+    if (Array.isArray(payload['invalid-params'])) return payload['invalid-params'];
+    return [{ code: 'server', message: payload.detail || payload.title }];
+}
+
+/**
+ * The default mapper, reading the usual names of the entry fields, including the
+ * `pointer`/`detail` and `name`/`reason` pairs of RFC 7807 problem details.
+ */
+function _defaultMapper(entry: any): BindServerError | null {
+    if (entry == null || typeof entry !== 'object') return null;
+    const path = entry.path != null ? entry.path : entry.pointer != null ? entry.pointer : entry.field != null ? entry.field : entry.name;
+    const code = entry.code || entry.type || 'server';
+    const message = entry.message != null ? entry.message : entry.detail != null ? entry.detail : entry.reason;
+    return { path, code: String(code), message, severity: entry.severity };
+}
+
+/**
+ * Splits a path into control names. Paths starting with `/` or `#/` are JSON pointers.
+ */
+function _pathNames(path: string | Array<string | number> | null | undefined): Array<string | number> {
+    if (path == null) return [];
+    if (Array.isArray(path)) return path;
+    if (/^#?\//.test(path)) {
+        return parsePointer(path);
+    }
+    return path
+        .replace(/\[(\d+)\]/g, '.$1')
+        .split('.')
+        .filter((name) => name !== '');
+}
+
+function _severity(severity: ErrorItemType | string | undefined): ErrorItemType {
+    if (typeof severity === 'number') return severity;
+    return severity != null && SEVERITIES.hasOwnProperty(severity.toLowerCase()) ? SEVERITIES[severity.toLowerCase()] : ErrorItemType.error;
+}
+
+/**
+ * Converts a server payload to a list of errors, each with the path of its control.
+ */
+export function resolveServerErrors(payload: any, mapper: BindServerErrorMapper = _defaultMapper): ResolvedServerError[] {
+    const res: ResolvedServerError[] = [];
+    _payloadEntries(payload).forEach((entry: any) => {
+        const serverError = mapper(entry);
+        if (serverError) {
+            const type = _severity(serverError.severity);
+            const error: { [key: string]: any } = { message: serverError.message };
+            if (type !== ErrorItemType.error) error.type = type;
+            res.push({ path: _pathNames(serverError.path), code: serverError.code, error });
+        }
+    });
+    return res;
+}
+
+/**
+ * Combines the entries of several server errors with the same code on one control: the
+ * result keeps the fields of the first one, lists them all in `entries` and takes the most
+ * severe `type`.
+ */
+export function mergeServerErrors(existing: ValidationBindErrors[string], error: ValidationBindErrors[string]): ValidationBindErrors[string] {
+    const entries = existing.entries ? [...existing.entries, error] : [existing, error];
+    const type = Math.min(...entries.map((entry: any) => (entry.type != null ? entry.type : ErrorItemType.error)));
+    const { type: firstType, ...first } = entries[0];
+    return type !== ErrorItemType.error ? { ...first, entries, type } : { ...first, entries };
+}
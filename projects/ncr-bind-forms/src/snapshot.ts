@@ -0,0 +1,133 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { BindFormControlType } from './control_types';
+import { ValidationBindErrors } from './directives/validators';
+import { BindFormHooks } from './model';
+
+/**
+ * The version of the snapshots written by `AbstractBindControl.serializeState`.
+ */
+export const SNAPSHOT_VERSION = 1;
+
+/**
+ * @description
+ * The state of a control tree, as returned by `AbstractBindControl.serializeState`. The
+ * snapshot only holds JSON values, so that it can be stored as is.
+ *
+ * @publicApi
+ */
+export interface BindControlSnapshot {
+    /**
+     * @description
+     * The version of the format of the snapshot.
+     */
+    version: number;
+    /**
+     * @description
+     * The state of the root control of the tree.
+     */
+    state: BindControlState;
+}
+
+/**
+ * @description
+ * The state of a control in a `BindControlSnapshot`.
+ *
+ * @publicApi
+ */
+export interface BindControlState {
+    kind: 'control' | 'group' | 'array';
+    disabled: boolean;
+    pristine: boolean;
+    touched: boolean;
+    /**
+     * @description
+     * Set when the control is `readonly`.
+     */
+    readonly?: boolean;
+    /**
+     * @description
+     * Set when the control is hidden, see `AbstractBindControl.visible`.
+     */
+    hidden?: boolean;
+    /**
+     * @description
+     * The `updateOn` option of the control, when set on the control itself.
+     */
+    updateOn?: BindFormHooks;
+    /**
+     * @description
+     * The `manual` and `server` errors of the control, the other sources being computed again.
+     */
+    errors?: { manual?: ValidationBindErrors; server?: ValidationBindErrors };
+    /**
+     * @description
+     * The type of a `BindFormControl`.
+     */
+    type?: BindFormControlType;
+    /**
+     * @description
+     * The value of a `BindFormControl`, dates being written as `{$date: isoString}`.
+     */
+    value?: any;
+    /**
+     * @description
+     * The states of the children of a `BindFormGroup` or a `BindFormArray`.
+     */
+    controls?: { [key: string]: BindControlState } | BindControlState[];
+}
+
+/**
+ * @description
+ * A difference between a snapshot and the control tree it's restored into, see
+ * `AbstractBindControl.restoreState`.
+ *
+ * @publicApi
+ */
+export interface BindStateMismatch {
+    /**
+     * @description
+     * The dot-delimited path of the control, empty for the root control.
+     */
+    path: string;
+    /**
+     * @description
+     * Describes the mismatch.
+     */
+    reason: string;
+}
+
+/**
+ * Converts a value to JSON values, writing dates as `{$date: isoString}`.
+ */
+export function encodeStateValue(value: any): any {
+    if (value instanceof Date) return { $date: value.toISOString() };
+    if (Array.isArray(value)) return value.map(encodeStateValue);
+    if (value != null && typeof value === 'object') {
+        const res: { [key: string]: any } = {};
+        Object.keys(value).forEach((key) => (res[key] = encodeStateValue(value[key])));
+        return res;
+    }
+    return value;
+}
+
+/**
+ * Converts back a value written by `encodeStateValue`.
+ */
+export function decodeStateValue(value: any): any {
+    if (Array.isArray(value)) return value.map(decodeStateValue);
+    if (value != null && typeof value === 'object') {
+        const keys = Object.keys(value);
+        if (keys.length === 1 && keys[0] === '$date') return new Date(value.$date);
+        const res: { [key: string]: any } = {};
+        keys.forEach((key) => (res[key] = decodeStateValue(value[key])));
+        return res;
+    }
+    return value;
+}
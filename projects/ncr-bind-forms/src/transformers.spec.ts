@@ -0,0 +1,526 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { BindFormControlType } from './control_types';
+import { ControlBindValueAccessor } from './directives/control_value_accessor';
+import { NgBindControl } from './directives/ng_control';
+import { cleanUpControl, setUpControl } from './directives/shared';
+import { BindTransformer, MaskTransformer } from './directives/transformers';
+import { applyMask, isMaskComplete, unmaskValue } from './mask';
+import { BindFormControl } from './model';
+import { BindTransformerPair, BindTransformers } from './transformers';
+
+class FakeValueAccessor implements ControlBindValueAccessor {
+    written: any[] = [];
+    onChange: (value: any) => void = () => {};
+    onTouched: () => void = () => {};
+
+    writeValue(value: any): void {
+        this.written.push(value);
+    }
+
+    registerOnChange(fn: (value: any) => void): void {
+        this.onChange = fn;
+    }
+
+    registerOnTouched(fn: () => void): void {
+        this.onTouched = fn;
+    }
+
+    get lastWritten(): any {
+        return this.written[this.written.length - 1];
+    }
+}
+
+function fakeDirective(valueAccessor: ControlBindValueAccessor, transformers: BindTransformer[] = []): NgBindControl & { viewModels: any[] } {
+    const viewModels: any[] = [];
+    return {
+        path: ['name'],
+        valueAccessor,
+        validator: null,
+        asyncValidator: null,
+        transformer: BindTransformers.compose(transformers),
+        _rawValidators: [],
+        _rawAsyncValidators: [],
+        _rawTransformers: transformers,
+        viewModels,
+        viewToModelUpdate: (value: any) => viewModels.push(value),
+    } as any;
+}
+
+function tag(name: string, log: string[]): BindTransformerPair<string, string> {
+    return {
+        parse: (value) => {
+            log.push(`parse:${name}`);
+            return `${value}>${name}`;
+        },
+        format: (value) => {
+            log.push(`format:${name}`);
+            return `${value}<${name}`;
+        },
+    };
+}
+
+const upper: BindTransformerPair<string, string> = {
+    parse: (value) => (value == null ? value : value.toUpperCase()),
+    format: (value) => (value == null ? value : value.toLowerCase()),
+};
+
+describe('BindTransformers', () => {
+    describe('nullTransformer', () => {
+        it('should return values unchanged', () => {
+            const value = { a: 1 };
+            expect(BindTransformers.nullTransformer.parse(value)).toBe(value);
+            expect(BindTransformers.nullTransformer.format(value)).toBe(value);
+        });
+    });
+
+    describe('trim', () => {
+        it('should trim strings', () => {
+            expect(BindTransformers.trim.parse('  a b  ')).toEqual('a b');
+        });
+
+        it('should pass other values through', () => {
+            expect(BindTransformers.trim.parse(null)).toBe(null);
+            expect(BindTransformers.trim.parse(12)).toBe(12);
+        });
+    });
+
+    describe('collapseWhitespace', () => {
+        it('should trim and collapse whitespace', () => {
+            expect(BindTransformers.collapseWhitespace.parse('  a \t\n b  c ')).toEqual('a b c');
+        });
+    });
+
+    describe('uppercase and lowercase', () => {
+        it('should change the case of strings', () => {
+            expect(BindTransformers.uppercase.parse('aBc')).toEqual('ABC');
+            expect(BindTransformers.lowercase.parse('aBc')).toEqual('abc');
+        });
+
+        it('should format values unchanged', () => {
+            expect(BindTransformers.uppercase.format('ABC')).toEqual('ABC');
+        });
+    });
+
+    describe('stripNonDigits', () => {
+        it('should keep only digits', () => {
+            expect(BindTransformers.stripNonDigits.parse('a1-2 3.4')).toEqual('1234');
+        });
+    });
+
+    describe('emptyToNull', () => {
+        it('should store empty and blank strings as null', () => {
+            expect(BindTransformers.emptyToNull.parse('')).toBe(null);
+            expect(BindTransformers.emptyToNull.parse('   ')).toBe(null);
+        });
+
+        it('should keep other strings', () => {
+            expect(BindTransformers.emptyToNull.parse(' a ')).toEqual(' a ');
+        });
+    });
+
+    describe('decimal', () => {
+        it('should parse grouped numbers', () => {
+            expect(BindTransformers.decimal().parse('-1,234.5')).toEqual(-1234.5);
+        });
+
+        it('should parse empty strings as null', () => {
+            expect(BindTransformers.decimal().parse(' ')).toBe(null);
+        });
+
+        it('should keep unparseable strings', () => {
+            expect(BindTransformers.decimal().parse('1.2.3') as any).toEqual('1.2.3');
+        });
+
+        it('should format numbers for the locale', () => {
+            expect(BindTransformers.decimal('en-US', '1.2-2').format(1234.5)).toEqual('1,234.50');
+        });
+
+        it('should not format other values', () => {
+            expect(BindTransformers.decimal().format(null)).toBe(null);
+        });
+    });
+
+    describe('currency', () => {
+        it('should format amounts', () => {
+            expect(BindTransformers.currency('USD').format(1234.5)).toEqual('$1,234.50');
+        });
+
+        it('should parse amounts, ignoring the symbol', () => {
+            expect(BindTransformers.currency('USD').parse('$1,234.50')).toEqual(1234.5);
+            expect(BindTransformers.currency('USD').parse('-$3')).toEqual(-3);
+        });
+    });
+
+    describe('phone', () => {
+        it('should store the digits', () => {
+            expect(BindTransformers.phone().parse('(555) 123-4567')).toEqual('5551234567');
+        });
+
+        it('should skip the digits of the literals of the mask', () => {
+            expect(BindTransformers.phone('+1 (999) 999-9999').parse('+1 (555) 123-4567')).toEqual('5551234567');
+        });
+
+        it('should format digits through the mask', () => {
+            expect(BindTransformers.phone().format('5551234567')).toEqual('(555) 123-4567');
+            expect(BindTransformers.phone('99 99').format('1234')).toEqual('12 34');
+        });
+
+        it('should format partial numbers', () => {
+            expect(BindTransformers.phone().format('5551')).toEqual('(555) 1');
+        });
+
+        it('should keep digits beyond the mask', () => {
+            expect(BindTransformers.phone('99-99').format('123456')).toEqual('12-3456');
+        });
+    });
+
+    describe('mask', () => {
+        it('should store the characters filling the placeholders', () => {
+            expect(BindTransformers.mask('99/99/9999').parse('31/12/2020')).toEqual('31122020');
+            expect(BindTransformers.mask('aaa-999').parse('abc-123')).toEqual('abc123');
+        });
+
+        it('should format values through the mask', () => {
+            expect(BindTransformers.mask('99/99/9999').format('31122020')).toEqual('31/12/2020');
+            expect(BindTransformers.mask('**-**').format('a1b2')).toEqual('a1-b2');
+        });
+
+        it('should leave non string values untouched', () => {
+            expect(BindTransformers.mask('99').parse(null)).toBeNull();
+            expect(BindTransformers.mask('99').format(null)).toBeNull();
+        });
+    });
+
+    describe('compose', () => {
+        it('should return null when given null', () => {
+            expect(BindTransformers.compose(null)).toBe(null);
+        });
+
+        it('should return null when given an empty or only null array', () => {
+            expect(BindTransformers.compose([])).toBe(null);
+            expect(BindTransformers.compose([null, undefined])).toBe(null);
+        });
+
+        it('should return the transformer when given only one', () => {
+            expect(BindTransformers.compose([null, upper])).toBe(upper);
+        });
+
+        it('should parse in the given order', () => {
+            const log: string[] = [];
+            const composed = BindTransformers.compose([tag('a', log), tag('b', log)])!;
+
+            expect(composed.parse('v')).toEqual('v>a>b');
+            expect(log).toEqual(['parse:a', 'parse:b']);
+        });
+
+        it('should format in reverse order', () => {
+            const log: string[] = [];
+            const composed = BindTransformers.compose([tag('a', log), tag('b', log)])!;
+
+            expect(composed.format('v')).toEqual('v<b<a');
+            expect(log).toEqual(['format:b', 'format:a']);
+        });
+
+        it('should skip null transformers', () => {
+            const log: string[] = [];
+            const composed = BindTransformers.compose([tag('a', log), null, tag('b', log)])!;
+
+            expect(composed.parse('v')).toEqual('v>a>b');
+        });
+    });
+});
+
+describe('mask helpers', () => {
+    it('should skip typed literals and characters that fit no placeholder', () => {
+        expect(unmaskValue('(555) 12x3', '(999) 999-9999')).toEqual('555123');
+        expect(unmaskValue('5551234567', '(999) 999-9999')).toEqual('5551234567');
+    });
+
+    it('should drop characters beyond the mask', () => {
+        expect(unmaskValue('12345', '99-99')).toEqual('1234');
+        expect(applyMask('12345', '99-99')).toEqual('12-34');
+    });
+
+    it('should write literals up to the last filled placeholder', () => {
+        expect(applyMask('', '(999) 999')).toEqual('');
+        expect(applyMask('55', '(999) 999')).toEqual('(55');
+        expect(applyMask('555', '(999) 999')).toEqual('(555');
+        expect(applyMask('5551', '(999) 999')).toEqual('(555) 1');
+    });
+
+    it('should write trailing literals once complete', () => {
+        expect(applyMask('12', '99%')).toEqual('12%');
+    });
+
+    it('should tell whether a value is complete', () => {
+        expect(isMaskComplete('12-34', '99-99')).toBe(true);
+        expect(isMaskComplete('12-3', '99-99')).toBe(false);
+    });
+});
+
+describe('transformer pipeline', () => {
+    let accessor: FakeValueAccessor;
+
+    beforeEach(() => {
+        accessor = new FakeValueAccessor();
+    });
+
+    describe('options', () => {
+        it('should set the transformer from the options object', () => {
+            const control = new BindFormControl('', null, null, { transformers: upper });
+            expect(control.transformer).toBe(upper);
+        });
+
+        it('should compose a transformer array from the options object', () => {
+            const log: string[] = [];
+            const control = new BindFormControl('', null, null, { transformers: [tag('a', log), tag('b', log)] });
+            expect(control.transformer!.parse('v')).toEqual('v>a>b');
+        });
+
+        it('should not use a validator as a transformer', () => {
+            const control = new BindFormControl('', null, null, () => null);
+            expect(control.transformer).toBe(null);
+        });
+
+        it('should replace the transformer with setTransformers', () => {
+            const control = new BindFormControl('', null, null, { transformers: upper });
+            control.setTransformers(null);
+            expect(control.transformer).toBe(null);
+        });
+    });
+
+    describe('model -> view', () => {
+        it('should format the initial value', () => {
+            const control = new BindFormControl('HELLO', null, null, { transformers: upper });
+            setUpControl(control, fakeDirective(accessor));
+
+            expect(accessor.written).toEqual(['hello']);
+        });
+
+        it('should format values set programmatically', () => {
+            const control = new BindFormControl('', null, null, { transformers: upper });
+            setUpControl(control, fakeDirective(accessor));
+
+            control.setValue('WORLD');
+
+            expect(accessor.lastWritten).toEqual('world');
+        });
+
+        it('should not transform the value stored by setValue', () => {
+            const control = new BindFormControl('', null, null, { transformers: upper });
+            setUpControl(control, fakeDirective(accessor));
+
+            control.setValue('mixed Case');
+
+            expect(control.value).toEqual('mixed Case');
+        });
+
+        it('should emit the model value to ngBindModel', () => {
+            const control = new BindFormControl('', null, null, { transformers: upper });
+            const dir = fakeDirective(accessor);
+            setUpControl(control, dir);
+
+            control.setValue('WORLD');
+
+            expect(dir.viewModels).toEqual(['WORLD']);
+        });
+
+        it('should run the directive transformers closer to the view than the control ones', () => {
+            const log: string[] = [];
+            const control = new BindFormControl('', null, null, { transformers: tag('control', log) });
+            const dir = fakeDirective(accessor);
+            (dir as any).transformer = tag('dir', log);
+            setUpControl(control, dir);
+
+            accessor.onChange('v');
+
+            expect(control.value).toEqual('v>dir>control');
+            expect(accessor.written[0]).toEqual('<control<dir');
+        });
+
+        it('should keep the directive transformers out of the control', () => {
+            const log: string[] = [];
+            const own = tag('control', log);
+            const control = new BindFormControl('', null, null, { transformers: own });
+            const dir = fakeDirective(accessor);
+            (dir as any).transformer = tag('dir', log);
+            setUpControl(control, dir);
+            cleanUpControl(control, dir);
+            setUpControl(control, dir);
+
+            accessor.onChange('v');
+
+            expect(control.transformer).toBe(own);
+            expect(control.value).toEqual('v>dir>control');
+        });
+
+        it('should drop the directive transformers once the control is bound to another directive', () => {
+            const log: string[] = [];
+            const control = new BindFormControl('', null, null, { transformers: tag('control', log) });
+            const dir = fakeDirective(accessor);
+            (dir as any).transformer = tag('dir', log);
+            setUpControl(control, dir);
+            cleanUpControl(control, dir);
+
+            const other = new FakeValueAccessor();
+            setUpControl(control, fakeDirective(other));
+            other.onChange('v');
+
+            expect(control.value).toEqual('v>control');
+            expect(other.written[0]).toEqual('<control');
+        });
+
+        it('should format the control type before the transformer', () => {
+            const log: string[] = [];
+            const control = new BindFormControl(new Date(2020, 0, 31), BindFormControlType.date, null, { transformers: tag('a', log) });
+            setUpControl(control, fakeDirective(accessor));
+
+            expect(accessor.lastWritten).toEqual('2020-01-31<a');
+        });
+    });
+
+    describe('view -> model', () => {
+        it('should parse view values', () => {
+            const control = new BindFormControl('', null, null, { transformers: upper });
+            setUpControl(control, fakeDirective(accessor));
+
+            accessor.onChange('hello');
+
+            expect(control.value).toEqual('HELLO');
+        });
+
+        it('should emit the parsed value to ngBindModel', () => {
+            const control = new BindFormControl('', null, null, { transformers: upper });
+            const dir = fakeDirective(accessor);
+            setUpControl(control, dir);
+
+            accessor.onChange('hello');
+
+            expect(dir.viewModels).toEqual(['HELLO']);
+        });
+
+        it('should not write back to the view while typing', () => {
+            const control = new BindFormControl('', null, null, { transformers: upper });
+            setUpControl(control, fakeDirective(accessor));
+            accessor.written = [];
+
+            accessor.onChange('hello');
+
+            expect(accessor.written).toEqual([]);
+        });
+
+        it('should write the formatted value back on blur', () => {
+            const trim: BindTransformerPair<string, string> = { parse: (value) => value.trim(), format: (value) => value };
+            const control = new BindFormControl('', null, null, { transformers: trim });
+            setUpControl(control, fakeDirective(accessor));
+
+            accessor.onChange('  hello  ');
+            accessor.onTouched();
+
+            expect(accessor.lastWritten).toEqual('hello');
+        });
+
+        it('should parse pending values for updateOn blur', () => {
+            const control = new BindFormControl('', null, null, { transformers: upper, updateOn: 'blur' });
+            setUpControl(control, fakeDirective(accessor));
+
+            accessor.onChange('hello');
+            expect(control.value).toEqual('');
+
+            accessor.onTouched();
+            expect(control.value).toEqual('HELLO');
+        });
+
+        it('should parse with the transformer before the control type', () => {
+            const decimalComma: BindTransformerPair<string, string> = {
+                parse: (value) => value.replace(',', '.'),
+                format: (value) => value,
+            };
+            const control = new BindFormControl(null, BindFormControlType.number, null, { transformers: decimalComma });
+            setUpControl(control, fakeDirective(accessor));
+
+            accessor.onChange('1,5');
+
+            expect(control.value).toEqual(1.5);
+        });
+
+        it('should round-trip through parse and format', () => {
+            const log: string[] = [];
+            const control = new BindFormControl('', null, null, { transformers: [tag('a', log), tag('b', log)] });
+            setUpControl(control, fakeDirective(accessor));
+
+            accessor.onChange('v');
+            control.setValue(control.value);
+
+            expect(control.value).toEqual('v>a>b');
+            expect(accessor.lastWritten).toEqual('v>a>b<b<a');
+        });
+    });
+
+    describe('transformer changes', () => {
+        let mask: MaskTransformer;
+
+        beforeEach(() => {
+            mask = new MaskTransformer();
+            mask.mask = '99-99';
+        });
+
+        it('should format the view with the new inputs', () => {
+            const control = new BindFormControl('1234');
+            setUpControl(control, fakeDirective(accessor, [mask]));
+            expect(accessor.lastWritten).toEqual('12-34');
+
+            mask.mask = '9/9/9/9';
+            mask.ngOnChanges({});
+
+            expect(control.value).toEqual('1234');
+            expect(accessor.lastWritten).toEqual('1/2/3/4');
+        });
+
+        it('should parse the view value again with the new inputs', () => {
+            const control = new BindFormControl('');
+            setUpControl(control, fakeDirective(accessor, [mask]));
+            accessor.onChange('12-345');
+            expect(control.value).toEqual('1234');
+
+            mask.mask = '99-999';
+            mask.ngOnChanges({});
+
+            expect(control.value).toEqual('12345');
+            expect(accessor.lastWritten).toEqual('12-345');
+        });
+
+        it('should update the pending value for updateOn blur', () => {
+            const control = new BindFormControl('', null, null, { updateOn: 'blur' });
+            setUpControl(control, fakeDirective(accessor, [mask]));
+            accessor.onChange('12-345');
+
+            mask.mask = '99-999';
+            mask.ngOnChanges({});
+            expect(control.value).toEqual('');
+
+            accessor.onTouched();
+            expect(control.value).toEqual('12345');
+        });
+
+        it('should stop listening once cleaned up', () => {
+            const control = new BindFormControl('1234');
+            const dir = fakeDirective(accessor, [mask]);
+            setUpControl(control, dir);
+            cleanUpControl(control, dir);
+            accessor.written = [];
+
+            mask.mask = '9/9/9/9';
+            mask.ngOnChanges({});
+
+            expect(accessor.written).toEqual([]);
+        });
+    });
+});
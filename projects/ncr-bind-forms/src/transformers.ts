@@ -1,59 +1,295 @@
-import { AbstractBindControl } from './model';
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { formatCurrency, formatNumber, getCurrencySymbol, getLocaleNumberSymbol, NumberSymbol } from '@angular/common';
+import { InjectionToken } from '@angular/core';
+import { parseNumberString } from './control_types';
+import { BindTransformer } from './directives/transformers';
+import { applyMask, unmaskValue } from './mask';
 
 /**
  * @description
- * A function that receives a control and synchronously returns a map function to
- * transform the value of the control if present, otherwise null.
+ * An `InjectionToken` for registering additional transformers used with `BindFormControl`s.
+ *
+ * The transformers provided on the element of a `formBindControlName`, `formBindControl` or
+ * `ngBindModel` directive are composed, in provider order, and run closer to the view than the
+ * transformers of the control itself.
+ *
+ * @usageNotes
+ *
+ * ### Providing a custom transformer
+ *
+ * The following example registers a custom transformer directive. Adding the transformer to the
+ * existing collection of transformers requires the `multi: true` option.
+ *
+ * ```typescript
+ * @Directive({
+ *   selector: '[reverse]',
+ *   providers: [{provide: NG_BIND_TRANSFORMERS, useExisting: ReverseTransformerDirective, multi: true}]
+ * })
+ * class ReverseTransformerDirective implements BindTransformer {
+ *   parse(value: string): string {
+ *     return value.split('').reverse().join('');
+ *   }
+ *   format(value: string): string {
+ *     return value.split('').reverse().join('');
+ *   }
+ * }
+ * ```
  *
  * @publicApi
  */
-export type BindTransformerFn = (control: AbstractBindControl) => any;
+export const NG_BIND_TRANSFORMERS = new InjectionToken<Array<BindTransformer>>('NgTransformers');
 
 /**
  * @description
- * Provides a set of built-in validators that can be used by form controls.
+ * A pair of functions converting the value of a `BindFormControl` between its view and model
+ * representations.
  *
- * A validator is a function that processes a `BindFormControl` or collection of
- * controls and returns an error map or null. A null map means that validation has passed.
+ * * `parse` runs on view -> model updates, with the value reported by the value accessor.
+ * * `format` runs on model -> view updates, with the value of the control, and returns
+ * the value written to the value accessor.
  *
- * @see [BindForm Validation](/guide/form-validation)
+ * `format(parse(viewValue))` is expected to give back an equivalent view value.
  *
  * @publicApi
  */
+export interface BindTransformerPair<M = any, V = any> {
+    parse(viewValue: V): M;
+    format(modelValue: M): V;
+}
+
+/**
+ * @description
+ * Provides a set of built-in transformers that can be used by form controls.
+ *
+ * A transformer is a `{ parse, format }` pair, applied by the forms directives between the
+ * value accessor and the `BindFormControl`:
+ *
+ * * view -> model: `transformer.parse(viewValue)`, then the `BindFormControlType` coercion.
+ * * model -> view: the `BindFormControlType` formatting, then `transformer.format(modelValue)`.
+ *
+ * Transformers never run on programmatic updates such as `setValue`, which already
+ * receive model values.
+ *
+ * @usageNotes
+ *
+ * ### Store a trimmed value
+ *
+ * ```typescript
+ * const trim: BindTransformerPair<string, string> = {
+ *   parse: (value) => (value == null ? value : value.trim()),
+ *   format: (value) => value,
+ * };
+ *
+ * const control = new BindFormControl('', null, null, { transformers: trim });
+ * ```
+ *
+ * @publicApi
+ * @dynamic
+ */
 export class BindTransformers {
     /**
      * @description
      * BindTransformer that performs no operation.
      *
      */
-    static nullTransformer(control: AbstractBindControl): any {
-        return control.value;
+    static nullTransformer: BindTransformerPair = {
+        parse: (viewValue: any) => viewValue,
+        format: (modelValue: any) => modelValue,
+    };
+
+    /**
+     * @description
+     * Transformer that removes leading and trailing whitespace from string values.
+     *
+     * @usageNotes
+     *
+     * ```typescript
+     * const control = new BindFormControl('', null, null, { transformers: BindTransformers.trim });
+     * ```
+     *
+     * ```html
+     * <input formBindControlName="name" trim>
+     * ```
+     */
+    static trim: BindTransformerPair = {
+        parse: (viewValue: any) => _mapString(viewValue, (value) => value.trim()),
+        format: _identity,
+    };
+
+    /**
+     * @description
+     * Transformer that trims string values and collapses each run of whitespace to a single space.
+     */
+    static collapseWhitespace: BindTransformerPair = {
+        parse: (viewValue: any) => _mapString(viewValue, (value) => value.replace(/\s+/g, ' ').trim()),
+        format: _identity,
+    };
+
+    /**
+     * @description
+     * Transformer that stores string values in upper case.
+     */
+    static uppercase: BindTransformerPair = {
+        parse: (viewValue: any) => _mapString(viewValue, (value) => value.toUpperCase()),
+        format: _identity,
+    };
+
+    /**
+     * @description
+     * Transformer that stores string values in lower case.
+     */
+    static lowercase: BindTransformerPair = {
+        parse: (viewValue: any) => _mapString(viewValue, (value) => value.toLowerCase()),
+        format: _identity,
+    };
+
+    /**
+     * @description
+     * Transformer that removes every character that is not a digit from string values.
+     */
+    static stripNonDigits: BindTransformerPair = {
+        parse: (viewValue: any) => _mapString(viewValue, (value) => value.replace(/\D/g, '')),
+        format: _identity,
+    };
+
+    /**
+     * @description
+     * Transformer that stores empty and whitespace-only strings as `null`.
+     */
+    static emptyToNull: BindTransformerPair = {
+        parse: (viewValue: any) => _mapString(viewValue, (value) => (value.trim().length === 0 ? null : value)),
+        format: _identity,
+    };
+
+    /**
+     * @description
+     * Transformer that parses numbers written with the decimal and grouping symbols of a locale,
+     * and formats numbers with `formatNumber`.
+     *
+     * The locale data must be registered, see `registerLocaleData`.
+     *
+     * @usageNotes
+     *
+     * ### Parse and format French decimals
+     *
+     * ```typescript
+     * const control = new BindFormControl(1234.5, BindFormControlType.number, null, {
+     *   transformers: BindTransformers.decimal('fr'),
+     * });
+     * // the view shows '1 234,5', typing '12,75' stores 12.75
+     * ```
+     *
+     * @param locale The locale to use, `'en-US'` by default.
+     * @param digitsInfo The format of the number, as for `DecimalPipe`.
+     */
+    static decimal(locale: string = 'en-US', digitsInfo?: string): BindTransformerPair<number | null, string> {
+        return {
+            parse: (viewValue: any) => _parseLocaleNumber(viewValue, locale, null),
+            format: (modelValue: any) => (_isFiniteNumber(modelValue) ? formatNumber(modelValue, locale, digitsInfo) : modelValue),
+        };
+    }
+
+    /**
+     * @description
+     * Transformer that formats numbers as an amount of the given currency with `formatCurrency`,
+     * and parses amounts back to numbers, ignoring the currency symbol.
+     *
+     * The locale data must be registered, see `registerLocaleData`.
+     *
+     * @param currencyCode The ISO 4217 currency code, such as `'EUR'`.
+     * @param locale The locale to use, `'en-US'` by default.
+     * @param digitsInfo The format of the number, by default the number of digits of the currency.
+     */
+    static currency(currencyCode: string, locale: string = 'en-US', digitsInfo?: string): BindTransformerPair<number | null, string> {
+        return {
+            parse: (viewValue: any) => _parseLocaleNumber(viewValue, locale, /[\d\s]/),
+            format: (modelValue: any) =>
+                _isFiniteNumber(modelValue)
+                    ? formatCurrency(modelValue, locale, getCurrencySymbol(currencyCode, 'wide', locale), currencyCode, digitsInfo)
+                    : modelValue,
+        };
+    }
+
+    /**
+     * @description
+     * Transformer that stores the digits of a phone number and shows them through a mask,
+     * where each `9` of the mask stands for a digit. The digits of the literals of the mask,
+     * such as the `1` of `'+1 (999) 999-9999'`, are not stored.
+     *
+     * @usageNotes
+     *
+     * ```typescript
+     * const control = new BindFormControl('', null, null, { transformers: BindTransformers.phone('(999) 999-9999') });
+     * // typing '555 123 4567' stores '5551234567' and shows '(555) 123-4567'
+     * ```
+     *
+     * @param mask The display mask, `'(999) 999-9999'` by default.
+     */
+    static phone(mask: string = '(999) 999-9999'): BindTransformerPair<string | null, string> {
+        return {
+            parse: (viewValue: any) => _mapString(viewValue, (value) => unmaskValue(value, mask)),
+            // Digits beyond the mask are kept visible rather than silently dropped
+            format: (modelValue: any) => (typeof modelValue === 'string' || _isFiniteNumber(modelValue) ? applyMask(String(modelValue), mask, true) : modelValue),
+        };
+    }
+
+    /**
+     * @description
+     * Transformer that stores the characters filling the placeholders of a mask, and shows them
+     * through the mask. In the mask, `9` stands for a digit, `a` for a letter, `*` for a letter
+     * or a digit, and any other character is a literal.
+     *
+     * @usageNotes
+     *
+     * ```typescript
+     * const control = new BindFormControl('', null, null, { transformers: BindTransformers.mask('99/99/9999') });
+     * // typing '31/12/2020' stores '31122020'
+     * ```
+     *
+     * @param mask The mask pattern.
+     */
+    static mask(mask: string): BindTransformerPair<string | null, string> {
+        return {
+            parse: (viewValue: any) => _mapString(viewValue, (value) => unmaskValue(value, mask)),
+            format: (modelValue: any) => _mapString(modelValue, (value) => applyMask(value, mask)),
+        };
     }
 
     /**
      * @description
-     * Compose multiple validators into a single function that returns the union
-     * of the individual error maps for the provided control.
+     * Compose multiple transformers into a single pair.
      *
-     * @returns A validator function that returns an error map with the
-     * merged error maps of the validators if the validation check fails, otherwise `null`.
+     * Transformers are stacked from the view to the model: `parse` runs them in the given
+     * order, `format` runs them in reverse order. With `[a, b]`, a view value goes through
+     * `a.parse` then `b.parse`, and a model value goes through `b.format` then `a.format`.
      *
-     * @see `updateValueAndValidity()`
+     * @returns A transformer applying all the given transformers, or `null` when none is given.
      *
      */
     static compose(transformers: null): null;
-    static compose(transformers: (BindTransformerFn | null | undefined)[]): BindTransformerFn | null;
-    static compose(transformers: (BindTransformerFn | null | undefined)[] | null): BindTransformerFn | null {
+    static compose(transformers: (BindTransformerPair | null | undefined)[]): BindTransformerPair | null;
+    static compose(transformers: (BindTransformerPair | null | undefined)[] | null): BindTransformerPair | null {
         if (!transformers) {
             return null;
         }
-        const presentTransformers: BindTransformerFn[] = transformers.filter(isPresent) as any;
+        const presentTransformers: BindTransformerPair[] = transformers.filter(isPresent) as any;
         if (presentTransformers.length === 0) {
             return null;
         }
+        if (presentTransformers.length === 1) {
+            return presentTransformers[0];
+        }
 
-        return (value: any) => {
-            return _executeTransformers(value, presentTransformers);
+        return {
+            parse: (viewValue: any) => presentTransformers.reduce((value, transformer) => transformer.parse(value), viewValue),
+            format: (modelValue: any) => presentTransformers.reduceRight((value, transformer) => transformer.format(value), modelValue),
         };
     }
 }
@@ -62,7 +298,41 @@ function isPresent(o: any): boolean {
     return o != null;
 }
 
-function _executeTransformers(value: any, transformers: BindTransformerFn[]): any {
-    transformers.forEach((fn) => (value = fn(value)));
+function _mapString(value: any, fn: (value: string) => any): any {
+    return typeof value === 'string' ? fn(value) : value;
+}
+
+function _identity(value: any): any {
     return value;
 }
+
+function _parseLocaleNumber(value: any, locale: string, keep: RegExp | null): any {
+    if (typeof value !== 'string') {
+        return value;
+    }
+    const decimal = getLocaleNumberSymbol(locale, NumberSymbol.Decimal);
+    const minus = getLocaleNumberSymbol(locale, NumberSymbol.MinusSign);
+    let text = value;
+    if (keep) {
+        text = text.split('').filter((char) => keep.test(char) || char === decimal || char === minus).join('');
+    }
+    text = text
+        .split(getLocaleNumberSymbol(locale, NumberSymbol.Group))
+        .join('')
+        .replace(/\s/g, '')
+        .split(minus)
+        .join('-')
+        .split(decimal)
+        .join('.');
+    if (text === '') {
+        return null;
+    }
+    const parsed = parseNumberString(text);
+    // Unparseable input is kept so that a `number` validator can report it
+    return parsed != null ? parsed : value;
+}
+
+function _isFiniteNumber(value: any): boolean {
+    return typeof value === 'number' && isFinite(value);
+}
+
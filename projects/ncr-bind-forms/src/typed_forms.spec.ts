@@ -0,0 +1,91 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { BindFormBuilder } from './form_builder';
+import { AbstractBindControl, BindFormArray, BindFormControl, BindFormGroup } from './model';
+
+interface Address {
+    street: string;
+    zip: number;
+}
+
+interface Person {
+    name: string;
+    age: number;
+    address: Address;
+    tags: string[];
+}
+
+// The `@ts-expect-error` lines are checked by the compiler: the spec fails to build if one of them type-checks.
+describe('typed controls', () => {
+    const fb = new BindFormBuilder();
+    let person: BindFormGroup<Person>;
+
+    beforeEach(() => {
+        person = new BindFormGroup<Person>({
+            name: new BindFormControl<string>('Ada'),
+            age: new BindFormControl<number>(36),
+            address: new BindFormGroup<Address>({ street: new BindFormControl<string>('Main St'), zip: new BindFormControl<number>(75001) }),
+            tags: new BindFormArray<string>([new BindFormControl<string>('admin')]),
+        });
+    });
+
+    it('should type the paths and values of a group', () => {
+        const name: AbstractBindControl<string> | null = person.get('name');
+        const street: AbstractBindControl<string> | null = person.get(['address', 'street']);
+        const tag: AbstractBindControl<string> | null = person.get(['tags', 0]);
+        const value: Person = person.getRawValue();
+
+        expect(name!.value).toBe('Ada');
+        expect(street!.value).toBe('Main St');
+        expect(tag!.value).toBe('admin');
+        expect(value.address.zip).toBe(75001);
+    });
+
+    it('should reject the paths and values that do not match the type', () => {
+        // @ts-expect-error
+        expect(person.get('nmae')).toBeNull();
+        // @ts-expect-error
+        expect(person.get(['address', 'stret'])).toBeNull();
+        // @ts-expect-error
+        expect(() => person.setValue({ name: 'Grace' })).toThrow();
+        // @ts-expect-error
+        expect(new BindFormGroup<Person>({ name: new BindFormControl<number>(1) }).value).toEqual({ name: 1 });
+    });
+
+    it('should type the controls created by the builder', () => {
+        const form = fb.group<Person>({ name: 'Ada', age: 36, address: fb.group<Address>({ street: '', zip: 0 }), tags: fb.array<string>(['admin']) });
+        const age: AbstractBindControl<number> = form.controls.age;
+        const tags: BindFormArray<string> = fb.array<string>(['admin', 'owner']);
+        const tag: AbstractBindControl<string> = tags.controls[1];
+        const control: BindFormControl<number> = fb.control<number>(1);
+
+        expect(age.value).toBe(36);
+        expect(tag.value).toBe('owner');
+        expect(control.value).toBe(1);
+    });
+
+    it('should reject builder configurations that do not match the type', () => {
+        // @ts-expect-error
+        expect(fb.group<Person>({ nme: '' }).get('nme')).not.toBeNull();
+        // @ts-expect-error
+        expect(fb.control<number>('1').value).toBe('1');
+        // @ts-expect-error
+        const age: AbstractBindControl<string> = fb.group<Person>({ name: '', age: 1, address: null, tags: [] }).controls.age;
+
+        expect(age.value as unknown).toBe(1);
+    });
+
+    it('should leave untyped groups open', () => {
+        const form = fb.group({ name: 'Ada' });
+        form.addControl('nickname', new BindFormControl('Countess'));
+
+        expect(form.get('nickname')!.value).toBe('Countess');
+        expect(form.value.nickname).toBe('Countess');
+    });
+});
@@ -0,0 +1,566 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { Observable, of, Subject, throwError } from 'rxjs';
+
+import { setAsyncValidatorFailureHandler } from './async_validation';
+import { BindFormControlType } from './control_types';
+import { syncPendingControls } from './directives/shared';
+import { ErrorItemType, ValidationBindErrors } from './directives/validators';
+import { AbstractBindControl, BindFormControl, BindFormGroup } from './model';
+import { BindValidators } from './validators';
+
+describe('BindValidators.withSeverity', () => {
+    it('should tag every entry with the severity', () => {
+        const validator = BindValidators.withSeverity(ErrorItemType.alert, BindValidators.maxLength(5));
+        const control = new BindFormControl('Angular', null, null, validator);
+
+        expect(control.errors).toEqual({ maxlength: { requiredLength: 5, actualLength: 7, type: ErrorItemType.alert } });
+        expect(control.status).toBe('WARNED');
+    });
+
+    it('should replace the entries that are not objects', () => {
+        const control = new BindFormControl('', null, null, BindValidators.withSeverity(ErrorItemType.help, BindValidators.required));
+
+        expect(control.errors).toEqual({ required: { type: ErrorItemType.help } });
+        expect(control.status).toBe('VALID');
+    });
+
+    it('should pass through a null result', () => {
+        expect(BindValidators.withSeverity(ErrorItemType.alert, BindValidators.required)(new BindFormControl('x'))).toBeNull();
+    });
+});
+
+describe('BindValidators type validators', () => {
+    it('should validate dates', () => {
+        expect(BindValidators.date(new BindFormControl(new Date(2021, 2, 4)))).toBeNull();
+        expect(BindValidators.date(new BindFormControl('2021-03-04'))).toBeNull();
+        expect(BindValidators.date(new BindFormControl(''))).toBeNull();
+        expect(BindValidators.date(new BindFormControl('2021-02-30'))).toEqual({ date: { actual: '2021-02-30' } });
+        expect(BindValidators.date(new BindFormControl(new Date(NaN)))).toEqual({ date: { actual: jasmine.any(Date) } });
+    });
+
+    it('should validate years', () => {
+        expect(BindValidators.year(new BindFormControl(2021))).toBeNull();
+        expect(BindValidators.year(new BindFormControl('2021'))).toBeNull();
+        expect(BindValidators.year(new BindFormControl(null))).toBeNull();
+        expect(BindValidators.year(new BindFormControl('21'))).toEqual({ year: { actual: '21' } });
+        expect(BindValidators.year(new BindFormControl(999))).toEqual({ year: { actual: 999 } });
+        expect(BindValidators.year(new BindFormControl(2021.5))).toEqual({ year: { actual: 2021.5 } });
+    });
+
+    it('should validate numbers', () => {
+        expect(BindValidators.number(new BindFormControl(1.5))).toBeNull();
+        expect(BindValidators.number(new BindFormControl('-2'))).toBeNull();
+        expect(BindValidators.number(new BindFormControl(''))).toBeNull();
+        expect(BindValidators.number(new BindFormControl('12a'))).toEqual({ number: { actual: '12a' } });
+        expect(BindValidators.number(new BindFormControl(Infinity))).toEqual({ number: { actual: Infinity } });
+    });
+
+    it('should validate integers', () => {
+        expect(BindValidators.integer(new BindFormControl(3))).toBeNull();
+        expect(BindValidators.integer(new BindFormControl('-2'))).toBeNull();
+        expect(BindValidators.integer(new BindFormControl(''))).toBeNull();
+        expect(BindValidators.integer(new BindFormControl(1.5))).toEqual({ integer: { actual: 1.5 } });
+        expect(BindValidators.integer(new BindFormControl('2.5'))).toEqual({ integer: { actual: '2.5' } });
+        expect(BindValidators.integer(new BindFormControl('12a'))).toEqual({ integer: { actual: '12a' } });
+    });
+
+    it('should run on the controls of the matching type', () => {
+        const date = new BindFormControl('2021-02-30', BindFormControlType.date);
+        const year = new BindFormControl('21', BindFormControlType.year);
+        const num = new BindFormControl('12', BindFormControlType.number);
+
+        expect(date.errors).toEqual({ date: { actual: '2021-02-30' } });
+        expect(year.errors).toEqual({ year: { actual: '21' } });
+        expect(num.value).toBe(12);
+        expect(num.errors).toBeNull();
+    });
+});
+
+describe('BindValidators group validators', () => {
+    describe('matchFields', () => {
+        let form: BindFormGroup;
+
+        beforeEach(() => {
+            form = new BindFormGroup(
+                { password: new BindFormControl('secret'), confirm: new BindFormControl('secrte', null, null, BindValidators.minLength(8)) },
+                BindValidators.matchFields('password', 'confirm')
+            );
+        });
+
+        it('should report the error on the group and the confirmation control', () => {
+            const error = { field: 'password', confirmField: 'confirm' };
+            expect(form.errors).toEqual({ matchFields: error });
+            expect(form.get('confirm')!.errors).toEqual({ minlength: { requiredLength: 8, actualLength: 6 }, matchFields: error });
+            expect(form.get('password')!.errors).toBeNull();
+            expect(form.get('confirm')!.invalid).toBe(true);
+        });
+
+        it('should remove the error from the child once the fields match', () => {
+            form.get('confirm')!.setValue('secret');
+
+            expect(form.errors).toBeNull();
+            expect(form.get('confirm')!.errors).toEqual({ minlength: { requiredLength: 8, actualLength: 6 } });
+        });
+
+        it('should report the error again when the reference changes', () => {
+            form.get('confirm')!.setValue('secret');
+            form.get('password')!.setValue('other');
+
+            expect(form.get('confirm')!.hasError('matchFields')).toBe(true);
+        });
+
+        it('should skip empty confirmations', () => {
+            form.get('confirm')!.setValue('');
+
+            expect(form.errors).toBeNull();
+        });
+    });
+
+    describe('dateRange', () => {
+        it('should require the start date before the end date', () => {
+            const form = new BindFormGroup(
+                { start: new BindFormControl('2020-06-10'), end: new BindFormControl(new Date(2020, 5, 1)) },
+                BindValidators.dateRange('start', 'end')
+            );
+
+            expect(form.hasError('dateRange')).toBe(true);
+            expect(form.get('end')!.hasError('dateRange')).toBe(true);
+            expect(form.get('start')!.errors).toBeNull();
+
+            form.get('end')!.setValue('2020-06-10');
+            expect(form.errors).toBeNull();
+            expect(form.get('end')!.errors).toBeNull();
+        });
+
+        it('should skip empty and invalid dates', () => {
+            const form = new BindFormGroup({ start: new BindFormControl('2020-06-10'), end: new BindFormControl('nope') }, BindValidators.dateRange('start', 'end'));
+
+            expect(form.errors).toBeNull();
+        });
+    });
+
+    describe('numericRange', () => {
+        it('should require the minimum lower than the maximum', () => {
+            const form = new BindFormGroup({ min: new BindFormControl('50'), max: new BindFormControl(20) }, BindValidators.numericRange('min', 'max'));
+
+            expect(form.get('max')!.errors).toEqual({ numericRange: { min: 50, max: 20 } });
+
+            form.get('max')!.setValue(50);
+            expect(form.get('max')!.errors).toBeNull();
+        });
+    });
+
+    describe('requireOneOf', () => {
+        it('should report the error on every control while none has a value', () => {
+            const form = new BindFormGroup({ email: new BindFormControl(''), phone: new BindFormControl(null) }, BindValidators.requireOneOf(['email', 'phone']));
+            const error = { requireOneOf: { fields: ['email', 'phone'] } };
+
+            expect(form.errors).toEqual(error);
+            expect(form.get('email')!.errors).toEqual(error);
+            expect(form.get('phone')!.errors).toEqual(error);
+
+            form.get('phone')!.setValue('555');
+            expect(form.errors).toBeNull();
+            expect(form.get('email')!.errors).toBeNull();
+            expect(form.get('phone')!.errors).toBeNull();
+        });
+    });
+
+    describe('mutuallyExclusive', () => {
+        it('should report the error on the controls having a value', () => {
+            const form = new BindFormGroup(
+                { card: new BindFormControl('4111'), iban: new BindFormControl('FR76'), cash: new BindFormControl('') },
+                BindValidators.mutuallyExclusive(['card', 'iban', 'cash'])
+            );
+            const error = { mutuallyExclusive: { fields: ['card', 'iban'] } };
+
+            expect(form.errors).toEqual(error);
+            expect(form.get('card')!.errors).toEqual(error);
+            expect(form.get('iban')!.errors).toEqual(error);
+            expect(form.get('cash')!.errors).toBeNull();
+
+            form.get('card')!.setValue('');
+            expect(form.errors).toBeNull();
+            expect(form.get('iban')!.errors).toBeNull();
+        });
+    });
+
+    describe('requiredIf', () => {
+        it('should require the control while the predicate holds', () => {
+            const form = new BindFormGroup(
+                { kind: new BindFormControl('business'), company: new BindFormControl('') },
+                BindValidators.requiredIf('company', (group) => group.value.kind === 'business')
+            );
+
+            expect(form.get('company')!.errors).toEqual({ requiredIf: { field: 'company' } });
+            expect(form.get('company')!.invalid).toBe(true);
+
+            form.get('kind')!.setValue('personal');
+            expect(form.errors).toBeNull();
+            expect(form.get('company')!.errors).toBeNull();
+        });
+
+        it('should ignore disabled controls', () => {
+            const form = new BindFormGroup(
+                { kind: new BindFormControl('business'), company: new BindFormControl({ value: '', disabled: true }) },
+                BindValidators.requiredIf('company', () => true)
+            );
+
+            expect(form.get('company')!.errors).toBeNull();
+        });
+    });
+});
+
+describe('BindValidators.withAsyncOptions', () => {
+    let checked: any[];
+
+    function check(control: AbstractBindControl): Observable<any> {
+        checked.push(control.value);
+        return of(control.value === 'taken' ? { taken: true } : null);
+    }
+
+    beforeEach(() => {
+        checked = [];
+        jasmine.clock().install();
+        jasmine.clock().mockDate(new Date(2020, 0, 1));
+    });
+
+    afterEach(() => {
+        jasmine.clock().uninstall();
+    });
+
+    it('should debounce the checks', () => {
+        const control = new BindFormControl('', null, null, { asyncValidators: BindValidators.withAsyncOptions(check, { debounce: 300 }) });
+        checked = [];
+
+        control.setValue('t');
+        jasmine.clock().tick(100);
+        control.setValue('taken');
+        expect(control.pending).toBe(true);
+
+        jasmine.clock().tick(300);
+
+        expect(checked).toEqual(['taken']);
+        expect(control.errors).toEqual({ taken: true });
+    });
+
+    it('should throttle the checks', () => {
+        const control = new BindFormControl('', null, null, { asyncValidators: BindValidators.withAsyncOptions(check, { throttle: 1000 }) });
+        expect(checked).toEqual(['']);
+
+        jasmine.clock().tick(200);
+        control.setValue('a');
+        control.setValue('ab');
+        expect(checked).toEqual(['']);
+
+        jasmine.clock().tick(800);
+        expect(checked).toEqual(['', 'ab']);
+    });
+
+    it('should report a timeout', () => {
+        const never = () => new Observable<any>(() => {});
+        const control = new BindFormControl('', null, null, { asyncValidators: BindValidators.withAsyncOptions(never, { timeout: 500 }) });
+        expect(control.pending).toBe(true);
+
+        jasmine.clock().tick(500);
+
+        expect(control.errors).toEqual({ asyncTimeout: { timeout: 500 } });
+        expect(control.invalid).toBe(true);
+    });
+
+    it('should defer blur validators to the blur', () => {
+        const control = new BindFormControl('', null, null, { asyncValidators: BindValidators.withAsyncOptions(check, { trigger: 'blur' }) });
+
+        control.setValue('taken');
+        expect(checked).toEqual([]);
+        expect(control.valid).toBe(true);
+
+        control._runAsyncValidatorOn('blur');
+        expect(checked).toEqual(['taken']);
+        expect(control.errors).toEqual({ taken: true });
+
+        control.updateValueAndValidity();
+        expect(control.errors).toEqual({ taken: true });
+
+        control.setValue('free');
+        expect(control.errors).toBeNull();
+    });
+
+    it('should run submit validators when the form is submitted', () => {
+        const form = new BindFormGroup({
+            name: new BindFormControl('taken', null, null, { asyncValidators: BindValidators.withAsyncOptions(check, { trigger: 'submit' }) }),
+        });
+        form.get('name')!._runAsyncValidatorOn('blur');
+        expect(checked).toEqual([]);
+
+        syncPendingControls(form, []);
+
+        expect(checked).toEqual(['taken']);
+        expect(form.invalid).toBe(true);
+    });
+
+    it('should not run the validators without trigger again on blur and submit', () => {
+        const plain = jasmine.createSpy('plain').and.returnValue(of(null));
+        const form = new BindFormGroup({ name: new BindFormControl('taken', null, null, { asyncValidators: plain }) });
+
+        form.get('name')!._runAsyncValidatorOn('blur');
+        syncPendingControls(form, []);
+
+        expect(plain).toHaveBeenCalledTimes(1);
+    });
+
+    it('should only run the validators deferred to the event', () => {
+        const warning = { plain: { type: ErrorItemType.alert } };
+        const plain = jasmine.createSpy('plain').and.returnValue(of(warning));
+        const control = new BindFormControl('taken', null, null, { asyncValidators: [plain, BindValidators.withAsyncOptions(check, { trigger: 'blur' })] });
+        expect(control.errors).toEqual(warning);
+
+        control._runAsyncValidatorOn('blur');
+
+        expect(plain).toHaveBeenCalledTimes(1);
+        expect(checked).toEqual(['taken']);
+        expect(control.errors).toEqual({ ...warning, taken: true });
+
+        control.setValue('other');
+        control._runAsyncValidatorOn('blur');
+
+        expect(plain).toHaveBeenCalledTimes(2);
+    });
+
+    it('should make the ancestors pending while the submit checks run', () => {
+        const result = new Subject<ValidationBindErrors | null>();
+        const form = new BindFormGroup({
+            address: new BindFormGroup({
+                zip: new BindFormControl('75001', null, null, { asyncValidators: BindValidators.withAsyncOptions(() => result, { trigger: 'submit' }) }),
+            }),
+        });
+        const statuses: string[] = [];
+        form.statusChanges.subscribe((status) => statuses.push(status));
+
+        syncPendingControls(form, []);
+
+        expect(form.get('address')!.pending).toBe(true);
+        expect(form.pending).toBe(true);
+        expect(statuses).toEqual(['PENDING']);
+
+        result.next({ unknownZip: true });
+        result.complete();
+
+        expect(form.invalid).toBe(true);
+    });
+
+    it('should not check the same value again on a later event', () => {
+        const control = new BindFormControl('taken', null, null, { asyncValidators: BindValidators.withAsyncOptions(check, {}) });
+
+        control._runAsyncValidatorOn('blur');
+
+        expect(checked).toEqual(['taken']);
+        expect(control.errors).toEqual({ taken: true });
+    });
+});
+
+describe('async validation mode', () => {
+    let checked: any[];
+
+    function check(control: AbstractBindControl): Observable<any> {
+        checked.push(control.value);
+        return of({ remote: true });
+    }
+
+    beforeEach(() => {
+        checked = [];
+    });
+
+    it('should skip async validators while the sync validators fail by default', () => {
+        const control = new BindFormControl('', null, null, { validators: BindValidators.required, asyncValidators: check });
+
+        expect(checked).toEqual([]);
+        expect(control.errors).toEqual({ required: true });
+        expect(control.asyncMode).toEqual('sequential');
+    });
+
+    it('should run async validators with the sync ones in parallel mode', () => {
+        const control = new BindFormControl('', null, null, { validators: BindValidators.required, asyncValidators: check, asyncMode: 'parallel' });
+
+        expect(checked).toEqual(['']);
+        expect(control.errors).toEqual({ required: true, remote: true });
+        expect(control.status).toEqual('INVALID');
+    });
+
+    it('should inherit the mode of the parent', () => {
+        const form = new BindFormGroup({ name: new BindFormControl('') }, { asyncMode: 'parallel' });
+
+        expect(form.get('name')!.asyncMode).toEqual('parallel');
+    });
+});
+
+describe('async validator failures', () => {
+    let attempts: number;
+
+    function failing(): Observable<any> {
+        attempts++;
+        return throwError(new Error('Service unavailable'));
+    }
+
+    beforeEach(() => {
+        attempts = 0;
+    });
+
+    afterEach(() => {
+        setAsyncValidatorFailureHandler(null);
+    });
+
+    it('should report an asyncValidatorFailed error by default', () => {
+        const control = new BindFormControl('', null, null, { asyncValidators: failing });
+
+        expect(control.errors).toEqual({ asyncValidatorFailed: { message: 'Service unavailable' } });
+        expect(control.invalid).toBe(true);
+    });
+
+    it('should retry with backoff', () => {
+        jasmine.clock().install();
+        try {
+            const control = new BindFormControl('', null, null, { asyncValidators: failing, asyncFailurePolicy: { retries: 2, retryDelay: 100 } });
+            expect(attempts).toEqual(1);
+            expect(control.pending).toBe(true);
+
+            jasmine.clock().tick(100);
+            expect(attempts).toEqual(2);
+
+            jasmine.clock().tick(199);
+            expect(attempts).toEqual(2);
+            jasmine.clock().tick(1);
+            expect(attempts).toEqual(3);
+            expect(control.hasError('asyncValidatorFailed')).toBe(true);
+        } finally {
+            jasmine.clock().uninstall();
+        }
+    });
+
+    it('should treat failures as valid when asked to', () => {
+        const form = new BindFormGroup({ name: new BindFormControl('', null, null, { asyncValidators: failing }) }, { asyncFailurePolicy: { action: 'valid' } });
+        form.get('name')!.setValue('john');
+
+        expect(form.get('name')!.errors).toBeNull();
+        expect(form.valid).toBe(true);
+    });
+
+    it('should use the configured severity', () => {
+        const control = new BindFormControl('', null, null, { asyncValidators: failing, asyncFailurePolicy: { errorType: ErrorItemType.alert } });
+
+        expect(control.errors).toEqual({ asyncValidatorFailed: { message: 'Service unavailable', type: ErrorItemType.alert } });
+        expect(control.warned).toBe(true);
+    });
+
+    it('should report failures to the global handler', () => {
+        const handler = jasmine.createSpy('handler');
+        setAsyncValidatorFailureHandler(handler);
+
+        const control = new BindFormControl('', null, null, { asyncValidators: failing });
+
+        expect(handler).toHaveBeenCalledWith({ control, error: jasmine.any(Error), attempts: 1 });
+    });
+});
+
+describe('BindValidators.composeAsync', () => {
+    let slow: Subject<ValidationBindErrors | null>;
+    let updates: Subject<ValidationBindErrors | null>;
+
+    function checkSlow(): Observable<ValidationBindErrors | null> {
+        return slow;
+    }
+
+    function checkFast(): Observable<ValidationBindErrors | null> {
+        return of({ fast: true });
+    }
+
+    function checkUpdates(): Observable<ValidationBindErrors | null> {
+        return updates;
+    }
+
+    beforeEach(() => {
+        slow = new Subject();
+        updates = new Subject();
+    });
+
+    it('should wait for every validator in join mode', () => {
+        const control = new BindFormControl('', null, null, { asyncValidators: [checkSlow, checkFast] });
+
+        expect(control.errors).toBeNull();
+        expect(control.pending).toBe(true);
+        expect(control.pendingValidators).toEqual(['checkSlow']);
+
+        slow.next({ slow: true });
+        slow.complete();
+
+        expect(control.errors).toEqual({ slow: true, fast: true });
+        expect(control.pendingValidators).toEqual([]);
+    });
+
+    it('should list the validators wrapped with options under their own name', () => {
+        const control = new BindFormControl('', null, null, { asyncValidators: [BindValidators.withAsyncOptions(checkSlow, { timeout: 500 }), checkFast] });
+
+        expect(control.pendingValidators).toEqual(['checkSlow']);
+    });
+
+    it('should merge the results as they arrive in stream mode', () => {
+        const control = new BindFormControl('', null, null, { asyncValidators: [checkSlow, checkFast], asyncCompose: 'stream' });
+
+        expect(control.errors).toEqual({ fast: true });
+        expect(control.pendingValidators).toEqual(['checkSlow']);
+
+        slow.next(null);
+        slow.complete();
+
+        expect(control.errors).toEqual({ fast: true });
+        expect(control.pendingValidators).toEqual([]);
+        expect(control.invalid).toBe(true);
+    });
+
+    it('should report each result of a validator emitting several times', () => {
+        const control = new BindFormControl('', null, null, { asyncValidators: [checkUpdates], asyncCompose: 'stream' });
+        expect(control.pending).toBe(true);
+
+        updates.next({ checking: { type: ErrorItemType.info } });
+        expect(control.errors).toEqual({ checking: { type: ErrorItemType.info } });
+        expect(control.pending).toBe(true);
+
+        updates.next({ taken: true });
+        expect(control.errors).toEqual({ taken: true });
+
+        updates.next(null);
+        updates.complete();
+        expect(control.errors).toBeNull();
+        expect(control.valid).toBe(true);
+    });
+
+    it('should clear the pending validators when the validation is cancelled', () => {
+        const control = new BindFormControl('', null, null, { asyncValidators: [checkSlow] });
+        expect(control.pendingValidators).toEqual(['checkSlow']);
+
+        control.disable();
+
+        expect(control.pendingValidators).toEqual([]);
+    });
+
+    it('should keep the other pending validators when the name of a completed one is already gone', () => {
+        const other = new Subject<ValidationBindErrors | null>();
+        function checkOther(): Observable<ValidationBindErrors | null> {
+            return other;
+        }
+        const control = new BindFormControl('', null, null, { asyncValidators: [checkSlow, checkOther], asyncCompose: 'stream' });
+        (control as { pendingValidators: string[] }).pendingValidators = ['checkOther'];
+
+        slow.next(null);
+        slow.complete();
+
+        expect(control.pendingValidators).toEqual(['checkOther']);
+    });
+});
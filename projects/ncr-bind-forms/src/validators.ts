@@ -7,10 +7,12 @@
  */
 
 import { InjectionToken } from '@angular/core';
-import { forkJoin } from 'rxjs';
-import { map } from 'rxjs/operators';
-import { AsyncBindValidatorFn, ValidationBindErrors, BindValidator, BindValidatorFn } from './directives/public_api';
-import { AbstractBindControl } from './model';
+import { concat, defer, forkJoin, merge, Observable, of, throwError, timer, TimeoutError } from 'rxjs';
+import { catchError, finalize, map, switchMap, tap, timeout } from 'rxjs/operators';
+import { AsyncBindValidatorFn, AsyncBindValidatorOptions, ValidationBindErrors, BindValidator, BindValidatorFn, ErrorItemType } from './directives/public_api';
+import { BindFormControlType, parseControlValue } from './control_types';
+import { maskLength, unmaskValue } from './mask';
+import { AbstractBindControl, BindAsyncComposeMode, BindFormHooks } from './model';
 import { toObservable } from './shared';
 
 function isEmptyInputValue(value: any): boolean {
@@ -258,6 +260,122 @@ export class BindValidators {
         return EMAIL_REGEXP.test(control.value) ? null : { email: true };
     }
 
+    /**
+     * @description
+     * BindValidator that requires the control's value to be a valid date: a valid `Date`
+     * instance or an ISO 8601 date string. This validator is applied automatically to
+     * controls of type `BindFormControlType.date`.
+     *
+     * @usageNotes
+     *
+     * ### Validate that the field holds a date
+     *
+     * ```typescript
+     * const control = new BindFormControl('2021-02-30', null, null, BindValidators.date);
+     *
+     * console.log(control.errors); // {date: {actual: '2021-02-30'}}
+     * ```
+     *
+     * @returns An error map with the `date` property
+     * if the validation check fails, otherwise `null`.
+     *
+     * @see `updateValueAndValidity()`
+     *
+     */
+    static date(control: AbstractBindControl): ValidationBindErrors | null {
+        if (isEmptyInputValue(control.value)) {
+            return null; // don't validate empty values to allow optional controls
+        }
+        const value = parseControlValue(BindFormControlType.date, control.value);
+        return value instanceof Date && !isNaN(value.getTime()) ? null : { date: { actual: control.value } };
+    }
+
+    /**
+     * @description
+     * BindValidator that requires the control's value to be a four-digit year, as a number or
+     * a string. This validator is applied automatically to controls of type `BindFormControlType.year`.
+     *
+     * @usageNotes
+     *
+     * ### Validate that the field holds a year
+     *
+     * ```typescript
+     * const control = new BindFormControl('21', null, null, BindValidators.year);
+     *
+     * console.log(control.errors); // {year: {actual: '21'}}
+     * ```
+     *
+     * @returns An error map with the `year` property
+     * if the validation check fails, otherwise `null`.
+     *
+     * @see `updateValueAndValidity()`
+     *
+     */
+    static year(control: AbstractBindControl): ValidationBindErrors | null {
+        if (isEmptyInputValue(control.value)) {
+            return null; // don't validate empty values to allow optional controls
+        }
+        const value = parseControlValue(BindFormControlType.year, control.value);
+        return typeof value === 'number' && value % 1 === 0 && value >= 1000 && value <= 9999 ? null : { year: { actual: control.value } };
+    }
+
+    /**
+     * @description
+     * BindValidator that requires the control's value to be a finite number, or a string that
+     * holds one. This validator is applied automatically to controls of type `BindFormControlType.number`.
+     *
+     * @usageNotes
+     *
+     * ### Validate that the field holds a number
+     *
+     * ```typescript
+     * const control = new BindFormControl('12a', null, null, BindValidators.number);
+     *
+     * console.log(control.errors); // {number: {actual: '12a'}}
+     * ```
+     *
+     * @returns An error map with the `number` property
+     * if the validation check fails, otherwise `null`.
+     *
+     * @see `updateValueAndValidity()`
+     *
+     */
+    static number(control: AbstractBindControl): ValidationBindErrors | null {
+        if (isEmptyInputValue(control.value)) {
+            return null; // don't validate empty values to allow optional controls
+        }
+        const value = parseControlValue(BindFormControlType.number, control.value);
+        return typeof value === 'number' && isFinite(value) ? null : { number: { actual: control.value } };
+    }
+
+    /**
+     * @description
+     * BindValidator that requires the control's value to be an integer, or a string that holds one.
+     *
+     * @usageNotes
+     *
+     * ### Validate that the field holds an integer
+     *
+     * ```typescript
+     * const control = new BindFormControl(1.5, null, null, BindValidators.integer);
+     *
+     * console.log(control.errors); // {integer: {actual: 1.5}}
+     * ```
+     *
+     * @returns An error map with the `integer` property
+     * if the validation check fails, otherwise `null`.
+     *
+     * @see `updateValueAndValidity()`
+     *
+     */
+    static integer(control: AbstractBindControl): ValidationBindErrors | null {
+        if (isEmptyInputValue(control.value)) {
+            return null; // don't validate empty values to allow optional controls
+        }
+        const value = parseControlValue(BindFormControlType.number, control.value);
+        return typeof value === 'number' && isFinite(value) && value % 1 === 0 ? null : { integer: { actual: control.value } };
+    }
+
     /**
      * @description
      * BindValidator that requires the length of the control's value to be greater than or equal
@@ -390,6 +508,439 @@ export class BindValidators {
         };
     }
 
+    /**
+     * @description
+     * BindValidator that requires the control's value to fill every placeholder of a mask.
+     * This validator is also provided by default if you use the `bindMask` attribute.
+     *
+     * In the mask, `9` stands for a digit, `a` for a letter, `*` for a letter or a digit, and any
+     * other character is a literal. The value may be masked or unmasked.
+     *
+     * @usageNotes
+     *
+     * ### Validate that the field holds a complete date
+     *
+     * ```typescript
+     * const control = new BindFormControl('3112', null, BindValidators.mask('99/99/9999'));
+     *
+     * console.log(control.errors); // {maskIncomplete: {requiredLength: 8, actualLength: 4}}
+     * ```
+     *
+     * ```html
+     * <input bindMask="99/99/9999">
+     * ```
+     *
+     * @returns A validator function that returns an error map with the
+     * `maskIncomplete` property if the validation check fails, otherwise `null`.
+     *
+     * @see `updateValueAndValidity()`
+     *
+     */
+    static mask(mask: string): BindValidatorFn {
+        if (!mask) {
+            return BindValidators.nullValidator;
+        }
+        const requiredLength = maskLength(mask);
+        return (control: AbstractBindControl): ValidationBindErrors | null => {
+            if (isEmptyInputValue(control.value)) {
+                return null; // don't validate empty values to allow optional controls
+            }
+            const length = unmaskValue(String(control.value), mask).length;
+            return length < requiredLength ? { maskIncomplete: { requiredLength, actualLength: length } } : null;
+        };
+    }
+
+    /**
+     * @description
+     * BindValidator that requires the control's value to be one of the provided values.
+     *
+     * @usageNotes
+     *
+     * ### Validate that the field holds a known currency
+     *
+     * ```typescript
+     * const control = new BindFormControl('GBP', null, BindValidators.allowedValues(['EUR', 'USD']));
+     *
+     * console.log(control.errors); // {allowedValues: {allowedValues: ['EUR', 'USD'], actualValue: 'GBP'}}
+     * ```
+     *
+     * @returns A validator function that returns an error map with the
+     * `allowedValues` property if the validation check fails, otherwise `null`.
+     *
+     * @see `updateValueAndValidity()`
+     *
+     */
+    static allowedValues(values: any[]): BindValidatorFn {
+        return (control: AbstractBindControl): ValidationBindErrors | null => {
+            if (isEmptyInputValue(control.value)) {
+                return null; // don't validate empty values to allow optional controls
+            }
+            const value = control.value;
+            return values.some((allowed) => allowed === value) ? null : { allowedValues: { allowedValues: values, actualValue: value } };
+        };
+    }
+
+    /**
+     * @description
+     * Group validator that requires two fields of a `BindFormGroup` to hold the same value, such
+     * as a password and its confirmation.
+     *
+     * The error is reported on the group and on the confirmation control, so that the
+     * confirmation input is the one highlighted. The check is skipped while the confirmation is
+     * empty.
+     *
+     * @usageNotes
+     *
+     * ### Validate a password confirmation
+     *
+     * ```typescript
+     * const form = new BindFormGroup(
+     *   { password: new BindFormControl('secret'), confirm: new BindFormControl('secrte') },
+     *   BindValidators.matchFields('password', 'confirm')
+     * );
+     *
+     * console.log(form.errors); // {matchFields: {field: 'password', confirmField: 'confirm'}}
+     * console.log(form.get('confirm').errors); // {matchFields: {field: 'password', confirmField: 'confirm'}}
+     * ```
+     *
+     * @param field The path of the reference control.
+     * @param confirmField The path of the control that must match the reference control.
+     *
+     * @returns A validator function that returns an error map with the
+     * `matchFields` property if the validation check fails, otherwise `null`.
+     *
+     * @see `updateValueAndValidity()`
+     *
+     */
+    static matchFields(field: string, confirmField: string): BindValidatorFn {
+        return (group: AbstractBindControl): ValidationBindErrors | null => {
+            const reference = group.get(field);
+            const confirm = group.get(confirmField);
+            const failed = !!reference && !!confirm && !isEmptyInputValue(confirm.value) && !_valueEquals(reference.value, confirm.value);
+            const error = failed ? { field, confirmField } : null;
+            _setChildError(confirm, 'matchFields', error);
+            return error ? { matchFields: error } : null;
+        };
+    }
+
+    /**
+     * @description
+     * Group validator that requires a start date to be before or equal to an end date.
+     * Dates can be `Date` values or ISO 8601 strings.
+     *
+     * The error is reported on the group and on the end control. The check is skipped while
+     * either date is empty or invalid.
+     *
+     * @usageNotes
+     *
+     * ### Validate a stay
+     *
+     * ```typescript
+     * const form = new BindFormGroup(
+     *   { arrival: new BindFormControl('2020-06-10'), departure: new BindFormControl('2020-06-01') },
+     *   BindValidators.dateRange('arrival', 'departure')
+     * );
+     *
+     * console.log(form.get('departure').errors); // {dateRange: {start: Date, end: Date}}
+     * ```
+     *
+     * @param startField The path of the start date control.
+     * @param endField The path of the end date control.
+     *
+     * @returns A validator function that returns an error map with the
+     * `dateRange` property if the validation check fails, otherwise `null`.
+     *
+     * @see `updateValueAndValidity()`
+     *
+     */
+    static dateRange(startField: string, endField: string): BindValidatorFn {
+        return (group: AbstractBindControl): ValidationBindErrors | null => {
+            const start = group.get(startField);
+            const end = group.get(endField);
+            const startDate = start ? _toDate(start.value) : null;
+            const endDate = end ? _toDate(end.value) : null;
+            const error = startDate && endDate && startDate.getTime() > endDate.getTime() ? { start: startDate, end: endDate } : null;
+            _setChildError(end, 'dateRange', error);
+            return error ? { dateRange: error } : null;
+        };
+    }
+
+    /**
+     * @description
+     * Group validator that requires a minimum number to be lower than or equal to a maximum
+     * number. Numeric strings are accepted.
+     *
+     * The error is reported on the group and on the maximum control. The check is skipped while
+     * either number is empty or invalid.
+     *
+     * @usageNotes
+     *
+     * ### Validate a price range
+     *
+     * ```typescript
+     * const form = new BindFormGroup(
+     *   { min: new BindFormControl(50), max: new BindFormControl(20) },
+     *   BindValidators.numericRange('min', 'max')
+     * );
+     *
+     * console.log(form.get('max').errors); // {numericRange: {min: 50, max: 20}}
+     * ```
+     *
+     * @param minField The path of the minimum control.
+     * @param maxField The path of the maximum control.
+     *
+     * @returns A validator function that returns an error map with the
+     * `numericRange` property if the validation check fails, otherwise `null`.
+     *
+     * @see `updateValueAndValidity()`
+     *
+     */
+    static numericRange(minField: string, maxField: string): BindValidatorFn {
+        return (group: AbstractBindControl): ValidationBindErrors | null => {
+            const minControl = group.get(minField);
+            const maxControl = group.get(maxField);
+            const min = minControl ? _toNumber(minControl.value) : null;
+            const max = maxControl ? _toNumber(maxControl.value) : null;
+            const error = min != null && max != null && min > max ? { min, max } : null;
+            _setChildError(maxControl, 'numericRange', error);
+            return error ? { numericRange: error } : null;
+        };
+    }
+
+    /**
+     * @description
+     * Group validator that requires at least one of the given fields to have a value.
+     *
+     * While none has a value, the error is reported on the group and on every given control.
+     *
+     * @usageNotes
+     *
+     * ### Require a way to get in touch
+     *
+     * ```typescript
+     * const form = new BindFormGroup(
+     *   { email: new BindFormControl(''), phone: new BindFormControl('') },
+     *   BindValidators.requireOneOf(['email', 'phone'])
+     * );
+     *
+     * console.log(form.get('phone').errors); // {requireOneOf: {fields: ['email', 'phone']}}
+     * ```
+     *
+     * @param fields The paths of the controls.
+     *
+     * @returns A validator function that returns an error map with the
+     * `requireOneOf` property if the validation check fails, otherwise `null`.
+     *
+     * @see `updateValueAndValidity()`
+     *
+     */
+    static requireOneOf(fields: string[]): BindValidatorFn {
+        return (group: AbstractBindControl): ValidationBindErrors | null => {
+            const controls = fields.map((field) => group.get(field));
+            const failed = controls.every((control) => !control || isEmptyInputValue(control.value));
+            const error = failed ? { fields } : null;
+            controls.forEach((control) => _setChildError(control, 'requireOneOf', error));
+            return error ? { requireOneOf: error } : null;
+        };
+    }
+
+    /**
+     * @description
+     * Group validator that allows at most one of the given fields to have a value.
+     *
+     * While several have a value, the error is reported on the group and on every control
+     * having a value.
+     *
+     * @usageNotes
+     *
+     * ### Pay either by card or by transfer
+     *
+     * ```typescript
+     * const form = new BindFormGroup(
+     *   { card: new BindFormControl('4111'), iban: new BindFormControl('FR76') },
+     *   BindValidators.mutuallyExclusive(['card', 'iban'])
+     * );
+     *
+     * console.log(form.get('iban').errors); // {mutuallyExclusive: {fields: ['card', 'iban']}}
+     * ```
+     *
+     * @param fields The paths of the controls.
+     *
+     * @returns A validator function that returns an error map with the
+     * `mutuallyExclusive` property if the validation check fails, otherwise `null`.
+     *
+     * @see `updateValueAndValidity()`
+     *
+     */
+    static mutuallyExclusive(fields: string[]): BindValidatorFn {
+        return (group: AbstractBindControl): ValidationBindErrors | null => {
+            const controls = fields.map((field) => group.get(field));
+            const filled = fields.filter((field, i) => !!controls[i] && !isEmptyInputValue(controls[i]!.value));
+            const error = filled.length > 1 ? { fields: filled } : null;
+            controls.forEach((control, i) => _setChildError(control, 'mutuallyExclusive', error && filled.indexOf(fields[i]) !== -1 ? error : null));
+            return error ? { mutuallyExclusive: error } : null;
+        };
+    }
+
+    /**
+     * @description
+     * Group validator that requires a field to have a value when a condition on the group holds.
+     *
+     * The error is reported on the group and on the required control.
+     *
+     * @usageNotes
+     *
+     * ### Require a company name for business accounts
+     *
+     * ```typescript
+     * const form = new BindFormGroup(
+     *   { kind: new BindFormControl('business'), company: new BindFormControl('') },
+     *   BindValidators.requiredIf('company', (group) => group.value.kind === 'business')
+     * );
+     *
+     * console.log(form.get('company').errors); // {requiredIf: {field: 'company'}}
+     * ```
+     *
+     * @param field The path of the control that becomes required.
+     * @param predicate A function called with the group, returning whether the control is required.
+     *
+     * @returns A validator function that returns an error map with the
+     * `requiredIf` property if the validation check fails, otherwise `null`.
+     *
+     * @see `updateValueAndValidity()`
+     *
+     */
+    static requiredIf(field: string, predicate: (group: AbstractBindControl) => boolean): BindValidatorFn {
+        return (group: AbstractBindControl): ValidationBindErrors | null => {
+            const control = group.get(field);
+            const error = !!control && isEmptyInputValue(control.value) && predicate(group) ? { field } : null;
+            _setChildError(control, 'requiredIf', error);
+            return error ? { requiredIf: error } : null;
+        };
+    }
+
+    /**
+     * @description
+     * Wraps a validator so that every entry it reports carries the given severity.
+     *
+     * Entries that are not objects (e.g. `true`) are replaced by `{type}`, object entries
+     * keep their data and get their `type` overridden.
+     *
+     * @usageNotes
+     *
+     * ### Report a maximum length as a non-blocking warning
+     *
+     * ```typescript
+     * const control = new BindFormControl('Angular', null, null, BindValidators.withSeverity(ErrorItemType.alert, BindValidators.maxLength(5)));
+     *
+     * console.log(control.errors); // {maxlength: {requiredLength: 5, actualLength: 7, type: 10}}
+     * console.log(control.status); // 'WARNED'
+     * ```
+     *
+     * @returns A validator function that returns the error map of `validator` with
+     * each entry tagged with `type`, otherwise `null`.
+     *
+     * @see `ErrorItemType`
+     *
+     */
+    static withSeverity(type: ErrorItemType, validator: BindValidatorFn): BindValidatorFn {
+        return (control: AbstractBindControl): ValidationBindErrors | null => {
+            const errors = validator(control);
+            if (!errors) {
+                return null;
+            }
+            const res: ValidationBindErrors = {};
+            Object.keys(errors).forEach((key) => {
+                const entry = errors[key];
+                res[key] = entry != null && typeof entry === 'object' ? { ...entry, type } : { type };
+            });
+            return res;
+        };
+    }
+
+    /**
+     * @description
+     * Wraps an async validator to control when and how often it runs.
+     *
+     * * `debounce` waits for the value to settle: each new validation restarts the wait, and
+     * the pending check is cancelled.
+     * * `throttle` spaces the runs of the validator by at least the given period.
+     * * `trigger` defers the validator to the blur of the control or to the submission of the
+     * form. Until then, the validator reports no error, or its last result when the value did
+     * not change since.
+     * * `timeout` abandons a check that takes too long, and reports an `asyncTimeout` error.
+     *
+     * @usageNotes
+     *
+     * ### Check the availability of a user name after typing
+     *
+     * ```typescript
+     * const control = new BindFormControl('', null, null, {
+     *   asyncValidators: BindValidators.withAsyncOptions(userNameAvailable, { debounce: 300, timeout: 5000 }),
+     * });
+     * ```
+     *
+     * ### Check an IBAN when leaving the field
+     *
+     * ```typescript
+     * const control = new BindFormControl('', null, null, {
+     *   asyncValidators: BindValidators.withAsyncOptions(ibanExists, { trigger: 'blur' }),
+     * });
+     * ```
+     *
+     * @returns An async validator function that returns the result of `validator`, or
+     * `{asyncTimeout: {timeout}}` when the check times out.
+     *
+     * @see `AsyncBindValidatorOptions`
+     *
+     */
+    static withAsyncOptions(validator: AsyncBindValidatorFn, options: AsyncBindValidatorOptions): AsyncBindValidatorFn {
+        const trigger = options.trigger || 'change';
+        const states = new WeakMap<AbstractBindControl, AsyncValidatorState>();
+        const withOptions = (control: AbstractBindControl): Observable<ValidationBindErrors | null> => {
+            let state = states.get(control);
+            if (!state) {
+                state = { lastRun: 0 };
+                states.set(control, state);
+            }
+            const current = state;
+            const value = control.value;
+            const hasResult = current.hasOwnProperty('errors') && current.value === value;
+            const triggered = _triggerRank(control._asyncTrigger) - _triggerRank(trigger);
+            if (triggered < 0) {
+                // not triggered yet: only a result computed for the current value is still relevant
+                return of(hasResult ? current.errors! : null);
+            }
+            if (triggered > 0 && hasResult) {
+                // a later event, e.g. a blur after a change, does not check the same value again
+                return of(current.errors!);
+            }
+
+            let check: Observable<ValidationBindErrors | null> = defer(() => {
+                current.lastRun = Date.now();
+                return toObservable(validator(control));
+            });
+            if (options.timeout) {
+                check = check.pipe(timeout(options.timeout));
+            }
+            check = check.pipe(
+                tap((errors: ValidationBindErrors | null) => {
+                    current.value = value;
+                    current.errors = errors;
+                }),
+                catchError((error: any) => (error instanceof TimeoutError ? of({ asyncTimeout: { timeout: options.timeout } }) : throwError(error)))
+            );
+            const wait = Math.max(options.debounce || 0, options.throttle ? current.lastRun + options.throttle - Date.now() : 0);
+            return wait > 0 ? timer(wait).pipe(switchMap(() => check)) : check;
+        };
+        if (trigger !== 'change') {
+            _deferredTriggers.set(withOptions, [trigger]);
+        }
+        // keeps the name of the wrapped validator in the `pendingValidators` of the control
+        Object.defineProperty(withOptions, 'name', { value: validator.name });
+        return withOptions;
+    }
+
     /**
      * @description
      * BindValidator that performs no operation.
@@ -433,13 +984,21 @@ export class BindValidators {
      * Compose multiple async validators into a single function that returns the union
      * of the individual error objects for the provided control.
      *
+     * In `'join'` mode the result is reported once every validator has completed. In `'stream'`
+     * mode the latest result of each validator is merged into the errors as soon as it arrives,
+     * so a slow validator doesn't hold back the fast ones and a validator emitting several
+     * results reports each of them. The running validators are listed in the
+     * `pendingValidators` of the control.
+     *
+     * @param mode The compose mode, `asyncCompose` of the control by default.
+     *
      * @returns A validator function that returns an error map with the
      * merged error objects of the async validators if the validation check fails, otherwise `null`.
      *
      * @see `updateValueAndValidity()`
      *
      */
-    static composeAsync(validators: (AsyncBindValidatorFn | null)[]): AsyncBindValidatorFn | null {
+    static composeAsync(validators: (AsyncBindValidatorFn | null)[], mode?: BindAsyncComposeMode): AsyncBindValidatorFn | null {
         if (!validators) {
             return null;
         }
@@ -448,13 +1007,67 @@ export class BindValidators {
             return null;
         }
 
-        return (control: AbstractBindControl) => {
-            const observables = _executeAsyncValidators(control, presentValidators).map(toObservable);
-            return forkJoin(observables).pipe(map(_mergeErrors));
+        // the last result of each validator, for the current value of each control
+        const lastResults = new WeakMap<AbstractBindControl, { value: any; results: { [index: number]: ValidationBindErrors | null } }>();
+        const composed = (control: AbstractBindControl) => {
+            const event = control._asyncTrigger;
+            let last = lastResults.get(control);
+            if (!last || !_valueEquals(last.value, control.value)) {
+                last = { value: control.value, results: {} };
+                lastResults.set(control, last);
+            }
+            const current = last;
+            const observables = presentValidators.map((validator: AsyncBindValidatorFn, index: number) => {
+                if (event !== 'change' && !isAsyncValidatorDeferredTo(validator, event) && current.results.hasOwnProperty(index)) {
+                    // a blur or a submission only runs the validators deferred to it, the others keep their result
+                    return of(current.results[index]);
+                }
+                const result = toObservable(validator(control)).pipe(tap((errors: ValidationBindErrors | null) => (current.results[index] = errors)));
+                return _trackPendingValidator(control, validator, index, result);
+            });
+            if ((mode || control.asyncCompose) === 'join') {
+                return forkJoin(observables).pipe(map(_mergeErrors));
+            }
+            const results: ValidationBindErrors[] = [];
+            // each validator also reports its completion, which updates the pending status
+            const updates = observables.map((obs: Observable<ValidationBindErrors | null>, index: number) =>
+                concat(obs.pipe(tap((errors: ValidationBindErrors | null) => (results[index] = errors!))), of(null))
+            );
+            return merge(...updates).pipe(map(() => _mergeErrors(results)));
         };
+        _composedAsyncValidators.add(composed);
+        const triggers = ([] as BindFormHooks[]).concat(...presentValidators.map((validator: AsyncBindValidatorFn) => _deferredTriggers.get(validator) || []));
+        if (triggers.length > 0) {
+            _deferredTriggers.set(composed, triggers);
+        }
+        return composed;
     }
 }
 
+interface AsyncValidatorState {
+    lastRun: number;
+    value?: any;
+    errors?: ValidationBindErrors | null;
+}
+
+const TRIGGERS: BindFormHooks[] = ['change', 'blur', 'submit'];
+
+function _triggerRank(trigger: BindFormHooks): number {
+    return TRIGGERS.indexOf(trigger);
+}
+
+/** The events other than `change` the async validators are deferred to, see `AsyncBindValidatorOptions.trigger`. */
+const _deferredTriggers = new WeakMap<AsyncBindValidatorFn, BindFormHooks[]>();
+
+/**
+ * Whether the async validator, or one of the validators it composes, is deferred to the given
+ * event or to an earlier one, and so runs when the event occurs.
+ */
+export function isAsyncValidatorDeferredTo(validator: AsyncBindValidatorFn, event: BindFormHooks): boolean {
+    const triggers = _deferredTriggers.get(validator);
+    return !!triggers && triggers.some((trigger: BindFormHooks) => _triggerRank(trigger) <= _triggerRank(event));
+}
+
 function isPresent(o: any): boolean {
     return o != null;
 }
@@ -463,8 +1076,74 @@ function _executeValidators(control: AbstractBindControl, validators: BindValida
     return validators.map((v) => v(control));
 }
 
-function _executeAsyncValidators(control: AbstractBindControl, validators: AsyncBindValidatorFn[]): any[] {
-    return validators.map((v) => v(control));
+/** The validators returned by `composeAsync`, whose own validators are tracked instead. */
+const _composedAsyncValidators = new WeakSet<AsyncBindValidatorFn>();
+
+/**
+ * Lists the validator in the `pendingValidators` of the control until its result completes.
+ * The validator is removed before the completion is forwarded, so that the status computed
+ * from the last result no longer sees it as pending.
+ */
+function _trackPendingValidator(
+    control: AbstractBindControl,
+    validator: AsyncBindValidatorFn,
+    index: number,
+    result: Observable<ValidationBindErrors | null>
+): Observable<ValidationBindErrors | null> {
+    if (_composedAsyncValidators.has(validator)) {
+        return result;
+    }
+    const name = validator.name || String(index);
+    return defer(() => {
+        let pending = true;
+        const done = () => {
+            if (pending) {
+                pending = false;
+                const names = control.pendingValidators.slice();
+                // the name may already be gone, e.g. once a reset cleared the pending validators
+                const position = names.indexOf(name);
+                if (position !== -1) names.splice(position, 1);
+                (control as { pendingValidators: string[] }).pendingValidators = names;
+            }
+        };
+        (control as { pendingValidators: string[] }).pendingValidators = [...control.pendingValidators, name];
+        return result.pipe(tap({ complete: done }), finalize(done));
+    });
+}
+
+function _valueEquals(a: any, b: any): boolean {
+    if (a instanceof Date && b instanceof Date) {
+        return a.getTime() === b.getTime();
+    }
+    return a === b;
+}
+
+function _toDate(value: any): Date | null {
+    const date = parseControlValue(BindFormControlType.date, value);
+    return date instanceof Date && !isNaN(date.getTime()) ? date : null;
+}
+
+function _toNumber(value: any): number | null {
+    const num = parseControlValue(BindFormControlType.number, value);
+    return typeof num === 'number' && isFinite(num) ? num : null;
+}
+
+/**
+ * Adds or removes the entry of a group validator on the sync errors of a child control,
+ * keeping the other entries of the child. The entry is added again each time the group
+ * validates, as the child validation resets the sync errors of the child.
+ */
+function _setChildError(control: AbstractBindControl | null, key: string, error: any): void {
+    if (!control || control.disabled) {
+        return;
+    }
+    const errors = control.getErrors('sync');
+    if (error) {
+        control.setErrors({ ...errors, [key]: error }, { emitEvent: false, source: 'sync' });
+    } else if (errors && errors.hasOwnProperty(key)) {
+        const { [key]: removed, ...rest } = errors;
+        control.setErrors(Object.keys(rest).length === 0 ? null : rest, { emitEvent: false, source: 'sync' });
+    }
 }
 
 function _mergeErrors(arrayOfErrors: ValidationBindErrors[]): ValidationBindErrors | null {